@@ -0,0 +1,128 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import type { Plugin } from "vite";
+
+/**
+ * Image pipeline
+ * Vite plugin that turns every JPG/PNG under `public/assets` into AVIF and WebP
+ * variants at several widths, plus a tiny blurred placeholder. The table of what
+ * exists is served as `virtual:image-variants` (see src/images.ts):
+ *
+ *   { "/assets/ram1.jpg": { width: 1920, height: 1080, placeholder: "data:image/webp;base64,…",
+ *                           variants: { avif: [[640, "/assets/variants/ram1-1a2b3c4d-640.avif"], …], webp: […] } } }
+ *
+ * Variant names carry a hash of the source, so a replaced photo never hits a stale cache.
+ * Encodes are kept in node_modules/.cache between runs; the dev server encodes on request,
+ * builds emit them all.
+ */
+
+export type ImagePipelineOptions = {
+  /** Folder inside `public` to scan. */
+  dir?: string;
+  widths?: number[];
+};
+
+type Format = "avif" | "webp";
+type Variant = { source: string; width: number; format: Format };
+
+const VIRTUAL_ID = "virtual:image-variants";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+const OUT_DIR = "assets/variants";
+const FORMATS: Format[] = ["avif", "webp"];
+const PLACEHOLDER_WIDTH = 24;
+const CACHE_DIR = path.resolve("node_modules/.cache/image-pipeline");
+
+const encode = (img: sharp.Sharp, format: Format) =>
+  format === "avif" ? img.avif({ quality: 50, effort: 4 }) : img.webp({ quality: 72 });
+
+export default function imagePipeline({ dir = "assets", widths = [640, 1280, 1920, 2560] }: ImagePipelineOptions = {}): Plugin {
+  let sourceDir = "";
+  // Output file name → how to make it; filled by `scan`.
+  const variants = new Map<string, Variant>();
+  let table: Promise<Record<string, unknown>> | null = null;
+
+  const scan = async () => {
+    const entries: Record<string, unknown> = {};
+    const files = existsSync(sourceDir) ? (await readdir(sourceDir)).filter((f) => /\.(jpe?g|png)$/i.test(f)).sort() : [];
+    for (const file of files) {
+      const source = path.join(sourceDir, file);
+      const data = await readFile(source);
+      const hash = createHash("sha1").update(data).digest("hex").slice(0, 8);
+      const { width = 0, height = 0 } = await sharp(data).metadata();
+      if (!width || !height) continue;
+
+      // Never upscale: widths past the original collapse into the original width.
+      const sizes = [...new Set(widths.map((w) => Math.min(w, width)))].sort((a, b) => a - b);
+      const base = file.replace(/\.[^.]+$/, "");
+      const byFormat = Object.fromEntries(FORMATS.map((format) => [format, sizes.map((w) => {
+        const name = `${base}-${hash}-${w}.${format}`;
+        variants.set(name, { source, width: w, format });
+        return [w, `/${OUT_DIR}/${name}`];
+      })]));
+
+      const tiny = await sharp(data).resize(PLACEHOLDER_WIDTH).blur(1).webp({ quality: 40 }).toBuffer();
+      entries[`/${dir}/${file}`] = {
+        width,
+        height,
+        placeholder: `data:image/webp;base64,${tiny.toString("base64")}`,
+        variants: byFormat,
+      };
+    }
+    return entries;
+  };
+
+  const render = async (name: string) => {
+    const v = variants.get(name);
+    if (!v) return null;
+    const cached = path.join(CACHE_DIR, name);
+    if (existsSync(cached)) return readFile(cached);
+    const out = await encode(sharp(v.source).resize(v.width), v.format).toBuffer();
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(cached, out);
+    return out;
+  };
+
+  return {
+    name: "image-pipeline",
+
+    configResolved(config) {
+      sourceDir = path.join(config.publicDir, dir);
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return null;
+      table ??= scan();
+      return `export default ${JSON.stringify(await table)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use(`/${OUT_DIR}/`, (req, res, next) => {
+        const name = decodeURIComponent((req.url ?? "").replace(/^\//, "").split("?")[0]);
+        (table ??= scan())
+          .then(() => render(name))
+          .then((buf) => {
+            if (!buf) return next();
+            res.setHeader("Content-Type", `image/${variants.get(name)!.format}`);
+            res.setHeader("Cache-Control", "no-cache");
+            res.end(buf);
+          })
+          .catch(next);
+      });
+    },
+
+    async generateBundle() {
+      await (table ??= scan());
+      for (const name of variants.keys()) {
+        const source = await render(name);
+        if (source) this.emitFile({ type: "asset", fileName: `${OUT_DIR}/${name}`, source });
+      }
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Service worker
+ * Keeps the show running without a network. The app shell is cached on install; the
+ * page then asks for its deck (manifest, slide images, music, built scripts) to be
+ * saved with a `precache` message and gets `cache-progress` messages back. Deck
+ * manifests are fetched network-first so a new deck shows up as soon as it's reachable;
+ * everything else saved is served cache-first, including byte ranges for <audio> seeks.
+ *
+ * A new version waits until the page sends `skip-waiting` (its update prompt).
+ */
+
+const VERSION = "v1";
+const SHELL_CACHE = `deepavali-shell-${VERSION}`;
+const DECK_CACHE = "deepavali-deck";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key.startsWith("deepavali-shell-") && key !== SHELL_CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// ---------- messages ----------
+self.addEventListener("message", (event) => {
+  const msg = event.data;
+  if (!msg || typeof msg.type !== "string") return;
+  if (msg.type === "skip-waiting") self.skipWaiting();
+  else if (msg.type === "precache" && Array.isArray(msg.urls)) event.waitUntil(precache(msg.urls, event.source));
+});
+
+/**
+ * Saves every URL not yet cached, reporting progress to the asking page, then drops
+ * entries the current deck no longer uses. One failed file doesn't stop the rest.
+ */
+async function precache(urls, client) {
+  const cache = await caches.open(DECK_CACHE);
+  const wanted = new Set(urls.map((u) => new URL(u, self.location.href).href));
+  const total = wanted.size;
+  let done = 0;
+  let failed = 0;
+  const report = () => client?.postMessage({ type: "cache-progress", done, failed, total });
+  report();
+
+  for (const url of wanted) {
+    try {
+      if (!(await cache.match(url))) {
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        await cache.put(url, res);
+      }
+      done++;
+    } catch {
+      failed++;
+    }
+    report();
+  }
+
+  for (const req of await cache.keys()) {
+    if (!wanted.has(req.url)) await cache.delete(req);
+  }
+}
+
+// ---------- fetch ----------
+const isManifest = (url) => /\.(json|ya?ml)$/i.test(url.pathname) && !url.pathname.endsWith(".webmanifest");
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (isManifest(url)) {
+    event.respondWith(networkFirst(request, DECK_CACHE));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// Fresh when online (refreshing the saved copy), the saved copy otherwise.
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(fallbackUrl ?? request, res.clone());
+    return res;
+  } catch (err) {
+    const saved = await cache.match(fallbackUrl ?? request, { ignoreSearch: Boolean(fallbackUrl) });
+    if (saved) return saved;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const saved = await caches.match(request);
+  if (!saved) return fetch(request);
+  return request.headers.has("range") ? rangeOf(saved, request.headers.get("range")) : saved;
+}
+
+// Media elements seek with Range requests; answer them from the saved whole file.
+async function rangeOf(response, range) {
+  const m = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!m || response.type === "opaque") return response;
+  const body = await response.arrayBuffer();
+  const size = body.byteLength;
+  let start = m[1] ? Number(m[1]) : Math.max(0, size - Number(m[2]));
+  let end = m[1] && m[2] ? Math.min(Number(m[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+  }
+  start = Math.max(0, start);
+  end = Math.max(start, end);
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": response.headers.get("Content-Type") ?? "application/octet-stream",
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
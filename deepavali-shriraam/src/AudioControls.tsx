@@ -0,0 +1,552 @@
+import { useEffect, useRef, useState } from "react";
+import AudioTimeline from "./AudioTimeline";
+import { formatTime } from "./format";
+import { useI18n } from "./i18n";
+import { ignoreShortcut } from "./keys";
+import {
+  BACKGROUND_AUDIO_MODES,
+  DUCK_LEVEL,
+  fadeOut,
+  readBackgroundAudio,
+  SLEEP_TIMERS,
+  storeBackgroundAudio,
+  useMediaSession,
+  type BackgroundAudio,
+  type SleepTimer,
+} from "./mediaSession";
+import type { MessageKey } from "./messages";
+import { DEFAULT_PLAYLIST, playOrder, REPEAT_MODES, stepTrack, type RepeatMode, type SlideSoundtrack, type Track } from "./playlist";
+import type { AudioCommand, AudioStatus } from "./remote";
+
+// ---------- helpers ----------
+const sameSrc = (a: HTMLAudioElement, src: string) => a.src === new URL(src, window.location.href).href;
+
+const REPEAT_ICON: Record<RepeatMode, string> = { all: "🔁", one: "🔂", off: "➡️" };
+const REPEAT_TEXT: Record<RepeatMode, MessageKey> = { all: "repeatAll", one: "repeatOne", off: "repeatOff" };
+const BACKGROUND_TEXT: Record<BackgroundAudio, MessageKey> = { play: "backgroundPlay", pause: "backgroundPause", duck: "backgroundDuck" };
+const parseSleep = (v: string): SleepTimer => (v === "off" || v === "track" ? v : Number(v));
+const SLEEP_FADE_MS = 8000;
+
+type Props = {
+  playlist?: Track[];
+  /** Soundtrack requested by the current slide; a new object re-applies the cue. */
+  cue?: SlideSoundtrack | null;
+  /** Receives the underlying <audio> element (null on unmount), e.g. for analysis. */
+  onAudioElement?: (audio: HTMLAudioElement | null) => void;
+  /** Beat mode (audio-reactive FX) toggle; the button is hidden without a handler. */
+  beatMode?: boolean;
+  onBeatModeChange?: (on: boolean) => void;
+  /** Transport command from the presenter; a new object runs it again. */
+  command?: AudioCommand | null;
+  /** Reports play state, track and position (at most once a second while playing). */
+  onStatus?: (status: AudioStatus) => void;
+  /** Keep playing but render no UI (kiosk). */
+  hidden?: boolean;
+  /** Picture for the system media controls (lock screen, notifications), e.g. the current slide. */
+  artwork?: string;
+  /** Steps the slides; the system next/previous buttons do this when there's only one track. */
+  onSlideStep?: (dir: 1 | -1) => void;
+};
+
+// ---------- audio controls (responsive/stacked on mobile) ----------
+export default function AudioControls({
+  playlist = DEFAULT_PLAYLIST,
+  cue = null,
+  onAudioElement,
+  beatMode = false,
+  onBeatModeChange,
+  command = null,
+  onStatus,
+  hidden = false,
+  artwork,
+  onSlideStep,
+}: Props) {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const [playing, setPlaying] = useState(true);
+  const [muted, setMuted] = useState(false);
+  const [vol, setVol] = useState(0.6); // 0..1
+  const [curr, setCurr] = useState(0);
+  const [dur, setDur] = useState(NaN);
+  const [buffered, setBuffered] = useState<Array<[number, number]>>([]);
+  const [showWave, setShowWave] = useState(false);
+  const [background, setBackground] = useState(readBackgroundAudio);
+  const [sleep, setSleep] = useState<SleepTimer>("off");
+  const [sleepLeft, setSleepLeft] = useState<number | null>(null); // ms
+
+  const [trackIndex, setTrackIndex] = useState(0);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>("all");
+  const [order, setOrder] = useState(() => playOrder(playlist.length, false));
+  const track = playlist[trackIndex] ?? playlist[0];
+  const multi = playlist.length > 1;
+
+  useEffect(() => {
+    const a = new Audio(playlist[0]?.src);
+    a.loop = !multi;
+    a.preload = "auto";
+
+    a.muted = false;
+    a.volume = vol;
+    a.play()
+      .then(() => { setMuted(false); setPlaying(true); })
+      .catch(() => {
+        a.muted = true;
+        a.volume = 0;
+        a.play().catch(() => {});
+        setMuted(true);
+        setPlaying(true);
+
+        const unlock = () => {
+          a.muted = false;
+          a.volume = vol;
+          a.play().catch(() => {});
+          setMuted(false);
+          window.removeEventListener("pointerdown", unlock);
+          window.removeEventListener("keydown", unlock);
+          window.removeEventListener("touchstart", unlock);
+        };
+        window.addEventListener("pointerdown", unlock, { once: true });
+        window.addEventListener("keydown", unlock, { once: true });
+        window.addEventListener("touchstart", unlock, { once: true });
+      });
+
+    audioRef.current = a;
+    onAudioElement?.(a);
+
+    const onMeta = () => { setDur(a.duration); setCurr(a.currentTime || 0); };
+    const onTime = () => setCurr(a.currentTime || 0);
+    const onProgress = () => {
+      const ranges: Array<[number, number]> = [];
+      for (let i = 0; i < a.buffered.length; i++) ranges.push([a.buffered.start(i), a.buffered.end(i)]);
+      setBuffered(ranges);
+    };
+    const onEnded = () => actions.current.trackEnded();
+
+    a.addEventListener("loadedmetadata", onMeta);
+    a.addEventListener("timeupdate", onTime);
+    a.addEventListener("progress", onProgress);
+    a.addEventListener("ended", onEnded);
+
+    const onVis = () => actions.current.visibilityChanged(document.hidden);
+    document.addEventListener("visibilitychange", onVis);
+
+    const onKey = (e: KeyboardEvent) => {
+      if (!audioRef.current || ignoreShortcut(e)) return;
+      if (e.key.toLowerCase() === "m") toggleMute();
+      else if (e.key.toLowerCase() === "n") actions.current.nextTrack();
+      else if (e.key.toLowerCase() === "p") actions.current.prevTrack();
+      else if (e.key === " ") { e.preventDefault(); togglePlay(); }
+      else if (e.key === "ArrowRight") skip(10);
+      else if (e.key === "ArrowLeft") skip(-10);
+      else if (e.key === "ArrowUp") changeVol(Math.min(1, (audioRef.current.volume ?? vol) + 0.1));
+      else if (e.key === "ArrowDown") changeVol(Math.max(0, (audioRef.current.volume ?? vol) - 0.1));
+    };
+    window.addEventListener("keydown", onKey);
+
+    return () => {
+      a.removeEventListener("loadedmetadata", onMeta);
+      a.removeEventListener("timeupdate", onTime);
+      a.removeEventListener("progress", onProgress);
+      a.removeEventListener("ended", onEnded);
+      document.removeEventListener("visibilitychange", onVis);
+      window.removeEventListener("keydown", onKey);
+      a.pause();
+      a.src = "";
+      audioRef.current = null;
+      onAudioElement?.(null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Repeat-one loops natively; a single-track playlist loops unless repeat is off. A
+  // sleep timer set to the end of the track needs that end, so it stops the looping.
+  useEffect(() => {
+    const a = audioRef.current;
+    if (a) a.loop = sleep !== "track" && (repeat === "one" || (repeat === "all" && !multi));
+  }, [repeat, multi, sleep]);
+
+  const play = () => {
+    const a = audioRef.current;
+    if (!a) return;
+    a.play().catch(() => {});
+    setPlaying(true);
+  };
+
+  const pause = () => {
+    const a = audioRef.current;
+    if (!a) return;
+    a.pause();
+    setPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (audioRef.current?.paused) play();
+    else pause();
+  };
+
+  const seekTo = (target: number) => {
+    const a = audioRef.current;
+    if (!a) return;
+    // fastSeek where available; before metadata only currentTime is kept (as the start position).
+    if (typeof a.fastSeek === "function" && a.readyState > 0) a.fastSeek(target); else a.currentTime = target;
+    setCurr(target);
+  };
+
+  const skip = (deltaSec: number) => {
+    const a = audioRef.current;
+    if (!a) return;
+    const duration = isFinite(a.duration) ? a.duration : Infinity;
+    const target = Math.max(
+      0,
+      Math.min(isFinite(duration) ? duration : a.currentTime + deltaSec + 1, a.currentTime + deltaSec)
+    );
+    seekTo(target);
+    if (a.paused) { a.play().catch(() => {}); setPlaying(true); }
+  };
+
+  const toggleMute = () => {
+    const a = audioRef.current;
+    if (!a) return;
+    a.muted = !a.muted;
+    setMuted(a.muted);
+    if (!a.muted) {
+      a.volume = vol;
+      if (a.paused) a.play().catch(() => {});
+    }
+  };
+
+  const changeVol = (v: number) => {
+    setVol(v);
+    const a = audioRef.current;
+    if (!a) return;
+    a.volume = v;
+    if (a.muted && v > 0) {
+      a.muted = false;
+      setMuted(false);
+      a.play().catch(() => {});
+    }
+  };
+
+  // --- playlist ---
+  const selectTrack = (i: number, at = 0) => {
+    const a = audioRef.current;
+    const t = playlist[i];
+    if (!a || !t) return;
+    setTrackIndex(i);
+    if (!sameSrc(a, t.src)) {
+      a.src = t.src;
+      setDur(NaN);
+      setBuffered([]);
+    }
+    a.currentTime = at;
+    setCurr(at);
+    a.play().catch(() => {});
+    setPlaying(true);
+  };
+
+  const nextTrack = () => {
+    const n = stepTrack(order, trackIndex, 1, repeat);
+    if (n != null) selectTrack(n);
+  };
+
+  // Like most players: restart the current track unless we're near its beginning.
+  const prevTrack = () => {
+    const a = audioRef.current;
+    if (a && a.currentTime > 3) { seekTo(0); return; }
+    const n = stepTrack(order, trackIndex, -1, repeat);
+    if (n != null) selectTrack(n);
+  };
+
+  const trackEnded = () => {
+    if (sleep === "track") { fallAsleep(); return; }
+    const n = stepTrack(order, trackIndex, 1, repeat, true);
+    if (n == null) setPlaying(false);
+    else selectTrack(n);
+  };
+
+  const applyCue = (c: SlideSoundtrack) => {
+    const i = playlist.findIndex((t) => t.id === c.track);
+    if (i < 0) return;
+    if (i !== trackIndex) selectTrack(i, c.at ?? 0);
+    else if (c.at != null) seekTo(c.at);
+  };
+
+  // --- hidden tab ---
+  // How the music was changed when the tab was hidden, so it can be undone on return.
+  const hiddenBy = useRef<"paused" | "ducked" | null>(null);
+  const visibilityChanged = (tabHidden: boolean) => {
+    const a = audioRef.current;
+    if (!a) return;
+    if (tabHidden) {
+      if (background === "pause" && !a.paused) { pause(); hiddenBy.current = "paused"; }
+      else if (background === "duck" && !a.paused) { a.volume = vol * DUCK_LEVEL; hiddenBy.current = "ducked"; }
+      return;
+    }
+    if (hiddenBy.current === "ducked") a.volume = vol;
+    // Browsers may also suspend a hidden tab's audio; resume unless the viewer paused it.
+    if (hiddenBy.current === "paused" || (playing && a.paused)) play();
+    hiddenBy.current = null;
+  };
+
+  const changeBackground = (mode: BackgroundAudio) => {
+    setBackground(mode);
+    storeBackgroundAudio(mode);
+  };
+
+  // --- sleep timer ---
+  const chooseSleep = (timer: SleepTimer) => {
+    setSleep(timer);
+    setSleepLeft(typeof timer === "number" ? timer * 60_000 : null);
+  };
+
+  const fallAsleep = () => {
+    chooseSleep("off");
+    const a = audioRef.current;
+    if (!a) return;
+    if (a.paused) { setPlaying(false); return; }
+    fadeOut(a, SLEEP_FADE_MS).then(() => {
+      a.pause();
+      a.volume = vol;
+      setPlaying(false);
+    });
+  };
+
+  useEffect(() => {
+    if (typeof sleep !== "number") return;
+    const endAt = Date.now() + sleep * 60_000;
+    const id = window.setInterval(() => {
+      const left = endAt - Date.now();
+      if (left > 0) setSleepLeft(left);
+      else { window.clearInterval(id); actions.current.fallAsleep(); }
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [sleep]);
+
+  const toggleShuffle = () => {
+    setOrder(playOrder(playlist.length, !shuffle, trackIndex));
+    setShuffle(!shuffle);
+  };
+
+  const cycleRepeat = () => setRepeat((r) => REPEAT_MODES[(REPEAT_MODES.indexOf(r) + 1) % REPEAT_MODES.length]);
+
+  const runCommand = ({ action }: AudioCommand) => {
+    if (action === "toggle") togglePlay();
+    else if (action === "next") nextTrack();
+    else if (action === "prev") prevTrack();
+    else skip(action === "back" ? -10 : 10);
+  };
+
+  // Listeners registered once on mount call through here to see the latest state.
+  const actions = useRef({ nextTrack, prevTrack, trackEnded, applyCue, runCommand, visibilityChanged, fallAsleep });
+  useEffect(() => { actions.current = { nextTrack, prevTrack, trackEnded, applyCue, runCommand, visibilityChanged, fallAsleep }; });
+
+  useEffect(() => { if (cue) actions.current.applyCue(cue); }, [cue]);
+  useEffect(() => { if (command) actions.current.runCommand(command); }, [command]);
+
+  const statusChanged = useRef(onStatus);
+  useEffect(() => void (statusChanged.current = onStatus), [onStatus]);
+  const second = Math.floor(curr);
+  const trackId = track?.id ?? "";
+  const title = track?.title ?? "";
+  useEffect(() => {
+    statusChanged.current?.({ playing, track: trackId, title, time: second, duration: dur });
+  }, [playing, trackId, title, second, dur]);
+
+  // System media controls: next/previous step through tracks, or the slides when there's one track.
+  useMediaSession(track ? { title, artist: track.artist, artwork, playing, position: second, duration: dur } : null, {
+    play,
+    pause,
+    seekBy: skip,
+    seekTo,
+    next: multi ? nextTrack : onSlideStep && (() => onSlideStep(1)),
+    prev: multi ? prevTrack : onSlideStep && (() => onSlideStep(-1)),
+  });
+
+  if (hidden) return null;
+
+  // --- UI: stacked on mobile, inline on ≥sm ---
+  return (
+    <div
+      className="fixed inset-x-2 sm:inset-x-4 z-50"
+      style={{ bottom: "calc(0.5rem + env(safe-area-inset-bottom))" }}
+    >
+      <div className="mx-auto w-full max-w-full sm:max-w-5xl rounded-xl sm:rounded-2xl md:rounded-3xl border border-white/10 bg-black/60 px-3 py-2 sm:px-4 sm:py-2.5 backdrop-blur shadow-lg">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center sm:justify-between gap-2 sm:gap-3">
+          {/* Transport row */}
+          <div className="flex items-center justify-center gap-2 sm:gap-3">
+            {multi && (
+              <button
+                onClick={prevTrack}
+                className="rounded-full bg-white/15 text-white text-sm font-semibold px-2.5 py-1.5 hover:scale-105"
+                aria-label={t("prevTrack")}
+                title={`${t("prevTrack")} (P)`}
+              >
+                ⏮
+              </button>
+            )}
+            <button
+              onClick={togglePlay}
+              className="rounded-full bg-brand-400/90 text-black text-sm font-semibold px-3 py-1.5 hover:scale-105"
+              aria-label={playing ? t("pauseAudio") : t("playAudio")}
+              title={playing ? t("pause") : t("play")}
+            >
+              {playing ? `${t("pause")} ⏸` : `${t("play")} ▶️`}
+            </button>
+            <button
+              onClick={() => skip(-10)}
+              className="rounded-full bg-white/15 text-white text-sm font-semibold px-3 py-1.5 hover:scale-105"
+              aria-label={t("back10")}
+              title={`${t("back10Short")} (←)`}
+            >
+              ⏪ -10s
+            </button>
+            <button
+              onClick={() => skip(10)}
+              className="rounded-full bg-white/15 text-white text-sm font-semibold px-3 py-1.5 hover:scale-105"
+              aria-label={t("forward10")}
+              title={`${t("forward10Short")} (→)`}
+            >
+              ⏩ +10s
+            </button>
+            {multi && (
+              <button
+                onClick={nextTrack}
+                className="rounded-full bg-white/15 text-white text-sm font-semibold px-2.5 py-1.5 hover:scale-105"
+                aria-label={t("nextTrack")}
+                title={`${t("nextTrack")} (N)`}
+              >
+                ⏭
+              </button>
+            )}
+          </div>
+
+          {/* Volume row (mobile: second line) */}
+          <div className="flex items-center justify-center gap-3">
+            <button
+              onClick={toggleMute}
+              className="rounded-full bg-brand-400/90 text-black text-sm font-semibold px-3 py-1.5 hover:scale-105"
+              aria-label={muted ? t("unmute") : t("mute")}
+              title={muted ? t("unmute") : t("mute")}
+            >
+              {muted ? `${t("unmute")} 🔊` : `${t("mute")} 🔇`}
+            </button>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-white/70">{t("vol")}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(vol * 100)}
+                onInput={(e) => changeVol(parseInt((e.target as HTMLInputElement).value, 10) / 100)}
+                className="accent-brand-400 w-32 sm:w-40 md:w-48"
+                aria-label={t("volume")}
+                title={t("volume")}
+              />
+            </div>
+            {multi && (
+              <>
+                <button
+                  onClick={toggleShuffle}
+                  className={`rounded-full text-xs font-semibold px-2.5 py-1.5 hover:scale-105 ${
+                    shuffle ? "bg-brand-400/90 text-black" : "bg-white/15 text-white"
+                  }`}
+                  aria-label={t("shuffle")}
+                  aria-pressed={shuffle}
+                  title={t("shuffle")}
+                >
+                  🔀
+                </button>
+                <button
+                  onClick={cycleRepeat}
+                  className="rounded-full bg-white/15 text-white text-xs font-semibold px-2.5 py-1.5 hover:scale-105"
+                  aria-label={t("repeatLabel", { mode: t(REPEAT_TEXT[repeat]) })}
+                  title={t("repeatMode")}
+                >
+                  {REPEAT_ICON[repeat]} {t(REPEAT_TEXT[repeat])}
+                </button>
+              </>
+            )}
+            {onBeatModeChange && (
+              <button
+                onClick={() => onBeatModeChange(!beatMode)}
+                className={`rounded-full text-xs font-semibold px-2.5 py-1.5 hover:scale-105 ${
+                  beatMode ? "bg-brand-400/90 text-black" : "bg-white/15 text-white"
+                }`}
+                aria-label={t("beatLabel")}
+                aria-pressed={beatMode}
+                title={t("beatTitle")}
+              >
+                ✨ {t("beat")}
+              </button>
+            )}
+          </div>
+
+          {/* Track + time (mobile: bottom centered) */}
+          <div className="flex min-w-0 items-center justify-center gap-2 text-white/80">
+            {track && (
+              <span className="max-w-[14rem] truncate text-[11px] sm:text-xs text-brand-200/90" title={track.artist ? `${track.title} — ${track.artist}` : track.title}>
+                ♪ {track.title}
+              </span>
+            )}
+            <span className="text-[11px] sm:text-xs tabular-nums">
+              {formatTime(curr)} <span className="text-white/50">/</span> {formatTime(dur)}
+            </span>
+            <button
+              onClick={() => setShowWave((w) => !w)}
+              className={`rounded-full text-[11px] px-2 py-0.5 hover:scale-105 ${
+                showWave ? "bg-brand-400/90 text-black" : "bg-white/15 text-white"
+              }`}
+              aria-label={t("showWaveform")}
+              aria-pressed={showWave}
+              title={t("waveform")}
+            >
+              〰
+            </button>
+            <select
+              value={background}
+              onChange={(e) => changeBackground(e.target.value as BackgroundAudio)}
+              className="rounded-full bg-white/15 text-[11px] text-white px-2 py-0.5"
+              aria-label={t("backgroundAudio")}
+              title={t("backgroundAudio")}
+            >
+              {BACKGROUND_AUDIO_MODES.map((m) => <option key={m} value={m} className="bg-black">{t(BACKGROUND_TEXT[m])}</option>)}
+            </select>
+            <select
+              value={String(sleep)}
+              onChange={(e) => chooseSleep(parseSleep(e.target.value))}
+              className="rounded-full bg-white/15 text-[11px] text-white px-2 py-0.5"
+              aria-label={t("sleepTimer")}
+              title={t("sleepTimer")}
+            >
+              {SLEEP_TIMERS.map((s) => (
+                <option key={s} value={String(s)} className="bg-black">
+                  {s === "off" ? t("sleepOff") : s === "track" ? t("sleepTrack") : t("sleepMinutes", { n: s })}
+                </option>
+              ))}
+            </select>
+            {sleepLeft !== null && (
+              <span className="text-[11px] tabular-nums" title={t("sleepLeft", { time: formatTime(sleepLeft / 1000) })}>
+                💤 {formatTime(sleepLeft / 1000)}
+              </span>
+            )}
+          </div>
+
+          {/* Timeline (full width on every breakpoint) */}
+          <div className="w-full sm:basis-full">
+            <AudioTimeline
+              src={track?.src ?? ""}
+              curr={curr}
+              dur={dur}
+              buffered={buffered}
+              onSeek={seekTo}
+              onSkip={skip}
+              showWaveform={showWave}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from "react";
+import { formatTime } from "./format";
+import { useI18n } from "./i18n";
+import { brandAlpha, useTheme } from "./themes";
+import { loadPeaks } from "./waveform";
+
+type Props = {
+  src: string;
+  curr: number;
+  dur: number;
+  /** Buffered ranges in seconds, as read from `audio.buffered`. */
+  buffered: Array<[number, number]>;
+  onSeek: (sec: number) => void;
+  /** Relative seek; the same `skip()` the ±10s buttons and arrow keys use. */
+  onSkip: (deltaSec: number) => void;
+  showWaveform?: boolean;
+};
+
+/**
+ * AudioTimeline
+ * Scrubbable progress bar for the audio bar: click or drag to seek, hover for a time
+ * preview, buffered ranges underneath and an optional decoded waveform.
+ * Keyboard: ←/→ 10s (Shift for 1s), PageUp/PageDown 60s, Home/End.
+ */
+export default function AudioTimeline({ src, curr, dur, buffered, onSeek, onSkip, showWaveform = false }: Props) {
+  const { t } = useI18n();
+  const played = brandAlpha(useTheme().brand[400], 0.95);
+  const barRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<number | null>(null); // 0..1 along the bar
+  const [dragging, setDragging] = useState(false);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+
+  const known = isFinite(dur) && dur > 0;
+  const pct = known ? Math.min(1, curr / dur) : 0;
+
+  const fractionAt = (clientX: number) => {
+    const r = barRef.current?.getBoundingClientRect();
+    if (!r || !r.width) return 0;
+    return Math.max(0, Math.min(1, (clientX - r.left) / r.width));
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!known) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+    onSeek(fractionAt(e.clientX) * dur);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const f = fractionAt(e.clientX);
+    setHover(f);
+    if (dragging && known) onSeek(f * dur);
+  };
+  const onPointerUp = () => setDragging(false);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!known) return;
+    const fine = e.shiftKey ? 1 : 10;
+    let handled = true;
+    if (e.key === "ArrowRight" || e.key === "ArrowUp") onSkip(fine);
+    else if (e.key === "ArrowLeft" || e.key === "ArrowDown") onSkip(-fine);
+    else if (e.key === "PageUp") onSkip(60);
+    else if (e.key === "PageDown") onSkip(-60);
+    else if (e.key === "Home") onSeek(0);
+    else if (e.key === "End") onSeek(Math.max(0, dur - 0.5));
+    else handled = false;
+    // Keep the window-level shortcuts (arrows = seek/volume) from firing a second time.
+    if (handled) { e.preventDefault(); e.stopPropagation(); }
+  };
+
+  // --- waveform peaks (decoded lazily, only when shown) ---
+  useEffect(() => {
+    if (!showWaveform) return;
+    let alive = true;
+    setPeaks(null);
+    loadPeaks(src)
+      .then((p) => { if (alive) setPeaks(p); })
+      .catch(() => { /* no waveform (e.g. CORS or no Web Audio); the plain bar still works */ });
+    return () => { alive = false; };
+  }, [src, showWaveform]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+    const DPR = Math.min(2, window.devicePixelRatio || 1);
+    const { width, height } = canvas.getBoundingClientRect();
+    if (canvas.width !== Math.floor(width * DPR)) canvas.width = Math.floor(width * DPR);
+    if (canvas.height !== Math.floor(height * DPR)) canvas.height = Math.floor(height * DPR);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const bw = canvas.width / peaks.length;
+    const mid = canvas.height / 2;
+    peaks.forEach((v, i) => {
+      const h = Math.max(1 * DPR, v * canvas.height * 0.95);
+      ctx.fillStyle = i / peaks.length <= pct ? played : "rgba(255,255,255,0.35)";
+      ctx.fillRect(i * bw, mid - h / 2, Math.max(1, bw - DPR), h);
+    });
+  }, [peaks, pct, played]);
+
+  const wave = showWaveform && peaks;
+
+  return (
+    <div className="relative w-full select-none">
+      <div
+        ref={barRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={t("seek")}
+        aria-valuemin={0}
+        aria-valuemax={known ? Math.floor(dur) : 0}
+        aria-valuenow={Math.floor(curr)}
+        aria-valuetext={t("timeOf", { curr: formatTime(curr), dur: formatTime(dur) })}
+        aria-disabled={!known}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onPointerLeave={() => setHover(null)}
+        onKeyDown={onKeyDown}
+        className={`group relative w-full cursor-pointer touch-none rounded-full outline-none focus-visible:ring-2 focus-visible:ring-brand-400/80 ${
+          wave ? "h-8" : "h-3 py-1"
+        }`}
+      >
+        {wave ? (
+          <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+        ) : (
+          <div className="relative h-full w-full overflow-hidden rounded-full bg-white/15">
+            {known && buffered.map(([s, e], i) => (
+              <div
+                key={i}
+                className="absolute inset-y-0 bg-white/25"
+                style={{ left: `${(s / dur) * 100}%`, width: `${((e - s) / dur) * 100}%` }}
+              />
+            ))}
+            <div className="absolute inset-y-0 left-0 bg-brand-400/90" style={{ width: `${pct * 100}%` }} />
+          </div>
+        )}
+        {/* Thumb */}
+        <div
+          className="pointer-events-none absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-brand-300 shadow opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100"
+          style={{ left: `${pct * 100}%`, opacity: dragging ? 1 : undefined }}
+        />
+      </div>
+
+      {/* Hover time preview */}
+      {hover != null && known && (
+        <div
+          className="pointer-events-none absolute bottom-full mb-1 -translate-x-1/2 rounded bg-black/80 px-1.5 py-0.5 text-[10px] tabular-nums text-white"
+          style={{ left: `${hover * 100}%` }}
+        >
+          {formatTime(hover * dur)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useI18n } from "./i18n";
+import { buildCardLink, copyText, MESSAGE_MAX, NAME_MAX, type Personalization } from "./personalization";
+
+/**
+ * CardCreator
+ * "Create your card" panel: fill in names and a message, get a personalised link
+ * (`?to=…&from=…&msg=…`) copied to the clipboard.
+ */
+export default function CardCreator({ initial }: { initial?: Personalization | null }) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [to, setTo] = useState(initial?.to ?? "");
+  const [from, setFrom] = useState(initial?.from ?? "");
+  const [msg, setMsg] = useState(initial?.msg ?? "");
+  const [copied, setCopied] = useState<boolean | null>(null);
+
+  const link = buildCardLink({ to, from, msg });
+
+  const copy = async () => setCopied(await copyText(link));
+
+  const field = "w-full rounded bg-white/10 px-2 py-1 text-white placeholder:text-white/40 outline-none focus:ring-1 focus:ring-brand-400/70";
+
+  return (
+    <div className="fixed left-2 top-2 z-50 sm:left-4 sm:top-3">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="rounded-full border border-brand-400/60 bg-black/50 px-3 py-1.5 text-xs sm:text-sm font-semibold text-white/90 backdrop-blur-sm hover:scale-105"
+        aria-expanded={open}
+        title={t("createCardTitle")}
+      >
+        💌 {t("createCard")}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-72 space-y-2 rounded-xl border border-white/10 bg-black/85 p-3 text-left text-xs text-white/90 shadow-lg backdrop-blur">
+          <label className="block space-y-1">
+            <span className="text-white/70">{t("to")}</span>
+            <input value={to} maxLength={NAME_MAX} onChange={(e) => { setTo(e.target.value); setCopied(null); }} placeholder={t("toPlaceholder")} className={field} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-white/70">{t("from")}</span>
+            <input value={from} maxLength={NAME_MAX} onChange={(e) => { setFrom(e.target.value); setCopied(null); }} placeholder={t("fromPlaceholder")} className={field} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-white/70">{t("message")} <span className="text-white/40">({msg.length}/{MESSAGE_MAX})</span></span>
+            <textarea
+              value={msg}
+              maxLength={MESSAGE_MAX}
+              rows={3}
+              onChange={(e) => { setMsg(e.target.value); setCopied(null); }}
+              placeholder={t("messagePlaceholder")}
+              className={`${field} resize-none`}
+            />
+          </label>
+          <input readOnly value={link} onFocus={(e) => e.target.select()} aria-label={t("cardLink")} className={`${field} text-[11px] text-white/70`} />
+          <button
+            onClick={copy}
+            className="w-full rounded-full bg-brand-400/90 px-3 py-1.5 font-semibold text-black hover:scale-105"
+          >
+            {copied ? t("copied") : t("copyLink")}
+          </button>
+          {copied === false && <p role="alert" className="text-red-300">{t("copyFailed")}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { splitRemaining, type CountdownState, type FestivalDayId } from "./countdown";
+import { useI18n } from "./i18n";
+import type { MessageKey } from "./messages";
+import { rgba, useTheme } from "./themes";
+
+const DAY_NAMES: Record<FestivalDayId, MessageKey> = {
+  "dhanteras": "dhanteras",
+  "naraka-chaturdashi": "narakaChaturdashi",
+  "lakshmi-puja": "lakshmiPuja",
+  "govardhan-puja": "govardhanPuja",
+  "bhai-dooj": "bhaiDooj",
+};
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+/**
+ * CountdownBanner
+ * Banner above the greeting: time left to the target with the moment in the viewer's own
+ * timezone, then a "has begun" line while the celebration runs. The digits aren't a live
+ * region (a timer would talk every second); the switch to the celebration is announced.
+ */
+export default function CountdownBanner({ state }: { state: CountdownState }) {
+  const { t, locale } = useI18n();
+  const { glow } = useTheme();
+  const { phase, remainingMs, target } = state;
+  if (phase === "over") return null;
+
+  const name = target.day ? t(DAY_NAMES[target.day]) : t("countdownCustom");
+  const time = new Intl.DateTimeFormat(locale, {
+    weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit",
+  }).format(target.at);
+  const { days, hours, minutes, seconds } = splitRemaining(remainingMs);
+  const units: Array<[string, MessageKey]> = [[pad(hours), "unitHours"], [pad(minutes), "unitMinutes"], [pad(seconds), "unitSeconds"]];
+  if (days) units.unshift([String(days), "unitDays"]);
+
+  return (
+    <div className="mb-1 sm:mb-2 text-brand-200" style={{ textShadow: `0 0 12px ${rgba(glow.text, 0.7)}` }}>
+      <div aria-live="polite">
+        {phase === "celebrating" && (
+          <p className="text-lg sm:text-2xl font-bold animate-fade-in">🎆 {t("countdownStarted", { name })}</p>
+        )}
+      </div>
+      {phase === "counting" && (
+        <div role="timer">
+          <p className="text-xs sm:text-sm text-white/80">
+            {t("countdownTo", { name })} · <time dateTime={new Date(target.at).toISOString()}>{t("countdownAt", { time })}</time>
+          </p>
+          <p className="flex items-end justify-center gap-2 sm:gap-3 font-bold tabular-nums">
+            {units.map(([value, unit]) => (
+              <span key={unit} className="flex flex-col items-center leading-none">
+                <span className="text-2xl sm:text-4xl">{value}</span>
+                <span className="mt-0.5 text-[10px] sm:text-xs font-normal text-white/60">{t(unit)}</span>
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
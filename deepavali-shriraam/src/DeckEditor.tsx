@@ -0,0 +1,403 @@
+import { useEffect, useRef, useState, type ChangeEvent, type KeyboardEvent, type PointerEvent } from "react";
+import DeckIssues from "./DeckIssues";
+import { exportDeck, LOCAL_DECK, openDraft, saveDraft, saveImage, useLocalImages, type EditableDeck } from "./deckStore";
+import { downloadBlob } from "./exportFormats";
+import { FX_DEFAULTS, FX_RANGES, PARTICLE_RANGES, resolveFXOptions } from "./fxOptions";
+import { useI18n } from "./i18n";
+import { PARTICLE_PRESET_NAMES, type ParticleLayer, type ParticlePreset } from "./particles";
+import RamImageFX, { type FireworkPt, type FXOptions } from "./RamImageFX";
+import { showUrl } from "./remote";
+import { parseManifest, slideCaption, type DeckIssue, type LoadedDeck, type Slide } from "./slideDeck";
+import { DEFAULT_THEME, THEME_NAMES, ThemeContext, themedOptions, THEMES, themeVars, type ThemeName } from "./themes";
+import { DEFAULT_TRANSITION, TRANSITION_NAMES, type TransitionName } from "./transitions";
+
+/**
+ * DeckEditor
+ * Deck authoring view (`?edit`): add pictures (kept in IndexedDB), order the slides, write
+ * captions, tune every FXOptions field against a live RamImageFX preview and drag the
+ * firework points into place. The draft saves itself; Play shows it (`?deck=local`) and
+ * Export downloads a manifest any copy of the show can load with `?deck=`.
+ */
+
+const NUMERIC_OPTIONS = Object.keys(FX_RANGES) as (keyof typeof FX_RANGES)[];
+
+const DRAFT_SAVE_MS = 400;
+
+const pct = (v: number) => `${Math.round(Math.min(100, Math.max(0, v)) * 10) / 10}%`;
+
+export default function DeckEditor({ initial }: { initial: LoadedDeck }) {
+  const { t, locale } = useI18n();
+  const [deck, setDeck] = useState<EditableDeck | null>(null);
+  const [sel, setSel] = useState(0);
+  // Problems in the last imported file; `at` remounts the panel for each import.
+  const [imported, setImported] = useState<{ name: string; issues: DeckIssue[]; at: number } | null>(null);
+  const [saved, setSaved] = useState(false);
+  const dragFrom = useRef<number | null>(null);
+
+  // The last draft wins over the deck the show happened to load.
+  useEffect(() => {
+    let alive = true;
+    openDraft({ slides: initial.slides, playlist: initial.playlist, intervalMs: initial.intervalMs, theme: initial.theme }).then((draft) => {
+      if (alive) setDeck(draft);
+    });
+    return () => { alive = false; };
+  }, [initial]);
+
+  useEffect(() => {
+    if (!deck) return;
+    const id = window.setTimeout(() => saveDraft(deck).then(() => setSaved(true), () => setSaved(false)), DRAFT_SAVE_MS);
+    return () => window.clearTimeout(id);
+  }, [deck]);
+
+  const resolve = useLocalImages(deck?.slides ?? []);
+  // The deck as last rendered, for handlers that finish after an await.
+  const latest = useRef(deck);
+  useEffect(() => { latest.current = deck; });
+  if (!deck) return null;
+
+  const slides = deck.slides;
+  const index = Math.min(sel, slides.length - 1);
+  const slide: Slide | undefined = slides[index];
+  const options = slide?.options ?? {};
+  // The deck's own theme, not `?theme=`: this is what the exported file will look like.
+  const theme = THEMES[deck.theme ?? DEFAULT_THEME];
+  const defaults = resolveFXOptions(themedOptions(theme));
+
+  const change = (next: Partial<EditableDeck>) => { setDeck({ ...deck, ...next }); setSaved(false); };
+  const setSlides = (next: Slide[]) => change({ slides: next });
+  const update = (patch: Partial<Slide>) => setSlides(slides.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  const setOption = <K extends keyof FXOptions>(key: K, value: FXOptions[K] | undefined) => {
+    const next = { ...options };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    update({ options: next });
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= slides.length || from === to) return;
+    const next = [...slides];
+    next.splice(to, 0, ...next.splice(from, 1));
+    setSlides(next);
+    setSel(to);
+  };
+
+  const remove = (i: number) => {
+    setSlides(slides.filter((_, j) => j !== i));
+    if (sel >= i) setSel(Math.max(0, sel - 1));
+  };
+
+  const addPictures = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const added = await Promise.all(files.map(async (f) => ({ src: await saveImage(f), caption: f.name.replace(/\.[^.]+$/, "") })));
+    if (!added.length) return;
+    // Edits made during the upload are in the latest deck, not in this render's `slides`.
+    setDeck((d) => d && { ...d, slides: [...d.slides, ...added] });
+    setSaved(false);
+    setSel((latest.current ?? deck).slides.length);
+  };
+
+  const importDeck = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const parsed = parseManifest(JSON.parse(await file.text()));
+      setImported({ name: file.name, issues: parsed.issues, at: Date.now() });
+      if (parsed.slides.length) {
+        change({ slides: parsed.slides, playlist: parsed.playlist, intervalMs: parsed.intervalMs, theme: parsed.theme });
+        setSel(0);
+      }
+    } catch (err) {
+      const message = t("importFailed", { name: file.name, error: (err as Error).message });
+      setImported({ name: file.name, issues: [{ path: "", message }], at: Date.now() });
+    }
+  };
+
+  const button = "rounded-full bg-white/15 px-3 py-1.5 text-sm font-semibold text-white hover:scale-105";
+  const label = "block text-xs text-white/70";
+
+  return (
+    <ThemeContext.Provider value={theme}>
+    <div className="min-h-[100svh] bg-neutral-950 p-3 sm:p-5 text-white" style={themeVars(theme)}>
+      <header className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-lg font-bold text-brand-200">
+          {t("editorTitle")} {saved && <span className="ml-2 text-xs font-normal text-white/60">{t("editorSaved")}</span>}
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          <label className={`${button} cursor-pointer`}>
+            ＋ {t("addPictures")}
+            <input type="file" accept="image/*" multiple onChange={addPictures} className="sr-only" />
+          </label>
+          <label className={`${button} cursor-pointer`} title={t("importDeckTitle")}>
+            {t("importDeck")}
+            <input type="file" accept="application/json,.json" onChange={importDeck} className="sr-only" />
+          </label>
+          <button className={button} title={t("exportDeckTitle")} onClick={async () => downloadBlob(await exportDeck(deck), "deck.json")}>
+            {t("exportDeck")}
+          </button>
+          <a className={button} title={t("playDeckTitle")} href={showUrl(LOCAL_DECK)}>▶ {t("playDeck")}</a>
+          <a className={button} href={showUrl()}>{t("backToShow")}</a>
+        </div>
+      </header>
+
+      {imported && <DeckIssues key={imported.at} issues={imported.issues} url={imported.name} />}
+
+      <div className="grid gap-4 lg:grid-cols-[15rem_1fr_20rem]">
+        {/* Slide list: drag or use the arrows to reorder */}
+        <aside className="space-y-3">
+          <h2 className="text-sm font-semibold text-white/80">{t("deckSlides")}</h2>
+          <ol className="max-h-[70vh] space-y-1.5 overflow-auto">
+            {slides.map((s, i) => (
+              <li
+                key={`${i}-${s.src}`}
+                draggable
+                onDragStart={() => { dragFrom.current = i; }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => { if (dragFrom.current !== null) move(dragFrom.current, i); dragFrom.current = null; }}
+                className={`flex items-center gap-2 rounded-lg border p-1.5 ${i === index ? "border-brand-400/70 bg-white/10" : "border-white/10"}`}
+              >
+                <button onClick={() => setSel(i)} className="flex min-w-0 flex-1 items-center gap-2 text-left" aria-current={i === index}>
+                  {resolve(s.src) ? <img src={resolve(s.src)} alt="" className="h-9 w-14 shrink-0 rounded object-cover" /> : <span className="h-9 w-14 shrink-0 rounded bg-white/10" />}
+                  <span className="truncate text-sm">{i + 1}. {slideCaption(s, locale)}</span>
+                </button>
+                <button onClick={() => move(i, i - 1)} disabled={i === 0} aria-label={t("moveUp")} className="px-1 disabled:opacity-30">▲</button>
+                <button onClick={() => move(i, i + 1)} disabled={i === slides.length - 1} aria-label={t("moveDown")} className="px-1 disabled:opacity-30">▼</button>
+                <button onClick={() => remove(i)} aria-label={t("removeSlide")} className="px-1 text-red-300">✕</button>
+              </li>
+            ))}
+          </ol>
+          <label className={label}>
+            {t("secondsPerSlide")}: {deck.intervalMs / 1000}
+            <input
+              type="range"
+              min={1}
+              max={30}
+              step={0.5}
+              value={deck.intervalMs / 1000}
+              onChange={(e) => change({ intervalMs: Number(e.target.value) * 1000 })}
+              className="w-full accent-brand-400"
+            />
+          </label>
+          <label className={label}>
+            {t("theme")}
+            <select
+              value={theme.name}
+              onChange={(e) => change({ theme: e.target.value as ThemeName })}
+              className="mt-1 w-full rounded bg-white/10 px-2 py-1 text-sm text-white"
+            >
+              {THEME_NAMES.map((n) => <option key={n} value={n} className="bg-black">{n}</option>)}
+            </select>
+          </label>
+        </aside>
+
+        {!slide ? (
+          <p className="rounded-xl border border-white/10 p-6 text-center text-white/70 lg:col-span-2">{t("editorEmpty")}</p>
+        ) : (
+          <>
+            {/* Live preview with draggable firework points */}
+            <section className="space-y-3">
+              <div className="relative aspect-video">
+                {resolve(slide.src) && (
+                  <RamImageFX
+                    key={`${index}-${slide.src}`}
+                    src={resolve(slide.src)}
+                    caption={slideCaption(slide, locale)}
+                    alt={slide.alt}
+                    options={options}
+                    fit={slide.fit}
+                    focalPoint={slide.focalPoint}
+                    fill
+                  />
+                )}
+                {!options.particles && (
+                  <FireworkPoints points={options.fireworks ?? FX_DEFAULTS.fireworks} onChange={(p) => setOption("fireworks", p)} />
+                )}
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className={label}>
+                  {t("caption")}
+                  <input value={slide.caption} onChange={(e) => update({ caption: e.target.value })} className="mt-1 w-full rounded bg-white/10 px-2 py-1 text-sm text-white" />
+                </label>
+                <label className={label}>
+                  {t("altText")}
+                  <input value={slide.alt ?? ""} onChange={(e) => update({ alt: e.target.value || undefined })} className="mt-1 w-full rounded bg-white/10 px-2 py-1 text-sm text-white" />
+                </label>
+                <label className={label}>
+                  {t("transition")}
+                  <select
+                    value={slide.transition ?? DEFAULT_TRANSITION}
+                    onChange={(e) => update({ transition: e.target.value as TransitionName })}
+                    className="mt-1 w-full rounded bg-white/10 px-2 py-1 text-sm text-white"
+                  >
+                    {TRANSITION_NAMES.map((n) => <option key={n} value={n} className="bg-black">{n}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 self-end text-sm">
+                  <input type="checkbox" checked={Boolean(slide.kenBurns)} onChange={(e) => update({ kenBurns: e.target.checked || undefined })} className="accent-brand-400" />
+                  {t("kenBurns")}
+                </label>
+              </div>
+            </section>
+
+            {/* FX inspector */}
+            <aside className="space-y-4">
+              <fieldset className="space-y-2">
+                <legend className="mb-1 text-sm font-semibold text-white/80">{t("effects")}</legend>
+                {NUMERIC_OPTIONS.map((key) => {
+                  const { min, max, int } = FX_RANGES[key];
+                  const value = options[key] ?? defaults[key];
+                  return (
+                    <div key={key} className="flex items-end gap-2">
+                      <label className={`${label} flex-1`}>
+                        <code>{key}</code> {value}
+                        <input
+                          type="range"
+                          min={min}
+                          max={max}
+                          step={int ? 1 : (max - min) / 100}
+                          value={value}
+                          onChange={(e) => setOption(key, Number(e.target.value))}
+                          className="w-full accent-brand-400"
+                        />
+                      </label>
+                      {options[key] !== undefined && (
+                        <button onClick={() => setOption(key, undefined)} aria-label={t("resetOption", { name: key })} className="pb-1 text-white/60">↺</button>
+                      )}
+                    </div>
+                  );
+                })}
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.showSweep ?? defaults.showSweep}
+                    onChange={(e) => setOption("showSweep", e.target.checked)}
+                    className="accent-brand-400"
+                  />
+                  <code>showSweep</code>
+                </label>
+              </fieldset>
+
+              {!options.particles && (
+                <FireworkList points={options.fireworks ?? FX_DEFAULTS.fireworks} onChange={(p) => setOption("fireworks", p)} />
+              )}
+              <ParticleList layers={options.particles ?? []} onChange={(l) => setOption("particles", l.length ? l : undefined)} />
+            </aside>
+          </>
+        )}
+      </div>
+    </div>
+    </ThemeContext.Provider>
+  );
+}
+
+/* ---------- Firework points over the preview ---------- */
+// Handles sit in a pass-through layer, so the preview keeps its own pointer handling.
+function FireworkPoints({ points, onChange }: { points: FireworkPt[]; onChange: (points: FireworkPt[]) => void }) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLDivElement>(null);
+  const dragging = useRef<number | null>(null);
+
+  const place = (i: number, x: string, y: string) => onChange(points.map((p, j) => (j === i ? { ...p, x, y } : p)));
+
+  const onMove = (e: PointerEvent) => {
+    const el = ref.current;
+    if (dragging.current === null || !el) return;
+    const r = el.getBoundingClientRect();
+    place(dragging.current, pct(((e.clientX - r.left) / r.width) * 100), pct(((e.clientY - r.top) / r.height) * 100));
+  };
+
+  const onKey = (i: number, e: KeyboardEvent) => {
+    const step = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] }[e.key];
+    if (!step) return;
+    e.preventDefault();
+    const p = points[i];
+    place(i, pct((parseFloat(p.x) || 0) + step[0]), pct((parseFloat(p.y) || 0) + step[1]));
+  };
+
+  return (
+    <div ref={ref} className="pointer-events-none absolute inset-0">
+      {points.map((p, i) => (
+        <button
+          key={i}
+          aria-label={t("fireworkPoint", { n: i + 1 })}
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); dragging.current = i; }}
+          onPointerMove={onMove}
+          onPointerUp={() => { dragging.current = null; }}
+          onKeyDown={(e) => onKey(i, e)}
+          className="pointer-events-auto absolute flex h-7 w-7 -translate-x-1/2 -translate-y-1/2 cursor-grab touch-none items-center justify-center rounded-full border-2 border-brand-300 bg-black/60 text-xs font-bold text-brand-200 active:cursor-grabbing"
+          style={{ left: p.x, top: p.y }}
+        >
+          {i + 1}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function FireworkList({ points, onChange }: { points: FireworkPt[]; onChange: (points: FireworkPt[]) => void }) {
+  const { t } = useI18n();
+  return (
+    <fieldset className="space-y-1.5">
+      <legend className="mb-1 text-sm font-semibold text-white/80">{t("fireworkPoints")}</legend>
+      {points.map((p, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs">
+          <span className="w-24 font-mono text-white/70">{i + 1}. {p.x}, {p.y}</span>
+          <label className="flex items-center gap-1 text-white/70">
+            {t("fireworkDelay")}
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={p.delay ?? 0}
+              onChange={(e) => onChange(points.map((q, j) => (j === i ? { ...q, delay: Math.max(0, Number(e.target.value)) } : q)))}
+              className="w-16 rounded bg-white/10 px-1 py-0.5 text-white"
+            />
+          </label>
+          <button onClick={() => onChange(points.filter((_, j) => j !== i))} aria-label={t("removeFirework", { n: i + 1 })} className="text-red-300">✕</button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...points, { x: "50%", y: "30%" }])} className="rounded-full bg-white/15 px-3 py-1 text-xs font-semibold">
+        ＋ {t("addFirework")}
+      </button>
+    </fieldset>
+  );
+}
+
+function ParticleList({ layers, onChange }: { layers: ParticleLayer[]; onChange: (layers: ParticleLayer[]) => void }) {
+  const { t } = useI18n();
+  const { min, max } = PARTICLE_RANGES.count;
+  const set = (i: number, patch: Partial<ParticleLayer>) => onChange(layers.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+  return (
+    <fieldset className="space-y-1.5">
+      <legend className="mb-1 text-sm font-semibold text-white/80">{t("particleLayers")}</legend>
+      {layers.length > 0 && <p className="text-xs text-white/60">{t("particlesReplace")}</p>}
+      {layers.map((l, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs">
+          <select
+            value={l.preset}
+            onChange={(e) => set(i, { preset: e.target.value as ParticlePreset })}
+            className="rounded bg-white/10 px-1 py-0.5 text-white"
+          >
+            {PARTICLE_PRESET_NAMES.map((n) => <option key={n} value={n} className="bg-black">{n}</option>)}
+          </select>
+          <label className="flex flex-1 items-center gap-1 text-white/70">
+            <code>count</code>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              value={l.count ?? 60}
+              onChange={(e) => set(i, { count: Number(e.target.value) })}
+              className="flex-1 accent-brand-400"
+            />
+          </label>
+          <button onClick={() => onChange(layers.filter((_, j) => j !== i))} aria-label={t("removeLayer", { n: i + 1 })} className="text-red-300">✕</button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...layers, { preset: "embers", count: 60 }])} className="rounded-full bg-white/15 px-3 py-1 text-xs font-semibold">
+        ＋ {t("addLayer")}
+      </button>
+    </fieldset>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { useI18n } from "./i18n";
+import type { DeckIssue } from "./slideDeck";
+
+/**
+ * DeckIssues
+ * Dismissible panel listing problems found in the slide manifest, so deck authors
+ * see what was skipped instead of a blank or broken frame.
+ */
+export default function DeckIssues({ issues, url }: { issues: DeckIssue[]; url?: string }) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(true);
+  if (!open || !issues.length) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed left-2 right-2 top-2 z-[60] mx-auto max-w-xl rounded-xl border border-red-400/50 bg-black/85 p-3 text-left text-xs sm:text-sm text-white/90 shadow-lg backdrop-blur"
+    >
+      <div className="mb-1.5 flex items-center justify-between gap-3">
+        <strong className="text-red-300">{t("deckProblems", { url: url ?? "", count: issues.length })}</strong>
+        <button
+          onClick={() => setOpen(false)}
+          className="rounded-full bg-white/15 px-2 py-0.5 text-white hover:scale-105"
+          aria-label={t("dismissDeckProblems")}
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="max-h-48 space-y-0.5 overflow-auto">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            {issue.path && <code className="text-brand-200/90">{issue.path}</code>} {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import axe from "axe-core";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import DeepavaliShowcase from "./DeepavaliShowcase";
+import { DEFAULT_SLIDES } from "./slideDeck";
+
+// jsdom has no layout, canvas, image decoding or observers; these stand in just far
+// enough to mount. Hoisted, since images.ts probes for AVIF/WebP as it loads.
+vi.hoisted(() => {
+  class ResizeObserverStub {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+  Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true, ResizeObserver: ResizeObserverStub });
+  HTMLCanvasElement.prototype.getContext = (() => null) as typeof HTMLCanvasElement.prototype.getContext;
+  HTMLImageElement.prototype.decode = () => Promise.reject(new Error("no decoder"));
+  SVGSVGElement.prototype.pauseAnimations = () => {};
+  SVGSVGElement.prototype.unpauseAnimations = () => {};
+});
+
+let host: HTMLElement;
+let root: Root;
+
+beforeEach(() => {
+  host = document.body.appendChild(document.createElement("main"));
+  root = createRoot(host);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  host.remove();
+});
+
+const render = (props: Parameters<typeof DeepavaliShowcase>[0] = {}) =>
+  act(() => root.render(<DeepavaliShowcase autoPlay={false} fireworks={false} sparkles={false} {...props} />));
+
+describe("DeepavaliShowcase accessibility", () => {
+  it("has no axe violations", async () => {
+    render();
+    // jsdom doesn't paint, so contrast can't be measured here.
+    const { violations } = await axe.run(host, { rules: { "color-contrast": { enabled: false } } });
+    expect(violations.map((v) => `${v.id}: ${v.help}`)).toEqual([]);
+  });
+
+  it("marks up the carousel and its current slide", () => {
+    render();
+    const carousel = host.querySelector("section")!;
+    expect(carousel.getAttribute("aria-roledescription")).toBe("carousel");
+    expect(carousel.getAttribute("aria-label")).toBe("Deepavali slideshow");
+
+    const slides = host.querySelectorAll('[aria-roledescription="slide"]');
+    expect(slides).toHaveLength(1);
+    expect(slides[0].getAttribute("role")).toBe("group");
+    expect(slides[0].getAttribute("aria-label")).toBe(`Slide 1 of ${DEFAULT_SLIDES.length}`);
+  });
+
+  it("moves aria-current with the picked dot and announces the slide", () => {
+    render();
+    const dots = () => [...host.querySelectorAll<HTMLButtonElement>('[role="group"][aria-label="Choose a slide"] button')];
+    expect(dots()).toHaveLength(DEFAULT_SLIDES.length);
+    expect(dots().map((d) => d.getAttribute("aria-current"))).toEqual(dots().map((_, i) => (i === 0 ? "true" : null)));
+
+    act(() => dots()[2].click());
+    expect(dots().findIndex((d) => d.getAttribute("aria-current") === "true")).toBe(2);
+
+    const live = host.querySelector("[aria-live]")!;
+    expect(live.getAttribute("aria-live")).toBe("polite");
+    expect(live.getAttribute("aria-atomic")).toBe("true");
+    expect(live.textContent).toMatch(new RegExp(`^Slide 3 of ${DEFAULT_SLIDES.length}: `));
+  });
+
+  it("silences the live region while autoplay runs", () => {
+    render({ autoPlay: true });
+    expect(host.querySelector("[aria-live]")!.getAttribute("aria-live")).toBe("off");
+  });
+});
@@ -1,18 +1,17 @@
-import React, { useEffect, useRef, useState } from "react";
-import RamImageFX from "./RamImageFX";
-
-type Slide = { src: string; caption: string; options?: any };
-
-const DEFAULT_SLIDES: Slide[] = [
-  { src: "/assets/ram1.jpg", caption: "जय श्री राम", options: { bloom: 10, shimmerScale: 10, showSweep: true, emberCount: 110 } },
-  { src: "/assets/ram2.jpg", caption: "श्री राम",     options: { bloom: 12, shimmerScale: 6,  emberCount: 130, hueMin: 25, hueMax: 45 } },
-  { src: "/assets/ram3.jpg", caption: "राम",          options: { bloom: 8,  shimmerScale: 12, emberCount: 90,  fireworks: [{ x: "65%", y: "20%", delay: 0.4 }] } },
-  { src: "/assets/hanuman.jpg", caption: "जय बजरंगबली", options: { bloom: 9, shimmerScale: 8, emberCount: 80, vignetteStrength: 0.8 } },
-  { src: "/assets/ram4.jpg", caption: "श्री राम • लक्ष्मण • हनुमान", options: { bloom: 7, shimmerScale: 6, emberCount: 70, fireworks: [{ x: "20%", y: "18%", delay: 0.2 }, { x: "80%", y: "22%", delay: 0.8 }], vignetteStrength: 0.7 } },
-  { src: "/assets/ramsetu.jpg", caption: "जय श्री राम • सेतु निर्माण", options: { bloom: 11, shimmerScale: 5, emberCount: 140, hueMin: 30, hueMax: 55, showSweep: true } },
-  { src: "/assets/ramsitawedding.jpg", caption: "सीता-राम विवाह", options: { bloom: 10, shimmerScale: 4, emberCount: 120, hueMin: 28, hueMax: 50 } },
-  { src: "/assets/srljh.jpg", caption: "श्री राम • लक्ष्मण • जानकी • हनुमान", options: { bloom: 9, shimmerScale: 7, emberCount: 100 } },
-];
+import { AnimatePresence, motion, useIsPresent } from "framer-motion";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { onFrame } from "./animationClock";
+import CountdownBanner from "./CountdownBanner";
+import { celebrationOptions, useCountdown, type Clock, type CountdownTarget } from "./countdown";
+import { useI18n } from "./i18n";
+import { ignoreShortcut, slideAction, SLIDE_KEY_HINTS } from "./keys";
+import RamImageFX, { type RamImageFXProps } from "./RamImageFX";
+import type { Personalization } from "./personalization";
+import { useQuality } from "./quality";
+import type { SlideCommand } from "./remote";
+import { DEFAULT_INTERVAL_MS, DEFAULT_SLIDES, slideAlt, slideCaption, type Slide } from "./slideDeck";
+import { displayFont, rgba, useTheme, type Greeting } from "./themes";
+import { DEFAULT_TRANSITION, slideVariants, type SlideMotion } from "./transitions";
 
 type Props = {
   slides?: Slide[];
@@ -21,22 +20,41 @@ type Props = {
   fireworks?: boolean;
   sparkles?: boolean;
   showGreeting?: boolean;
+  /** Recipient/sender/message from a personalised link; adds names and an end card. */
+  personal?: Personalization | null;
+  /**
+   * Called with the active slide on mount and whenever it changes; `byAutoplay` is true
+   * when the timer moved on rather than a viewer or the remote.
+   */
+  onSlideChange?: (slide: Slide, index: number, byAutoplay: boolean) => void;
+  /** Slide to open on, e.g. from a deep link. */
+  startAt?: number;
+  /** Navigation from outside (presenter remote); a new object runs it again. */
+  command?: SlideCommand | null;
+  /** Hide arrows, dots, play button and footer (kiosk). */
+  hideControls?: boolean;
+  /**
+   * Makes `autoPlay` controlled: the play/pause button and the K key report here
+   * instead of toggling internal state.
+   */
+  onAutoPlayChange?: (on: boolean) => void;
+  /** Counts down above the greeting, then celebrates with heavier fireworks (countdown.ts). */
+  countdown?: CountdownTarget | null;
+  /** Time source for the countdown. */
+  clock?: Clock;
 };
 
+// Swipe: a quick, mostly horizontal touch drag.
+const SWIPE_MIN_PX = 50;
+const SWIPE_MAX_MS = 800;
+// Trackpad: horizontal scroll this far turns one slide; the rest of the same gesture
+// (momentum included) is swallowed until the wheel has been quiet for WHEEL_GAP_MS.
+const WHEEL_STEP_PX = 80;
+const WHEEL_GAP_MS = 200;
+
 // ---- Rotating multilingual greeting ----
-const GREETINGS: string[] = [
-  "Happy Deepavali",
-  "शुभ दीपावली", "दीपोत्सव मंगलमयः",
-  "শুভ দীপাবলি",
-  "શુભ દિવાળી",
-  "ಶುಭ ದೀಪಾವಳಿ",
-  "ശുഭ ദീപാവലി",
-  "శుభ దీపావళి",
-  "தீபாவளி நல்வாழ்த்துக்கள்",
-  "ਦਿਵਾਲੀ ਦੀਆਂ ਮੁਬਾਰਕਾਂ",
-  "ଶୁଭ ଦୀପାବଳୀ",
-  "दीपावली की शुभकामनाएँ",
-];
+// The greetings come from the theme; `lang` picks the starting one.
+const greetingIndexFor = (greetings: Greeting[], lang: string) => Math.max(0, greetings.findIndex((g) => g.lang === lang));
 
 const useInterval = (cb: () => void, delay: number | null) => {
   const saved = useRef(cb);
@@ -48,32 +66,48 @@ const useInterval = (cb: () => void, delay: number | null) => {
   }, [delay]);
 };
 
-const Dots: React.FC<{ count: number; index: number; onPick: (i: number) => void }> = ({
-  count,
-  index,
-  onPick,
-}) => (
-  <div className="flex items-center justify-center gap-2">
+const Dots: React.FC<{
+  count: number;
+  index: number;
+  onPick: (i: number) => void;
+  label: (i: number) => string;
+  groupLabel: string;
+}> = ({ count, index, onPick, label, groupLabel }) => (
+  <div className="flex items-center justify-center gap-2" role="group" aria-label={groupLabel}>
     {Array.from({ length: count }, (_, i) => (
       <button
         key={i}
-        aria-label={`Go to slide ${i + 1}`}
+        aria-label={label(i)}
+        aria-current={i === index ? "true" : undefined}
         onClick={() => onPick(i)}
         className={`rounded-full transition-all h-2 w-2 sm:h-2.5 sm:w-2.5 ${
-          i === index ? "scale-125 bg-amber-400" : "bg-white/70"
+          i === index ? "scale-125 bg-brand-400" : "bg-white/70"
         }`}
       />
     ))}
   </div>
 );
 
-const RotatingGreeting: React.FC<{ intervalMs?: number }> = ({ intervalMs = 3200 }) => {
-  const [i, setI] = useState(0);
+// Starts on the user's language; `pinned` keeps it there instead of cycling. Screen
+// readers get only the steady greeting in the user's language, not the rotation.
+const RotatingGreeting: React.FC<{ intervalMs?: number; lang: string; pinned?: boolean }> = ({
+  intervalMs = 3200,
+  lang,
+  pinned = false,
+}) => {
+  const theme = useTheme();
+  const { fontFamily } = useI18n();
+  const { greetings } = theme;
+  const [i, setI] = useState(() => greetingIndexFor(greetings, lang));
   const [fade, setFade] = useState(true);
+  useEffect(() => { setI(greetingIndexFor(greetings, lang)); }, [greetings, lang]);
   useInterval(() => {
     setFade(false);
-    setTimeout(() => { setI((p) => (p + 1) % GREETINGS.length); setFade(true); }, 220);
-  }, intervalMs);
+    setTimeout(() => { setI((p) => (p + 1) % greetings.length); setFade(true); }, 220);
+  }, pinned ? null : intervalMs);
+
+  const own = greetings[greetingIndexFor(greetings, lang)];
+  const shown = greetings[i % greetings.length];
 
   return (
     <h2
@@ -81,24 +115,60 @@ const RotatingGreeting: React.FC<{ intervalMs?: number }> = ({ intervalMs = 3200
       style={{
         fontSize: "clamp(22px,5vw,54px)",
         WebkitTextStroke: "0.5px rgba(0,0,0,.35)",
-        textShadow: "0 0 14px rgba(255,210,120,.8), 0 0 30px rgba(255,170,50,.35)",
+        fontFamily: displayFont(theme, fontFamily),
+        textShadow: `0 0 14px ${rgba(theme.glow.text, 0.8)}, 0 0 30px ${rgba(theme.glow.shine, 0.35)}`,
         transition: "opacity .3s ease",
         opacity: fade ? 1 : 0,
       }}
     >
-      {GREETINGS[i]}
+      <span className="sr-only" lang={own.lang}>{own.text}</span>
+      <span aria-hidden="true" lang={shown.lang}>{shown.text}</span>
     </h2>
   );
 };
 
+// ---- Personalised card bits ----
+const ToLine: React.FC<{ to: string }> = ({ to }) => {
+  const { t } = useI18n();
+  return <div className="text-sm sm:text-base text-brand-200/90 animate-fade-in">{t("dear", { name: to })}</div>;
+};
+
+const FromLine: React.FC<{ from: string }> = ({ from }) => {
+  const { t } = useI18n();
+  return <div className="text-xs sm:text-sm text-white/70 animate-fade-in">{t("withLove", { name: from })}</div>;
+};
+
+const EndCard: React.FC<{ personal: Personalization }> = ({ personal }) => {
+  const { t } = useI18n();
+  const { glow } = useTheme();
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 p-4 backdrop-blur-[2px]">
+      <div
+        className="max-w-xl rounded-2xl border border-brand-400/60 bg-black/50 px-5 py-6 sm:px-8 sm:py-8 text-center animate-fade-in"
+        style={{ textShadow: `0 0 12px ${rgba(glow.text, 0.6)}` }}
+      >
+        {personal.to && <div className="mb-2 text-lg sm:text-2xl text-brand-200/95">{t("dear", { name: personal.to })}</div>}
+        <p className="whitespace-pre-line text-base sm:text-xl text-white/95">
+          {personal.msg ?? t("endMessage")}
+        </p>
+        {personal.from && <div className="mt-4 text-sm sm:text-lg text-brand-200/90">— {personal.from}</div>}
+      </div>
+    </div>
+  );
+};
+
 // Frame: taller on phones so the caption chip inside RamImageFX never gets clipped;
 // still shorter on larger screens so the fixed audio bar doesn’t cause page scroll.
-const Frame: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+// Vertical touch drags still scroll the page; horizontal ones are ours, for swiping.
+const Frame: React.FC<React.ComponentProps<"div">> = ({ children, ...rest }) => {
+  const { glow } = useTheme();
+  return (
   <div
+    {...rest}
+    style={{ touchAction: "pan-y pinch-zoom", boxShadow: `0 0 60px ${rgba(glow.shine, 0.2)}` }}
     className="
       relative mx-auto w-full max-w-6xl overflow-hidden
       rounded-xl sm:rounded-2xl border border-white/10 bg-black
-      shadow-[0_0_60px_rgba(255,170,0,0.2)]
       h-[70vh] xs:h-[68vh] sm:h-[64vh] md:h-[66vh] lg:h-[68vh]
       flex items-center justify-center
     "
@@ -106,77 +176,318 @@ const Frame: React.FC<{ children: React.ReactNode }> = ({ children }) => (
     <div className="absolute inset-0 bg-[radial-gradient(circle_at_20%_20%,#111_0%,#000_45%)]" />
     {children}
   </div>
-);
+  );
+};
 
-const Controls: React.FC<{ onPrev: () => void; onNext: () => void }> = ({ onPrev, onNext }) => (
-  <div className="pointer-events-none absolute inset-y-0 z-20 flex w-full items-center justify-between px-2">
-    <button
-      onClick={onPrev}
-      className="pointer-events-auto rounded-full border border-amber-400/60 bg-black/30 p-2 sm:p-2.5 text-white/90 backdrop-blur-sm hover:scale-105"
-      aria-label="Previous"
+// One slide in the transition stack. Once it starts leaving, its FX loops freeze, so
+// rapid navigation never leaves more than the incoming slide animating, and it drops
+// out of the accessibility tree.
+const SlideLayer: React.FC<RamImageFXProps & { motionKey: SlideMotion; label: string }> = ({ motionKey, label, ...fx }) => {
+  const present = useIsPresent();
+  return (
+    <motion.div
+      className="absolute inset-0 flex items-center justify-center"
+      role="group"
+      aria-roledescription="slide"
+      aria-label={label}
+      aria-hidden={!present || undefined}
+      custom={motionKey}
+      variants={slideVariants}
+      initial="enter"
+      animate="center"
+      exit="exit"
     >
-      <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-        <polyline points="15 18 9 12 15 6"></polyline>
-      </svg>
-    </button>
+      <RamImageFX {...fx} paused={!present} />
+    </motion.div>
+  );
+};
+
+const Controls: React.FC<{ onPrev: () => void; onNext: () => void }> = ({ onPrev, onNext }) => {
+  const { t } = useI18n();
+  return (
+    <div className="pointer-events-none absolute inset-y-0 z-20 flex w-full items-center justify-between px-2">
+      <button
+        onClick={onPrev}
+        className="pointer-events-auto rounded-full border border-brand-400/60 bg-black/30 p-2 sm:p-2.5 text-white/90 backdrop-blur-sm hover:scale-105"
+        aria-label={t("previous")}
+        title={`${t("previous")} (${SLIDE_KEY_HINTS.prev})`}
+      >
+        <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="15 18 9 12 15 6"></polyline>
+        </svg>
+      </button>
+      <button
+        onClick={onNext}
+        className="pointer-events-auto rounded-full border border-brand-400/60 bg-black/30 p-2 sm:p-2.5 text-white/90 backdrop-blur-sm hover:scale-105"
+        aria-label={t("next")}
+        title={`${t("next")} (${SLIDE_KEY_HINTS.next})`}
+      >
+        <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="9 18 15 12 9 6"></polyline>
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+// Play/pause for autoplay, ringed by the time left on the current slide. The ring is
+// painted straight from the timer loop through `ringRef`, not through React state.
+const AutoplayButton: React.FC<{
+  playing: boolean;
+  onToggle: () => void;
+  ringRef: React.Ref<SVGCircleElement>;
+}> = ({ playing, onToggle, ringRef }) => {
+  const { t } = useI18n();
+  const label = playing ? t("pauseAutoplay") : t("resumeAutoplay");
+  return (
     <button
-      onClick={onNext}
-      className="pointer-events-auto rounded-full border border-amber-400/60 bg-black/30 p-2 sm:p-2.5 text-white/90 backdrop-blur-sm hover:scale-105"
-      aria-label="Next"
+      onClick={onToggle}
+      // Focus on this button mustn't hold autoplay, or playing from the keyboard would stall.
+      onFocus={(e) => e.stopPropagation()}
+      className="absolute right-2 top-2 z-20 grid h-10 w-10 place-items-center rounded-full bg-black/40 text-white/90 backdrop-blur-sm hover:scale-105"
+      aria-label={label}
+      title={`${label} (${SLIDE_KEY_HINTS.toggle})`}
     >
-      <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-        <polyline points="9 18 15 12 9 6"></polyline>
+      <svg viewBox="0 0 40 40" className="absolute inset-0 -rotate-90">
+        <circle cx="20" cy="20" r="17" fill="none" stroke="rgba(255,255,255,.18)" strokeWidth="2.5" />
+        <circle
+          ref={ringRef}
+          cx="20" cy="20" r="17" fill="none" className="stroke-brand-400" strokeWidth="2.5" strokeLinecap="round"
+          pathLength={1} strokeDasharray="1" strokeDashoffset="1"
+        />
+      </svg>
+      <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+        {playing ? <path d="M6 4h4v16H6zM14 4h4v16h-4z" /> : <path d="M7 4l13 8-13 8z" />}
       </svg>
     </button>
-  </div>
-);
+  );
+};
 
 export default function DeepavaliShowcase({
   slides = DEFAULT_SLIDES,
   autoPlay = true,
-  intervalMs = 5200,
+  intervalMs = DEFAULT_INTERVAL_MS,
   fireworks = true,
   sparkles = true,
   showGreeting = true,
+  personal = null,
+  onSlideChange,
+  startAt = 0,
+  command = null,
+  hideControls = false,
+  onAutoPlayChange,
+  countdown = null,
+  clock,
 }: Props) {
-  const [index, setIndex] = useState(0);
-  const total = slides.length;
+  const { t, locale, pinGreeting } = useI18n();
+  const quality = useQuality();
+  const [{ index, dir }, setNav] = useState(() => ({ index: Math.max(0, Math.min(slides.length - 1, startAt)), dir: 1 }));
+  // A personalised card gets one extra position after the last slide for the end card.
+  const total = slides.length + (personal ? 1 : 0);
+  const atEnd = index >= slides.length;
 
-  const next = () => setIndex((p) => (p + 1) % total);
-  const prev = () => setIndex((p) => (p - 1 + total) % total);
-  useInterval(() => { if (autoPlay) next(); }, autoPlay ? intervalMs : null);
+  const next = () => setNav((p) => ({ index: (p.index + 1) % total, dir: 1 }));
+  const prev = () => setNav((p) => ({ index: (p.index - 1 + total) % total, dir: -1 }));
+  const pick = (i: number) => setNav((p) => ({ index: i, dir: i >= p.index ? 1 : -1 }));
 
-  const slide = slides[index];
+  const [ownAutoPlay, setOwnAutoPlay] = useState(autoPlay);
+  const playing = onAutoPlayChange ? autoPlay : ownAutoPlay;
+  const togglePlay = () => (onAutoPlayChange ?? setOwnAutoPlay)(!playing);
+  // Autoplay holds while the pointer is over the frame or the keyboard is inside the
+  // showcase, so nothing slides away mid-look. Not in kiosk, where the hidden cursor
+  // may simply be parked over the frame.
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const running = playing && (hideControls || (!hovered && !focused));
+
+  // Latest navigation for listeners and remote commands, which must only run when a new one arrives.
+  const nav = useRef({ next, prev, pick, total, togglePlay });
+  useEffect(() => { nav.current = { next, prev, pick, total, togglePlay }; });
+  useEffect(() => {
+    if (!command) return;
+    const { go } = command;
+    if (go === "next") nav.current.next();
+    else if (go === "prev") nav.current.prev();
+    else nav.current.pick(Math.max(0, Math.min(nav.current.total - 1, go)));
+  }, [command]);
+
+  // ---------- autoplay timer ----------
+  // Runs on the shared clock, so it keeps its progress through a hold, freezes with the
+  // clock, and stops in a hidden tab along with requestAnimationFrame. Any slide change,
+  // however it came about, starts the next slide's time from zero.
+  const elapsed = useRef(0);
+  const autoStep = useRef(false);
+  const ringRef = useRef<SVGCircleElement>(null);
+  const paintRing = (f: number) => ringRef.current?.setAttribute("stroke-dashoffset", String(1 - f));
+  useEffect(() => { elapsed.current = 0; paintRing(0); }, [index]);
+  useEffect(() => {
+    if (!running) return;
+    return onFrame(({ dt }) => {
+      elapsed.current += dt * 1000;
+      paintRing(Math.min(1, elapsed.current / intervalMs));
+      if (elapsed.current >= intervalMs) { elapsed.current = 0; autoStep.current = true; nav.current.next(); }
+    });
+  }, [running, intervalMs]);
+
+  // ---------- keyboard ----------
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (ignoreShortcut(e)) return;
+      const action = slideAction(e);
+      if (!action) return;
+      e.preventDefault();
+      const n = nav.current;
+      if (action === "next") n.next();
+      else if (action === "prev") n.prev();
+      else if (action === "first") n.pick(0);
+      else if (action === "last") n.pick(n.total - 1);
+      else n.togglePlay();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // ---------- touch swipe ----------
+  const swipe = useRef<{ id: number; x: number; y: number; t: number } | null>(null);
+  const onSwipeStart = (e: React.PointerEvent) => {
+    if (e.pointerType === "mouse" || !e.isPrimary) return;
+    swipe.current = { id: e.pointerId, x: e.clientX, y: e.clientY, t: e.timeStamp };
+  };
+  const onSwipeEnd = (e: React.PointerEvent) => {
+    const s = swipe.current;
+    if (!s || s.id !== e.pointerId) return;
+    swipe.current = null;
+    const dx = e.clientX - s.x;
+    const dy = e.clientY - s.y;
+    if (Math.abs(dx) < SWIPE_MIN_PX || Math.abs(dx) < Math.abs(dy) * 1.5 || e.timeStamp - s.t > SWIPE_MAX_MS) return;
+    if (dx < 0) next();
+    else prev();
+  };
+
+  // ---------- trackpad horizontal scroll ----------
+  // Non-passive, so a sideways two-finger swipe turns slides instead of navigating back.
+  const frameRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const el = frameRef.current;
+    if (!el) return;
+    let acc = 0;
+    let last = -Infinity;
+    let lockedUntil = -Infinity;
+    const onWheel = (e: WheelEvent) => {
+      if (Math.abs(e.deltaX) <= Math.abs(e.deltaY)) return;
+      e.preventDefault();
+      if (e.timeStamp < lockedUntil) { lockedUntil = e.timeStamp + WHEEL_GAP_MS; return; }
+      if (e.timeStamp - last > WHEEL_GAP_MS) acc = 0;
+      last = e.timeStamp;
+      acc += e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaX * 16 : e.deltaX;
+      if (Math.abs(acc) < WHEEL_STEP_PX) return;
+      if (acc > 0) nav.current.next();
+      else nav.current.prev();
+      acc = 0;
+      lockedUntil = e.timeStamp + WHEEL_GAP_MS;
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // The end card plays over the first slide's FX.
+  const slide = atEnd ? slides[0] : slides[index];
+  // At zero every slide turns up its fireworks until the celebration ends.
+  const timer = useCountdown(countdown, clock);
+  const celebrating = timer?.phase === "celebrating";
+  const options = useMemo(() => (celebrating ? celebrationOptions(slide.options) : slide.options), [celebrating, slide.options]);
+  // Reduced motion keeps the fade but drops zooms and wipes.
+  const name = slide.transition ?? DEFAULT_TRANSITION;
+  const slideMotion: SlideMotion = { dir, name: quality.motion || name === "cut" ? name : "crossfade" };
+
+  const neighbours = [slides[(index + 1) % slides.length].src, slides[(index - 1 + slides.length) % slides.length].src];
+
+  // Spoken on navigation, but not on every autoplay step (the carousel pattern's advice).
+  const position = t("slideOf", { n: index + 1, total });
+  const announcement = atEnd ? t("personalMessage") : `${position}: ${slideAlt(slide, locale)}`;
+
+  const slideChanged = useRef(onSlideChange);
+  useEffect(() => void (slideChanged.current = onSlideChange), [onSlideChange]);
+  useEffect(() => {
+    const byAutoplay = autoStep.current;
+    autoStep.current = false;
+    if (!atEnd) slideChanged.current?.(slide, index, byAutoplay);
+  }, [slide, index, atEnd]);
 
   return (
-    <div className="w-full select-none">
+    <section
+      className="w-full select-none"
+      aria-roledescription="carousel"
+      aria-label={t("slideshow")}
+      // Only keyboard focus holds autoplay; a clicked arrow keeps focus but shouldn't.
+      onFocus={(e) => setFocused(e.target.matches(":focus-visible"))}
+      onBlur={() => setFocused(false)}
+    >
       {/* Greeting ABOVE the frame */}
-      {showGreeting && (
+      {(showGreeting || timer) && (
         <div className="sticky top-0 z-40 mb-2 sm:mb-3">
           <div className="mx-auto max-w-6xl px-2 sm:px-3 text-center">
-            <RotatingGreeting intervalMs={3200} />
+            {timer && <CountdownBanner state={timer} />}
+            {showGreeting && personal?.to && <ToLine to={personal.to} />}
+            {showGreeting && <RotatingGreeting intervalMs={3200} lang={locale} pinned={pinGreeting || !quality.motion} />}
+            {showGreeting && personal?.from && <FromLine from={personal.from} />}
           </div>
         </div>
       )}
 
       {/* Main Image Showcase */}
-      <Frame>
-        <RamImageFX
-          key={slide.src}
-          {...({ src: slide.src, caption: slide.caption, fireworks, sparkles, options: slide.options } as any)}
-        />
-        <Controls onPrev={prev} onNext={next} />
+      <Frame
+        ref={frameRef}
+        onPointerEnter={(e) => { if (e.pointerType === "mouse") setHovered(true); }}
+        onPointerLeave={() => setHovered(false)}
+        onPointerDown={onSwipeStart}
+        onPointerUp={onSwipeEnd}
+        onPointerCancel={() => { swipe.current = null; }}
+      >
+        <AnimatePresence initial={false} custom={slideMotion}>
+          <SlideLayer
+            key={index}
+            motionKey={slideMotion}
+            src={slide.src}
+            label={position}
+            caption={slideCaption(slide, locale)}
+            alt={slideAlt(slide, locale)}
+            description={slide.description}
+            preload={neighbours}
+            fit={slide.fit}
+            focalPoint={slide.focalPoint}
+            fill
+            fireworks={fireworks}
+            sparkles={sparkles}
+            options={options}
+            kenBurnsMs={slide.kenBurns ? intervalMs + 1000 : 0}
+          />
+        </AnimatePresence>
+        {atEnd && personal && <EndCard personal={personal} />}
+        <div className="sr-only" aria-live={running ? "off" : "polite"} aria-atomic="true">{announcement}</div>
+        {!hideControls && <Controls onPrev={prev} onNext={next} />}
+        {!hideControls && <AutoplayButton playing={playing} onToggle={togglePlay} ringRef={ringRef} />}
       </Frame>
 
-      {/* Dots OUTSIDE the frame (tight spacing on mobile) */}
-      <div className="mt-1 sm:mt-2 mb-1 px-2">
-        <Dots count={total} index={index} onPick={setIndex} />
-      </div>
+      {!hideControls && (
+        <>
+          {/* Dots OUTSIDE the frame (tight spacing on mobile) */}
+          <div className="mt-1 sm:mt-2 mb-1 px-2">
+            <Dots
+              count={total}
+              index={index}
+              onPick={pick}
+              label={(i) => (i < slides.length ? t("goToSlide", { n: i + 1 }) : t("goToMessage"))}
+              groupLabel={t("chooseSlide")}
+            />
+          </div>
 
-      {/* Footer text: compact on phones */}
-      <div className="mt-0.5 sm:mt-2 text-center text-[10px] sm:text-xs text-white/50 px-3">
-        Built using React + TypeScript (image FX)
-      </div>
-    </div>
+          {/* Footer text: compact on phones */}
+          <div className="mt-0.5 sm:mt-2 text-center text-[10px] sm:text-xs text-white/50 px-3">
+            {t("builtWith")}
+          </div>
+        </>
+      )}
+    </section>
   );
 }
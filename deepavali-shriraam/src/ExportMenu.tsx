@@ -0,0 +1,164 @@
+import { useRef, useState } from "react";
+import { useI18n } from "./i18n";
+import type { Slide } from "./slideDeck";
+import { useTheme } from "./themes";
+import { canExportVideo, downloadBlob, EXPORT_FPS, EXPORT_SIZES, type StillFormat } from "./exportFormats";
+
+type Kind = "video" | StillFormat;
+
+type Props = {
+  slides: Slide[];
+  /** Currently shown slide, used for still exports. */
+  index: number;
+  intervalMs: number;
+  audioSrc?: string;
+};
+
+/**
+ * ExportMenu
+ * "Export" button + panel for sharing the card: the whole deck as WebM video (with
+ * music), or the current slide as a PNG/GIF still. The exporter loads on first use.
+ */
+export default function ExportMenu({ slides, index, intervalMs, audioSrc }: Props) {
+  const { t, locale, fontFamily } = useI18n();
+  const theme = useTheme();
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<Kind>(canExportVideo() ? "video" : "png");
+  const [sizeIdx, setSizeIdx] = useState(0);
+  const [fps, setFps] = useState(30);
+  const [withAudio, setWithAudio] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const size = EXPORT_SIZES[sizeIdx];
+  const busy = progress != null;
+  const seconds = Math.round((slides.length * intervalMs) / 1000);
+
+  const run = async () => {
+    setError(null);
+    setProgress(0);
+    const ac = new AbortController();
+    abortRef.current = ac;
+    try {
+      const { exportStill, exportVideo } = await import("./exportShowcase");
+      if (kind === "video") {
+        const blob = await exportVideo({
+          slides,
+          intervalMs,
+          width: size.width,
+          height: size.height,
+          fps,
+          theme,
+          text: { locale, fontFamily },
+          audioSrc: withAudio ? audioSrc : undefined,
+          signal: ac.signal,
+          onProgress: setProgress,
+        });
+        downloadBlob(blob, `${theme.name}-${size.width}x${size.height}.webm`);
+      } else {
+        const blob = await exportStill(slides[index], size.width, size.height, kind, theme, { locale, fontFamily });
+        downloadBlob(blob, `${theme.name}-slide-${index + 1}.${kind}`);
+      }
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") setError((err as Error).message || String(err));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="rounded-full border border-brand-400/60 bg-black/50 px-3 py-1.5 text-xs sm:text-sm font-semibold text-white/90 backdrop-blur-sm hover:scale-105"
+        aria-expanded={open}
+        aria-label={t("export")}
+        title={t("exportTitle")}
+      >
+        ⤓ {t("export")}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl border border-white/10 bg-black/85 p-3 text-left text-xs text-white/90 shadow-lg backdrop-blur">
+          <fieldset disabled={busy} className="space-y-2">
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-white/70">{t("format")}</span>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as Kind)}
+                className="rounded bg-white/10 px-2 py-1"
+              >
+                <option value="video" disabled={!canExportVideo()}>{t("exportVideo")}</option>
+                <option value="png">{t("exportPng")}</option>
+                <option value="gif">{t("exportGif")}</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-white/70">{t("size")}</span>
+              <select
+                value={sizeIdx}
+                onChange={(e) => setSizeIdx(Number(e.target.value))}
+                className="rounded bg-white/10 px-2 py-1"
+              >
+                {EXPORT_SIZES.map((s, i) => (
+                  <option key={s.label} value={i}>{s.label}</option>
+                ))}
+              </select>
+            </label>
+            {kind === "video" && (
+              <>
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-white/70">{t("frameRate")}</span>
+                  <select
+                    value={fps}
+                    onChange={(e) => setFps(Number(e.target.value))}
+                    className="rounded bg-white/10 px-2 py-1"
+                  >
+                    {EXPORT_FPS.map((f) => (
+                      <option key={f} value={f}>{f} fps</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={withAudio && !!audioSrc}
+                    disabled={!audioSrc}
+                    onChange={(e) => setWithAudio(e.target.checked)}
+                    className="accent-brand-400"
+                  />
+                  <span>{t("includeMusic")}</span>
+                </label>
+                <p className="text-white/50">{t("exportDuration", { s: seconds })}</p>
+              </>
+            )}
+          </fieldset>
+
+          {busy ? (
+            <div className="mt-3 space-y-2">
+              <div className="h-1.5 w-full overflow-hidden rounded-full bg-white/15">
+                <div className="h-full bg-brand-400/90" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="w-full rounded-full bg-white/15 px-3 py-1.5 font-semibold text-white hover:scale-105"
+              >
+                {t("cancel")}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={run}
+              className="mt-3 w-full rounded-full bg-brand-400/90 px-3 py-1.5 font-semibold text-black hover:scale-105"
+            >
+              {t("export")}
+            </button>
+          )}
+          {error && <p role="alert" className="mt-2 text-red-300">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
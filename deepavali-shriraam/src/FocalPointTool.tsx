@@ -0,0 +1,175 @@
+import { useEffect, useId, useState, type MouseEvent } from "react";
+import { useI18n } from "./i18n";
+import { DEFAULT_FIT, focusOf, IMAGE_FITS, layoutImage, toFocalPoint, type FocalPoint, type ImageFit, type Rect, type Size } from "./imageFit";
+import { useImageSize } from "./images";
+import type { MessageKey } from "./messages";
+import { copyText } from "./personalization";
+import { slideCaption, type Slide } from "./slideDeck";
+
+/**
+ * FocalPointTool
+ * Deck authoring aid: click a slide's picture on the part that must stay in view, pick
+ * a fit, check the crop at a few screen shapes and copy the slide's manifest entry.
+ * Nothing here changes the running show.
+ */
+
+const FIT_LABELS: Record<ImageFit, MessageKey> = { cover: "fitCover", contain: "fitContain", blur: "fitBlur" };
+
+// Wide TV, classic tablet, phone held upright.
+const SHAPES: { label: string; aspect: number }[] = [
+  { label: "16:9", aspect: 16 / 9 },
+  { label: "4:3", aspect: 4 / 3 },
+  { label: "9:16", aspect: 9 / 16 },
+];
+
+type Edit = { fit: ImageFit; focalPoint?: FocalPoint };
+
+const pct = (r: Rect, frame: Size) => ({
+  left: `${(r.x / frame.width) * 100}%`,
+  top: `${(r.y / frame.height) * 100}%`,
+  width: `${(r.width / frame.width) * 100}%`,
+  height: `${(r.height / frame.height) * 100}%`,
+});
+
+// One crop preview, laid out by the same maths as RamImageFX.
+function Preview({ src, size, aspect, edit }: { src: string; size: Size; aspect: number; edit: Edit }) {
+  const frame = { width: aspect, height: 1 };
+  const { main, backdrop } = layoutImage(size, frame, edit.fit, edit.focalPoint);
+  return (
+    <div className="relative h-28 overflow-hidden rounded border border-white/15 bg-black" style={{ aspectRatio: aspect }}>
+      {backdrop && <img src={src} alt="" className="absolute max-w-none blur-md brightness-50" style={pct(backdrop, frame)} />}
+      <img src={src} alt="" className="absolute max-w-none" style={pct(main, frame)} />
+    </div>
+  );
+}
+
+export default function FocalPointTool({ slides, index }: { slides: Slide[]; index: number }) {
+  const { t, locale } = useI18n();
+  const titleId = useId();
+  const [open, setOpen] = useState(false);
+  const [pick, setPick] = useState(0);
+  const [edits, setEdits] = useState<Record<number, Edit>>({});
+  const [copied, setCopied] = useState<boolean | null>(null);
+
+  const slide = slides[Math.min(pick, slides.length - 1)];
+  const edit: Edit = edits[pick] ?? { fit: slide.fit ?? DEFAULT_FIT, focalPoint: slide.focalPoint };
+  const size = useImageSize(slide.src);
+  const focus = focusOf(edit.focalPoint);
+
+  const update = (patch: Partial<Edit>) => { setEdits((e) => ({ ...e, [pick]: { ...edit, ...patch } })); setCopied(null); };
+
+  const onPick = (e: MouseEvent<HTMLImageElement>) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    update({ focalPoint: toFocalPoint(clamp((e.clientX - r.left) / r.width), clamp((e.clientY - r.top) / r.height)) });
+  };
+
+  const config = JSON.stringify({ ...slide, fit: edit.fit, focalPoint: edit.focalPoint }, null, 2);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setOpen(false); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open]);
+
+  const button = "rounded-full border border-brand-400/60 bg-black/50 px-3 py-1.5 text-xs sm:text-sm font-semibold text-white/90 backdrop-blur-sm hover:scale-105";
+
+  return (
+    <>
+      <button
+        onClick={() => { setPick(index); setCopied(null); setOpen(true); }}
+        className={button}
+        aria-label={t("focalTool")}
+        title={t("focalToolTitle")}
+      >
+        🎯
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby={titleId}
+          className="fixed inset-0 z-[60] overflow-auto bg-black/85 p-3 sm:p-6 text-sm text-white/90 backdrop-blur"
+        >
+          <div className="mx-auto max-w-5xl space-y-3">
+            <header className="flex items-center justify-between gap-3">
+              <h2 id={titleId} className="text-lg font-bold text-brand-200">{t("focalTool")}</h2>
+              <button onClick={() => setOpen(false)} className={button}>✕ {t("close")}</button>
+            </header>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={pick}
+                onChange={(e) => { setPick(Number(e.target.value)); setCopied(null); }}
+                className="rounded bg-white/10 px-2 py-1"
+                aria-label={t("chooseSlide")}
+              >
+                {slides.map((s, i) => (
+                  <option key={`${i}-${s.src}`} value={i} className="bg-black">
+                    {i + 1}. {slideCaption(s, locale) || s.src}
+                  </option>
+                ))}
+              </select>
+              <fieldset className="flex flex-wrap gap-3">
+                <legend className="sr-only">{t("fit")}</legend>
+                {IMAGE_FITS.map((f) => (
+                  <label key={f} className="flex items-center gap-1">
+                    <input type="radio" name="fit" checked={edit.fit === f} onChange={() => update({ fit: f })} className="accent-brand-400" />
+                    {t(FIT_LABELS[f])}
+                  </label>
+                ))}
+              </fieldset>
+            </div>
+
+            <p className="text-white/70">{t("focalHelp")}</p>
+            <div className="grid gap-4 lg:grid-cols-[3fr_2fr]">
+              <div className="relative mx-auto w-fit">
+                <img
+                  src={slide.src}
+                  alt={t("focalPickImage")}
+                  onClick={onPick}
+                  className="max-h-[55vh] w-auto cursor-crosshair rounded"
+                />
+                {edit.focalPoint && (
+                  <span
+                    aria-hidden
+                    className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-brand-400 shadow-[0_0_0_2px_rgba(0,0,0,.6)]"
+                    style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  {size && SHAPES.map(({ label, aspect }) => (
+                    <figure key={label} className="space-y-1">
+                      <Preview src={slide.src} size={size} aspect={aspect} edit={edit} />
+                      <figcaption className="text-center text-xs text-white/60">{label}</figcaption>
+                    </figure>
+                  ))}
+                </div>
+                <textarea
+                  readOnly
+                  value={config}
+                  rows={8}
+                  onFocus={(e) => e.target.select()}
+                  aria-label={t("slideConfig")}
+                  className="w-full resize-y rounded bg-white/10 p-2 font-mono text-xs text-white/80"
+                />
+                <button
+                  onClick={async () => setCopied(await copyText(config))}
+                  className="rounded-full bg-brand-400/90 px-3 py-1.5 font-semibold text-black hover:scale-105"
+                >
+                  {copied ? t("copied") : t("copyConfig")}
+                </button>
+                {copied === false && <p role="alert" className="text-red-300">{t("copyConfigFailed")}</p>}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
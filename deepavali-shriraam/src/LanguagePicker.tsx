@@ -0,0 +1,39 @@
+import { LOCALES, isLocale, useI18n } from "./i18n";
+
+/**
+ * LanguagePicker
+ * Compact language select for the UI (names in their own script), plus the option to
+ * keep the rotating greeting on the chosen language.
+ */
+export default function LanguagePicker() {
+  const { locale, setLocale, t, pinGreeting, setPinGreeting } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 rounded-full border border-brand-400/60 bg-black/50 px-3 py-1 text-xs sm:text-sm text-white/90 backdrop-blur-sm">
+      <label className="flex items-center gap-1">
+        <span aria-hidden>🌐</span>
+        <select
+          value={locale}
+          onChange={(e) => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+          className="bg-transparent outline-none"
+          aria-label={t("language")}
+          title={t("language")}
+        >
+          {Object.entries(LOCALES).map(([code, { name }]) => (
+            <option key={code} value={code} lang={code} className="bg-black">{name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1" title={t("pinGreeting")}>
+        <input
+          type="checkbox"
+          checked={pinGreeting}
+          onChange={(e) => setPinGreeting(e.target.checked)}
+          className="accent-brand-400"
+          aria-label={t("pinGreeting")}
+        />
+        <span aria-hidden>📌</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useI18n } from "./i18n";
+import type { OfflineState } from "./offline";
+
+/**
+ * OfflineStatus
+ * Toolbar pill for offline use: saving progress, "available offline" (or what's missing),
+ * a no-network badge, the Install button and the prompt to reload into an update.
+ */
+export default function OfflineStatus({ offline }: { offline: OfflineState }) {
+  const { t } = useI18n();
+  const { cache, online, updateReady, applyUpdate, install } = offline;
+  if (cache.state === "unsupported") return null;
+
+  const pill = "rounded-full border border-brand-400/60 bg-black/50 px-3 py-1.5 text-xs sm:text-sm text-white/90 backdrop-blur-sm";
+  const status =
+    cache.state === "saving"
+      ? { icon: "⬇", text: t("offlineSaving", { done: cache.done, total: cache.total }) }
+      : cache.failed
+        ? { icon: "⚠", text: t("offlineMissing", { failed: cache.failed }) }
+        : { icon: "✓", text: t("offlineReady") };
+
+  return (
+    <div className="flex items-center gap-2">
+      {updateReady && (
+        <button onClick={applyUpdate} className={`${pill} font-semibold hover:scale-105`} title={t("updateReadyTitle")}>
+          ⟳ {t("updateReady")}
+        </button>
+      )}
+      {install && (
+        <button onClick={install} className={`${pill} font-semibold hover:scale-105`} title={t("installTitle")}>
+          📲 {t("install")}
+        </button>
+      )}
+      <span className={pill} role="status" title={status.text}>
+        {!online && <span className="mr-1">{t("offlineNow")} ·</span>}
+        <span aria-hidden>{status.icon}</span>
+        <span className="sr-only sm:not-sr-only sm:ml-1">{status.text}</span>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { formatTime } from "./format";
+import { useI18n } from "./i18n";
+import { slideAction } from "./keys";
+import { useRemoteChannel, type DisplayState } from "./remote";
+import { slideAlt, slideCaption, type Slide } from "./slideDeck";
+
+/**
+ * Presenter
+ * Control view (`?presenter`) for driving the show in another tab or window: current and
+ * next slide, speaker notes, timers, slide/autoplay/music controls and a slide strip.
+ * Everything shown comes from the display's last reported state.
+ */
+export default function Presenter({ slides }: { slides: Slide[] }) {
+  const { t, locale } = useI18n();
+  const [state, setState] = useState<DisplayState | null>(null);
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  const post = useRemoteChannel((msg) => {
+    if (msg.type === "state") setState(msg);
+  });
+
+  useEffect(() => { post({ type: "sync" }); }, [post]);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // Arrows plus the showcase's slide keys; Page keys are what handheld clickers send.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const action = slideAction(e);
+      if (e.key === "ArrowRight" || action === "next") post({ type: "slide", go: "next" });
+      else if (e.key === "ArrowLeft" || action === "prev") post({ type: "slide", go: "prev" });
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [post]);
+
+  const current = state ? slides[state.index] : undefined;
+  // The display loops, so the slide after the last is the first.
+  const upcoming = state ? slides[(state.index + 1) % slides.length] : undefined;
+  const button = "rounded-full bg-white/15 px-3 py-1.5 text-sm font-semibold text-white hover:scale-105";
+
+  return (
+    <div className="min-h-[100svh] bg-neutral-950 p-3 sm:p-5 text-white">
+      <header className="mb-3 flex flex-wrap items-baseline justify-between gap-3">
+        <h1 className="text-lg font-bold text-brand-200">{t("presenterTitle")}</h1>
+        <div className="flex gap-4 font-mono text-sm text-white/80">
+          <span>{t("elapsed")} {formatTime((now - startedAt) / 1000)}</span>
+          {state && <span>{t("onSlide")} {formatTime(Math.max(0, now - state.slideSince) / 1000)}</span>}
+        </div>
+      </header>
+
+      {!state || !current ? (
+        <p className="rounded-xl border border-white/10 p-6 text-center text-white/70">{t("waitingForDisplay")}</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+          <section>
+            <div className="mb-1 text-sm text-white/70">{t("currentSlide", { n: state.index + 1, total: state.total })}</div>
+            <img src={current.src} alt={slideAlt(current, locale)} className="aspect-video w-full rounded-xl border border-brand-400/50 object-cover" />
+            <div className="mt-1 text-brand-200/90">{slideCaption(current, locale)}</div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <button className={button} onClick={() => post({ type: "slide", go: "prev" })}>◀ {t("previous")}</button>
+              <button className={button} onClick={() => post({ type: "slide", go: "next" })}>{t("next")} ▶</button>
+              <button className={button} onClick={() => post({ type: "autoplay", on: !state.autoPlay })}>
+                {state.autoPlay ? `⏸ ${t("pauseAutoplay")}` : `▶ ${t("resumeAutoplay")}`}
+              </button>
+            </div>
+          </section>
+
+          <aside className="space-y-4">
+            <div>
+              <div className="mb-1 text-sm text-white/70">{t("nextSlide")}</div>
+              <img src={upcoming?.src} alt="" className="aspect-video w-full rounded-lg border border-white/10 object-cover opacity-80" />
+            </div>
+
+            <div>
+              <div className="mb-1 text-sm text-white/70">{t("notes")}</div>
+              <p className="max-h-60 overflow-auto whitespace-pre-wrap rounded-lg bg-white/5 p-3 text-base leading-relaxed">
+                {current.notes || <span className="text-white/40">{t("noNotes")}</span>}
+              </p>
+            </div>
+
+            <div>
+              <div className="mb-1 text-sm text-white/70">{t("music")}</div>
+              <div className="mb-2 truncate text-sm">
+                {state.audio?.title
+                  ? `${state.audio.title} · ${formatTime(state.audio.time)} / ${formatTime(state.audio.duration)}`
+                  : t("nothingPlaying")}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button className={button} onClick={() => post({ type: "audio", action: "prev" })} aria-label={t("prevTrack")}>⏮</button>
+                <button className={button} onClick={() => post({ type: "audio", action: "back" })} aria-label={t("back10")}>⏪</button>
+                <button className={button} onClick={() => post({ type: "audio", action: "toggle" })}>
+                  {state.audio?.playing ? `⏸ ${t("pause")}` : `▶️ ${t("play")}`}
+                </button>
+                <button className={button} onClick={() => post({ type: "audio", action: "forward" })} aria-label={t("forward10")}>⏩</button>
+                <button className={button} onClick={() => post({ type: "audio", action: "next" })} aria-label={t("nextTrack")}>⏭</button>
+              </div>
+            </div>
+          </aside>
+        </div>
+      )}
+
+      {/* Slide strip: jump anywhere */}
+      <nav className="mt-4 flex gap-2 overflow-x-auto pb-2">
+        {slides.map((s, i) => (
+          <button
+            key={`${i}-${s.src}`}
+            onClick={() => post({ type: "slide", go: i })}
+            className={`shrink-0 overflow-hidden rounded-md border-2 ${state?.index === i ? "border-brand-400" : "border-transparent opacity-70 hover:opacity-100"}`}
+            aria-label={t("goToSlide", { n: i + 1 })}
+            aria-current={state?.index === i}
+          >
+            <img src={s.src} alt="" className="h-16 w-28 object-cover" />
+          </button>
+        ))}
+      </nav>
+    </div>
+  );
+}
@@ -1,13 +1,32 @@
-import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useEffect, useId, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { onFrame } from "./animationClock";
+import { useAudioReactive } from "./audioReactive";
+import { createFireworkShow, type FireworkShow } from "./fireworks";
+import { resolveFXOptions } from "./fxOptions";
+import { focusOf, layoutImage, type FocalPoint, type ImageFit } from "./imageFit";
+import { preloadImages, useElementSize, useImageSize, useResponsiveImage } from "./images";
+import { createParticleSystem, type ParticleEnv, type ParticleLayer, type ParticleSystem } from "./particles";
+import { useFXActive, useQuality } from "./quality";
+import { rgba, themedOptions, useTheme } from "./themes";
+import { KEN_BURNS_ZOOM, kenBurns } from "./transitions";
+import { createGLRenderer, rendererFromLocation, type GLFrame, type GLRenderer } from "./webglRenderer";
 
 /**
  * RamImageFX
  * Renders one image with layered cinematic FX.
  * This version accepts a rich `options` prop so every slide can feel unique.
+ * FXOptions is the shared contract for slides and manifests; ranges and defaults are
+ * enforced by fxOptions.ts. The quality tier (quality.ts) scales them down on slow or
+ * reduced-motion devices, and all loops pause while the frame is off-screen. The image
+ * comes in the variant sized for the frame (images.ts), fading in over its placeholder,
+ * and is fitted to the frame's actual shape (imageFit.ts). Where WebGL2 is available the
+ * image layers and embers are drawn by webglRenderer.ts instead of SVG filters and CSS
+ * blends; the SVG path remains the fallback.
  */
 
-type FireworkPt = { x: string; y: string; delay?: number };
-type FXOptions = {
+export type FireworkPt = { x: string; y: string; delay?: number };
+export type FXOptions = {
   // visuals
   bloom?: number;                 // GaussianBlur stdDeviation (default 6)
   shimmerScale?: number;          // feDisplacementMap scale (default 8)
@@ -18,112 +37,304 @@ type FXOptions = {
   hueMin?: number;                // ember hue range (default 35)
   hueMax?: number;                // ember hue range (default 60)
   fireworks?: FireworkPt[];       // override fireworks positions
+  particles?: ParticleLayer[];    // preset layers; replaces the emberCount/fireworks defaults
+  // audio
+  audioReactivity?: number;       // 0..2 reaction to live audio when beat mode is on (default 1)
 };
 
-type Props = {
+export type RamImageFXProps = {
   src: string;
   caption?: string;
   fireworks?: boolean;
   sparkles?: boolean;
   options?: FXOptions;
+  /** Slowly pan/zoom the image over this many ms (Ken Burns); 0 keeps it still. */
+  kenBurnsMs?: number;
+  /** Freeze all loops, e.g. while the slide is transitioning out. */
+  paused?: boolean;
+  /** Accessible name for the image (defaults to the caption). */
+  alt?: string;
+  /** Longer description for screen readers. */
+  description?: string;
+  /** Images to fetch once this one has loaded, e.g. the neighbouring slides. */
+  preload?: string[];
+  fit?: ImageFit;
+  focalPoint?: FocalPoint;
+  /** Take the parent's height instead of the standalone 72vh. */
+  fill?: boolean;
 };
 
+const NO_OPTIONS: FXOptions = {};
+const NO_PRELOAD: string[] = [];
+
+// Design size: the viewBox is always W wide, and as tall as the frame's shape makes it.
 const W = 1280;
 const H = 720;
+/** Pointer travel (px) beyond which a press counts as a swipe, not a tap. */
+const TAP_SLOP_PX = 12;
 
 export default function RamImageFX({
   src,
   caption = "जय श्री राम",
   fireworks = true,
   sparkles = true,
-  options = {},
-}: Props) {
+  options = NO_OPTIONS,
+  kenBurnsMs = 0,
+  paused = false,
+  alt,
+  description,
+  preload = NO_PRELOAD,
+  fit,
+  focalPoint,
+  fill = false,
+}: RamImageFXProps) {
   const wrapRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const launchRef = useRef<HTMLCanvasElement>(null);
+  const showRef = useRef<FireworkShow | null>(null);
+  const taps = useRef(new Map<number, { x: number; y: number }>());
+  const svgRef = useRef<SVGSVGElement>(null);
+  const glRef = useRef<HTMLCanvasElement>(null);
+  const systemRef = useRef<ParticleSystem | null>(null);
+  // Unique per instance: during a transition two slides' filters share the document.
+  const uid = useId();
+  const heatId = `heat${uid}`;
+  const bloomId = `bloom${uid}`;
+  const backdropId = `backdrop${uid}`;
+  const titleId = `title${uid}`;
+  const descId = `desc${uid}`;
+
+  const theme = useTheme();
+  const { glow } = theme;
+  const fx = useMemo(() => resolveFXOptions(themedOptions(theme, options)), [theme, options]);
+  const quality = useQuality();
+  const active = useFXActive(wrapRef) && !paused;
+  const { bloom, shimmerScale, vignetteStrength, hueMin, hueMax } = fx;
+  const sweepOn = fx.showSweep && quality.sweep;
+  const shimmerOn = quality.shimmer && shimmerScale > 0;
+  const bloomOn = quality.bloom;
+  // Lost context or an image WebGL may not read (no CORS): back to the SVG path for good.
+  const [renderer] = useState(rendererFromLocation);
+  const [glFailed, setGlFailed] = useState(false);
+  const gl = renderer === "webgl" && !glFailed;
+
+  const frame = useElementSize(wrapRef);
+  const natural = useImageSize(src);
+  const { href, placeholder } = useResponsiveImage(src, frame, kenBurnsMs ? KEN_BURNS_ZOOM : 1);
+  const [loaded, setLoaded] = useState(false);
+
+  // Until both sizes are known the image simply covers the frame, centred.
+  const vh = frame ? (W * frame.height) / frame.width : H;
+  const layout = natural ? layoutImage(natural, { width: W, height: vh }, fit, focalPoint) : null;
+  const main = layout?.main ?? { x: 0, y: 0, width: W, height: vh };
+  const imageBox = { ...main, preserveAspectRatio: layout ? "none" : "xMidYMid slice" };
+  // Ken Burns zooms in on (or out from) the focal point.
+  const focus = focusOf(focalPoint);
+  const kenOrigin = { originX: (main.x + focus.x * main.width) / W, originY: (main.y + focus.y * main.height) / vh };
 
-  const bloom = options.bloom ?? 6;
-  const shimmerScale = options.shimmerScale ?? 8;
-  const vignetteStrength = options.vignetteStrength ?? 1;
-  const emberCount = options.emberCount ?? 80;
-  const hueMin = options.hueMin ?? 35;
-  const hueMax = options.hueMax ?? 60;
-  const sweepOn = options.showSweep ?? false;
+  // Neighbours download once this image is in, sized for this same frame.
+  const preloadList = preload.join("\n");
+  useEffect(() => {
+    const el = wrapRef.current;
+    if (!loaded || !el || !preloadList) return;
+    preloadImages(preloadList.split("\n"), el.getBoundingClientRect());
+  }, [loaded, preloadList]);
+  const motionOn = quality.motion;
+  const ken = useMemo(() => (kenBurnsMs > 0 && motionOn ? kenBurns(src, kenBurnsMs) : {}), [src, kenBurnsMs, motionOn]);
 
-  // --- Embers / Sparkles canvas ---
+  // Beat mode: strength 0 opts a slide out even while the mode is on.
+  const audio = useAudioReactive();
+  const reactivity = audio.enabled ? fx.audioReactivity : 0;
+  const blurRef = useRef<SVGFEGaussianBlurElement>(null);
+
+  // --- Particle layers (embers, pops and the other presets) ---
+  const { particles } = fx;
+  const particlesOn = (sparkles && quality.emberScale > 0) || (fireworks && motionOn);
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !active) return;
     const ctx = canvas.getContext("2d")!;
-    let raf = 0;
-    let run = true;
     const DPR = Math.min(2, window.devicePixelRatio || 1);
+    const env: ParticleEnv = { width: 0, height: 0, scale: DPR, random: Math.random };
+
+    const resize = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = env.width = Math.floor(width * DPR);
+      canvas.height = env.height = Math.floor(height * DPR);
+    };
+    resize();
+    window.addEventListener("resize", resize);
+
+    const system = createParticleSystem(particles, env, {
+      hueMin,
+      hueMax,
+      ambient: sparkles,
+      bursts: fireworks && motionOn,
+      density: quality.emberScale,
+      beatDriven: reactivity > 0,
+    });
+    // Beat mode: burst layers take turns firing on detected beats.
+    const unsubscribe = reactivity ? audio.onBeat(system.beat) : undefined;
+    // With WebGL on, the embers are drawn as GPU sprites (see below) and skipped here.
+    systemRef.current = system;
+
+    const draw = ({ dt }: { dt: number }) => {
+      // Loudness (0..1) scaled by the slide's reactivity drives the ambient presets.
+      const drive = reactivity ? Math.min(1, audio.frame().energy * 2.5) * reactivity : 0;
+      system.step(dt, { reactive: reactivity > 0, drive });
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      system.draw(ctx, gl);
+    };
+
+    draw({ dt: 0 });
+    const stop = onFrame(draw);
+    return () => {
+      stop();
+      unsubscribe?.();
+      systemRef.current = null;
+      window.removeEventListener("resize", resize);
+    };
+  }, [particles, hueMin, hueMax, sparkles, fireworks, motionOn, quality.emberScale, reactivity, audio, active, gl]);
+
+  // --- WebGL renderer ---
+  // Per-frame inputs, refreshed every render so the loop below never restarts for them.
+  const glFrame = useRef<Omit<GLFrame, "time">>(null!);
+  useEffect(() => {
+    glFrame.current = {
+      width: W,
+      height: vh,
+      main,
+      backdrop: layout?.backdrop,
+      shimmer: shimmerOn ? shimmerScale : 0,
+      bloom: bloomOn ? bloom : 0,
+      vignette: vignetteStrength,
+      sweep: sweepOn,
+      glow,
+    };
+  });
+
+  const [glRenderer, setGlRenderer] = useState<GLRenderer | null>(null);
+  const [glImage, setGlImage] = useState<string | null>(null);
+  useEffect(() => {
+    const canvas = glRef.current;
+    if (!gl || !canvas) return;
+    const r = createGLRenderer(canvas, () => setGlFailed(true));
+    if (!r) { setGlFailed(true); return; }
+    setGlRenderer(r);
+    return () => {
+      setGlRenderer(null);
+      r.dispose();
+    };
+  }, [gl]);
+
+  useEffect(() => {
+    if (!glRenderer || !href) return;
+    let alive = true;
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.src = href;
+    img.decode().then(() => {
+      if (!alive) return;
+      glRenderer.setImage(img);
+      setGlImage(href);
+      setLoaded(true);
+    }, () => { if (alive) setGlFailed(true); });
+    return () => { alive = false; };
+  }, [glRenderer, href]);
+
+  useEffect(() => {
+    const canvas = glRef.current;
+    if (!glRenderer || !glImage || !canvas) return;
+    const DPR = Math.min(2, window.devicePixelRatio || 1);
+    // Ken Burns and tilt transform the canvas, so size it from its layout box.
+    const draw = ({ time }: { time: number }) => {
+      glRenderer.resize(Math.floor(canvas.clientWidth * DPR), Math.floor(canvas.clientHeight * DPR));
+      const f = glFrame.current;
+      // Beat mode: bloom radius pulses with the bass, as in the SVG path.
+      const pulse = reactivity && motionOn ? 1 + audio.frame().bass * reactivity * 1.5 : 1;
+      glRenderer.render({ ...f, bloom: f.bloom * pulse, time, sprites: systemRef.current?.sprites });
+    };
+    draw({ time: 0 });
+    if (!active) return;
+    return onFrame(draw);
+  }, [glRenderer, glImage, active, reactivity, motionOn, audio]);
 
+  // --- Tap-to-launch fireworks ---
+  const tapFireworks = fireworks && motionOn;
+  const sparksPerBurst = Math.max(16, Math.round(70 * quality.emberScale));
+  useEffect(() => {
+    const canvas = launchRef.current;
+    if (!canvas || !active) return;
+    const ctx = canvas.getContext("2d")!;
+    const DPR = Math.min(2, window.devicePixelRatio || 1);
     const resize = () => {
       const { width, height } = canvas.getBoundingClientRect();
       canvas.width = Math.floor(width * DPR);
       canvas.height = Math.floor(height * DPR);
     };
     resize();
-    const onResize = () => resize();
-    window.addEventListener("resize", onResize);
-
-    type P = { x: number; y: number; vx: number; vy: number; r: number; a: number; hue: number };
-    const N = emberCount;
-    const randHue = () => hueMin + Math.random() * (hueMax - hueMin);
-    const ps: P[] = Array.from({ length: N }, () => ({
-      x: Math.random() * canvas.width,
-      y: Math.random() * canvas.height,
-      vx: (Math.random() - 0.5) * 0.08 * DPR,
-      vy: (-0.12 - Math.random() * 0.2) * DPR,
-      r: (1 + Math.random() * 1.8) * DPR,
-      a: 0.3 + Math.random() * 0.6,
-      hue: randHue(),
-    }));
-
-    const draw = () => {
-      if (!run) return;
-      raf = requestAnimationFrame(draw);
+    window.addEventListener("resize", resize);
+
+    const show = createFireworkShow(() => canvas.height, { hueMin, hueMax, sparks: sparksPerBurst, scale: DPR });
+    showRef.current = show;
+    let dirty = false;
+    const stop = onFrame(({ dt }) => {
+      if (!show.busy() && !dirty) return;
+      show.step(dt);
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.globalCompositeOperation = "lighter";
-
-      for (const p of ps) {
-        p.x += p.vx; p.y += p.vy; p.a -= 0.0008;
-        if (p.y < -10 * DPR || p.a <= 0.02) {
-          p.x = Math.random() * canvas.width;
-          p.y = canvas.height + 10 * DPR;
-          p.a = 0.4 + Math.random() * 0.6;
-          p.vx = (Math.random() - 0.5) * 0.08 * DPR;
-          p.vy = (-0.12 - Math.random() * 0.2) * DPR;
-          p.r = (1 + Math.random() * 1.8) * DPR;
-          p.hue = randHue();
-        }
-        const grad = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, 8 * DPR);
-        grad.addColorStop(0, `hsla(${p.hue}, 100%, 70%, ${0.8 * p.a})`);
-        grad.addColorStop(1, `hsla(${p.hue}, 100%, 40%, 0)`);
-        ctx.fillStyle = grad;
-        ctx.beginPath();
-        ctx.arc(p.x, p.y, 6 * DPR, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = `hsla(${p.hue},100%,85%,${0.8 * p.a})`;
-        ctx.beginPath();
-        ctx.arc(p.x, p.y, p.r, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      ctx.globalCompositeOperation = "source-over";
+      show.draw(ctx);
+      dirty = show.busy();
+    });
+    return () => {
+      stop();
+      showRef.current = null;
+      window.removeEventListener("resize", resize);
     };
+    // Hue changes are pushed into the running show below instead of restarting it.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tapFireworks, active, sparksPerBurst]);
+
+  useEffect(() => { showRef.current?.setHues(hueMin, hueMax); }, [hueMin, hueMax]);
 
-    draw();
+  // Each pointer (so each finger of a multi-touch) launches its own rocket; the show caps them.
+  // Rockets go up on release, and only for a tap: a swipe across the frame changes slides.
+  const tapStart = (e: ReactPointerEvent) => { taps.current.set(e.pointerId, { x: e.clientX, y: e.clientY }); };
+  const tapEnd = (e: ReactPointerEvent) => {
+    const start = taps.current.get(e.pointerId);
+    taps.current.delete(e.pointerId);
+    const canvas = launchRef.current;
+    const show = showRef.current;
+    if (!start || !canvas || !show || Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_SLOP_PX) return;
+    const r = canvas.getBoundingClientRect();
+    show.launch(((e.clientX - r.left) / r.width) * canvas.width, ((e.clientY - r.top) / r.height) * canvas.height);
+  };
+  const tapCancel = (e: ReactPointerEvent) => { taps.current.delete(e.pointerId); };
+
+  // --- Beat mode: bloom radius pulses with the bass ---
+  useEffect(() => {
+    const el = blurRef.current;
+    if (!el || !reactivity || !active || !motionOn) return;
+    const stop = onFrame(() => {
+      el.setAttribute("stdDeviation", String(bloom * (1 + audio.frame().bass * reactivity * 1.5)));
+    });
     return () => {
-      run = false;
-      cancelAnimationFrame(raf);
-      window.removeEventListener("resize", onResize);
+      stop();
+      el.setAttribute("stdDeviation", String(bloom));
     };
-  }, [emberCount, hueMin, hueMax]);
+  }, [bloom, reactivity, audio, active, motionOn]);
+
+  // --- Shimmer's SMIL animation follows the same pause rule as the rAF loops ---
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    if (active) svg.unpauseAnimations();
+    else svg.pauseAnimations();
+  }, [active]);
 
   // --- Parallax tilt ---
   useEffect(() => {
     const el = wrapRef.current;
-    if (!el) return;
+    if (!el || !motionOn) return;
     const onMove = (e: MouseEvent) => {
       const r = el.getBoundingClientRect();
       const cx = r.left + r.width / 2;
@@ -146,111 +357,156 @@ export default function RamImageFX({
     return () => {
       el.removeEventListener("mousemove", onMove);
       el.removeEventListener("mouseleave", onLeave);
+      onLeave();
     };
-  }, []);
+  }, [motionOn]);
 
   return (
-    <div className="relative mx-auto w-full max-w-6xl">
+    <div className={`relative mx-auto w-full max-w-6xl ${fill ? "h-full" : ""}`}>
       {/* Frame */}
       <div
         ref={wrapRef}
-        className="relative overflow-hidden rounded-2xl border border-white/10 bg-black shadow-[0_0_80px_rgba(255,170,0,0.25)]"
-        style={{ height: "72vh", perspective: "900px", transformStyle: "preserve-3d" }}
+        className="relative overflow-hidden rounded-2xl border border-white/10 bg-black"
+        style={{ boxShadow: `0 0 80px ${rgba(glow.shine, 0.25)}`, height: fill ? "100%" : "72vh", perspective: "900px", transformStyle: "preserve-3d", touchAction: "manipulation" }}
+        onPointerDown={tapFireworks ? tapStart : undefined}
+        onPointerUp={tapFireworks ? tapEnd : undefined}
+        onPointerCancel={tapFireworks ? tapCancel : undefined}
       >
         {/* God-ray / vignette background */}
-        <div
+        {!gl && <div
           className="absolute inset-0"
           style={{
             background:
-              `radial-gradient(60% 60% at 45% 35%, rgba(255,174,0,${0.22*vignetteStrength}) 0%, rgba(255,136,0,${0.10*vignetteStrength}) 45%, rgba(0,0,0,0) 65%)`,
+              `radial-gradient(60% 60% at 45% 35%, ${rgba(glow.ray[0], 0.22*vignetteStrength)} 0%, ${rgba(glow.ray[1], 0.10*vignetteStrength)} 45%, rgba(0,0,0,0) 65%)`,
             mixBlendMode: "screen",
             transform: "translateZ(-40px)",
           }}
-        />
-
-        {/* Heat-shimmer filter host (SVG wraps the image) */}
-        <svg
-          className="absolute inset-0 w-full h-full"
-          viewBox={`0 0 ${W} ${H}`}
-          preserveAspectRatio="xMidYMid slice"
-          style={{ transform: "rotateX(var(--tiltX)) rotateY(var(--tiltY))" }}
-        >
-          <defs>
-            <filter id="heat" x="-20%" y="-20%" width="140%" height="140%">
-              <feTurbulence type="fractalNoise" baseFrequency="0.006 0.012" numOctaves="2" seed="3" result="noise">
-                <animate attributeName="baseFrequency" dur="8s" values="0.006 0.012; 0.008 0.016; 0.006 0.012" repeatCount="indefinite" />
-              </feTurbulence>
-              <feDisplacementMap in="SourceGraphic" in2="noise" scale={shimmerScale} xChannelSelector="R" yChannelSelector="G" />
-            </filter>
-
-            {/* soft bloom by duplicating and blurring */}
-            <filter id="bloom" x="-30%" y="-30%" width="160%" height="160%">
-              <feGaussianBlur stdDeviation={bloom} result="b1" />
-              <feMerge>
-                <feMergeNode in="b1" />
-                <feMergeNode in="SourceGraphic" />
-              </feMerge>
-            </filter>
-          </defs>
-
-          {/* Base image (with heat shimmer) */}
-          <image href={src} x="0" y="0" width={W} height={H} filter="url(#heat)" />
-          {/* Bloom/glow duplicate with screen blend */}
-          <image
-            href={src}
-            x="0" y="0" width={W} height={H}
-            style={{ mixBlendMode: "screen", opacity: 0.85 }}
-            filter="url(#bloom)"
-          />
+        />}
+
+        {/* Heat-shimmer filter host (SVG wraps the image); Ken Burns moves it as a whole */}
+        <motion.div className="absolute inset-0" style={{ transformStyle: "preserve-3d", ...kenOrigin }} {...ken}>
+          <svg
+            ref={svgRef}
+            className="absolute inset-0 w-full h-full"
+            viewBox={`0 0 ${W} ${vh}`}
+            preserveAspectRatio="xMidYMid slice"
+            style={{ transform: "rotateX(var(--tiltX)) rotateY(var(--tiltY))" }}
+            role="img"
+            aria-labelledby={titleId}
+            aria-describedby={description ? descId : undefined}
+          >
+            <title id={titleId}>{alt || caption}</title>
+            {description && <desc id={descId}>{description}</desc>}
+            {!gl && <defs>
+              <filter id={heatId} x="-20%" y="-20%" width="140%" height="140%">
+                <feTurbulence type="fractalNoise" baseFrequency="0.006 0.012" numOctaves="2" seed="3" result="noise">
+                  <animate attributeName="baseFrequency" dur="8s" values="0.006 0.012; 0.008 0.016; 0.006 0.012" repeatCount="indefinite" />
+                </feTurbulence>
+                <feDisplacementMap in="SourceGraphic" in2="noise" scale={shimmerScale} xChannelSelector="R" yChannelSelector="G" />
+              </filter>
+
+              {/* soft bloom by duplicating and blurring */}
+              <filter id={bloomId} x="-30%" y="-30%" width="160%" height="160%">
+                <feGaussianBlur ref={blurRef} stdDeviation={bloom} result="b1" />
+                <feMerge>
+                  <feMergeNode in="b1" />
+                  <feMergeNode in="SourceGraphic" />
+                </feMerge>
+              </filter>
+
+              {/* dimmed, heavily blurred copy behind a letterboxed image */}
+              <filter id={backdropId} x="-10%" y="-10%" width="120%" height="120%">
+                <feGaussianBlur stdDeviation="28" />
+                <feComponentTransfer>
+                  <feFuncR type="linear" slope="0.55" />
+                  <feFuncG type="linear" slope="0.55" />
+                  <feFuncB type="linear" slope="0.55" />
+                </feComponentTransfer>
+              </filter>
+            </defs>}
+
+            {/* Blurred letterbox backdrop (fit: blur) */}
+            {!gl && layout?.backdrop && (href || placeholder) && (
+              <image href={href ?? placeholder} {...layout.backdrop} preserveAspectRatio="none" filter={`url(#${backdropId})`} />
+            )}
+            {/* Blur-up placeholder, under the base image until it has loaded */}
+            {placeholder && <image href={placeholder} {...imageBox} />}
+            {/* Base image (with heat shimmer) */}
+            {!gl && href && (
+              <image
+                href={href}
+                {...imageBox}
+                filter={shimmerOn ? `url(#${heatId})` : undefined}
+                style={{ opacity: loaded ? 1 : 0, transition: "opacity .4s ease" }}
+                onLoad={() => setLoaded(true)}
+              />
+            )}
+            {/* Bloom/glow duplicate with screen blend */}
+            {!gl && bloomOn && href && loaded && (
+              <image
+                href={href}
+                {...imageBox}
+                style={{ mixBlendMode: "screen", opacity: 0.85 }}
+                filter={`url(#${bloomId})`}
+              />
+            )}
 
-          {/* Optional light sweep */}
-          {sweepOn && (
-            <g style={{ mixBlendMode: "screen" }}>
-              <rect x="0" y="0" width={W} height={H} fill="transparent" />
-              <Sweep />
-            </g>
+            {/* Optional light sweep */}
+            {!gl && sweepOn && (
+              <g style={{ mixBlendMode: "screen" }}>
+                <rect x="0" y="0" width={W} height={vh} fill="transparent" />
+                <Sweep paused={!active} height={vh} />
+              </g>
+            )}
+          </svg>
+          {/* The same layers on the GPU, fading in over the placeholder */}
+          {gl && (
+            <canvas
+              ref={glRef}
+              className="absolute inset-0 w-full h-full"
+              style={{ transform: "rotateX(var(--tiltX)) rotateY(var(--tiltY))", opacity: loaded ? 1 : 0, transition: "opacity .4s ease" }}
+              aria-hidden="true"
+            />
           )}
-        </svg>
+        </motion.div>
 
         {/* Extra bloom halo (blurred) */}
-        <div
+        {!gl && <div
           className="absolute inset-0 pointer-events-none"
           style={{
             background:
-              "radial-gradient(35% 35% at 48% 40%, rgba(255,220,160,.25) 0%, rgba(255,160,50,.18) 35%, rgba(0,0,0,0) 70%)",
+              `radial-gradient(35% 35% at 48% 40%, ${rgba(glow.halo[0], 0.25)} 0%, ${rgba(glow.halo[1], 0.18)} 35%, rgba(0,0,0,0) 70%)`,
             filter: "blur(16px)",
             mixBlendMode: "screen",
             transform: "translateZ(-30px)",
           }}
-        />
+        />}
 
-        {/* Embers / sparkles canvas */}
-        {sparkles && (
+        {/* Particle layers: embers, firework pops and other presets */}
+        {particlesOn && (
           <canvas
             ref={canvasRef}
             className="absolute inset-0 pointer-events-none"
             style={{ transform: "translateZ(10px)" }}
+            aria-hidden="true"
           />
         )}
 
-        {/* Small firework pops in the upper area */}
-        {fireworks && (
-          <div className="pointer-events-none absolute inset-0">
-            {(options.fireworks ?? [
-              { x: "15%", y: "22%", delay: 0.2 },
-              { x: "78%", y: "25%", delay: 0.6 },
-              { x: "62%", y: "14%", delay: 1.0 },
-            ]).map((p, i) => (
-              <Pop key={i} x={p.x} y={p.y} delay={p.delay} />
-            ))}
-          </div>
+        {/* Tap-to-launch fireworks */}
+        {tapFireworks && (
+          <canvas
+            ref={launchRef}
+            className="absolute inset-0 pointer-events-none"
+            style={{ transform: "translateZ(15px)" }}
+            aria-hidden="true"
+          />
         )}
 
         {/* Caption */}
         <div className="absolute bottom-4 left-0 right-0 text-center" style={{ transform: "translateZ(20px)" }}>
           <div
-            className="mx-auto inline-block rounded-full border border-amber-400/60 px-4 py-1.5 text-amber-200/95 backdrop-blur-sm"
-            style={{ textShadow: "0 0 12px rgba(255,190,80,.7)" }}
+            className="mx-auto inline-block rounded-full border border-brand-400/60 px-4 py-1.5 text-brand-200/95 backdrop-blur-sm"
+            style={{ textShadow: `0 0 12px ${rgba(glow.text, 0.7)}` }}
           >
             {caption}
           </div>
@@ -261,76 +517,31 @@ export default function RamImageFX({
 }
 
 /* ---------- Light sweep band ---------- */
-function Sweep() {
-  const [t, setT] = useState(0);
+// Moves the band by mutating the rect directly, so the sweep never re-renders React.
+function Sweep({ paused = false, height = H }: { paused?: boolean; height?: number }) {
+  const ref = useRef<SVGRectElement>(null);
+  const gradId = `sweepGrad${useId()}`;
+  const pos = useRef({ t: 0, dir: 1 });
   useEffect(() => {
-    let raf = 0;
-    let dir = 1;
-    const step = () => {
-      raf = requestAnimationFrame(step);
-      setT((p) => {
-        let n = p + 0.005 * dir;
-        if (n > 1 || n < 0) { dir *= -1; n = Math.max(0, Math.min(1, n)); }
-        return n;
-      });
-    };
-    step();
-    return () => cancelAnimationFrame(raf);
-  }, []);
-  const x = 200 + t * (W - 400);
+    const el = ref.current;
+    if (!el || paused) return;
+    return onFrame(({ dt }) => {
+      const p = pos.current;
+      p.t += 0.3 * dt * p.dir; // one pass every ~3.3s
+      if (p.t > 1 || p.t < 0) { p.dir *= -1; p.t = Math.max(0, Math.min(1, p.t)); }
+      el.setAttribute("x", String(200 + p.t * (W - 400) - 180));
+    });
+  }, [paused]);
   return (
     <g opacity={0.6}>
-      <linearGradient id="sweepGrad" x1="0" x2="1" y1="0" y2="0">
+      <linearGradient id={gradId} x1="0" x2="1" y1="0" y2="0">
         <stop offset="0%" stopColor="rgba(255,255,255,0)" />
         <stop offset="45%" stopColor="rgba(255,220,160,0.10)" />
         <stop offset="50%" stopColor="rgba(255,240,210,0.28)" />
         <stop offset="55%" stopColor="rgba(255,200,120,0.10)" />
         <stop offset="100%" stopColor="rgba(255,255,255,0)" />
       </linearGradient>
-      <rect x={x - 180} y="0" width="360" height={H} fill="url(#sweepGrad)" />
+      <rect ref={ref} x={20} y="0" width="360" height={height} fill={`url(#${gradId})`} />
     </g>
   );
 }
-
-/* ---------- Tiny firework pop ---------- */
-function Pop({ x, y, delay = 0 }: { x: string; y: string; delay?: number }) {
-  const ref = useRef<HTMLDivElement>(null);
-  useEffect(() => {
-    const el = ref.current;
-    if (!el) return;
-    let t = 0, raf = 0;
-    const go = () => {
-      raf = requestAnimationFrame(go);
-      t += 1 / 60;
-      const phase = (t + (delay || 0) * 2) % 2.8; // repeat every ~2.8s
-      const s = phase < 0.3 ? phase / 0.3 : phase < 1.2 ? 1 : Math.max(0, 1.8 - phase);
-      el.style.transform = `translate(-50%,-50%) scale(${s})`;
-      el.style.opacity = `${s}`;
-    };
-    go();
-    return () => cancelAnimationFrame(raf);
-  }, [delay]);
-  return (
-    <div ref={ref} className="absolute" style={{ left: x, top: y }}>
-      <svg width="120" height="120" viewBox="0 0 120 120">
-        {Array.from({ length: 14 }).map((_, i) => {
-          const a = (i / 14) * Math.PI * 2;
-          const x2 = 60 + Math.cos(a) * 40;
-          const y2 = 60 + Math.sin(a) * 40;
-          return (
-            <line
-              key={i}
-              x1="60"
-              y1="60"
-              x2={x2}
-              y2={y2}
-              stroke="rgba(255,220,150,.95)"
-              strokeWidth="2"
-              strokeLinecap="round"
-            />
-          );
-        })}
-      </svg>
-    </div>
-  );
-}
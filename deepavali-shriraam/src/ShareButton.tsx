@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { deepLinkUrl, type DeepLink } from "./deepLink";
+import { useI18n } from "./i18n";
+import { copyText } from "./personalization";
+
+const FEEDBACK_MS = 2500;
+
+/**
+ * ShareButton
+ * Shares a deep link to what's on screen: the slide, autoplay and, while music plays,
+ * its position. Uses the system share sheet where there is one, else copies the link.
+ */
+export default function ShareButton({ link, text }: { link: DeepLink; text?: string }) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (copied === null) return;
+    const id = window.setTimeout(() => setCopied(null), FEEDBACK_MS);
+    return () => window.clearTimeout(id);
+  }, [copied]);
+
+  const share = async () => {
+    const url = deepLinkUrl(link);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: document.title, text, url });
+        return;
+      } catch (err) {
+        // Closing the sheet is a choice, not a failure; anything else falls back to copying.
+        if ((err as Error).name === "AbortError") return;
+      }
+    }
+    setCopied(await copyText(url));
+  };
+
+  return (
+    <button
+      onClick={share}
+      className="rounded-full border border-brand-400/60 bg-black/50 px-3 py-1.5 text-xs sm:text-sm font-semibold text-white/90 backdrop-blur-sm hover:scale-105"
+      title={t("shareTitle")}
+    >
+      🔗 <span aria-live="polite">{copied === null ? t("share") : copied ? t("linkCopied") : t("shareCopyFailed")}</span>
+    </button>
+  );
+}
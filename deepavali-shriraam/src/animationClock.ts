@@ -0,0 +1,81 @@
+/**
+ * Animation clock
+ * One shared requestAnimationFrame loop for every effect. Subscribers get time-based
+ * deltas (so motion speed doesn't depend on the display's refresh rate) from a clock
+ * that can be paused, stepped and time-scaled. `realtime` subscribers (audio analysis,
+ * frame-time measurement) always run on wall time instead.
+ */
+
+export type FrameInfo = {
+  /** rAF timestamp, ms. */
+  now: number;
+  /** Clock time elapsed since the previous frame, seconds (scaled; 0 while paused). */
+  dt: number;
+  /** Total clock time, seconds. */
+  time: number;
+  /** Unscaled wall time since the previous frame, seconds. */
+  realDt: number;
+};
+
+export type FrameCallback = (frame: FrameInfo) => void;
+
+type Subscriber = { cb: FrameCallback; realtime: boolean };
+
+/** Longest delta handed out in one frame, so a backgrounded tab doesn't jump ahead. */
+const MAX_DT = 0.1;
+
+const subscribers = new Set<Subscriber>();
+let raf = 0;
+let last = 0;
+let time = 0;
+let paused = false;
+let timeScale = 1;
+
+function tick(now: number) {
+  const realDt = last ? Math.min(MAX_DT, (now - last) / 1000) : 0;
+  last = now;
+  const dt = paused ? 0 : realDt * timeScale;
+  time += dt;
+  for (const s of [...subscribers]) {
+    if (s.realtime) s.cb({ now, dt: realDt, time, realDt });
+    else if (!paused) s.cb({ now, dt, time, realDt });
+  }
+  raf = 0;
+  schedule();
+}
+
+/** Keeps the loop running only while someone would receive the frame. */
+function schedule() {
+  if (raf) return;
+  const wanted = [...subscribers].some((s) => s.realtime || !paused);
+  if (!wanted) { last = 0; return; }
+  raf = requestAnimationFrame(tick);
+}
+
+/** Calls `cb` every frame until the returned function is called. */
+export function onFrame(cb: FrameCallback, { realtime = false }: { realtime?: boolean } = {}): () => void {
+  const sub: Subscriber = { cb, realtime };
+  subscribers.add(sub);
+  schedule();
+  return () => {
+    subscribers.delete(sub);
+    if (!subscribers.size && raf) { cancelAnimationFrame(raf); raf = 0; last = 0; }
+  };
+}
+
+export const animationClock = {
+  get paused() { return paused; },
+  get timeScale() { return timeScale; },
+  get time() { return time; },
+  pause() { paused = true; },
+  resume() { paused = false; schedule(); },
+  /** 1 = normal speed, 0.5 = slow motion; negative values are treated as 0. */
+  setTimeScale(scale: number) { timeScale = Math.max(0, scale); },
+  /** Advances a paused clock by one frame of `seconds`. */
+  step(seconds = 1 / 60) {
+    if (!paused) return;
+    time += seconds;
+    const now = performance.now();
+    for (const s of [...subscribers]) if (!s.realtime) s.cb({ now, dt: seconds, time, realDt: 0 });
+  },
+};
@@ -0,0 +1,118 @@
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { onFrame } from "./animationClock";
+
+/**
+ * Audio-reactive FX
+ * Routes the AudioControls <audio> element through an AnalyserNode and shares a cheap
+ * per-frame reading (`frame()`) plus beat/onset notifications (`onBeat`) via context.
+ * Readers poll `frame()` from their animationClock callbacks, so nothing re-renders per frame.
+ */
+
+export type AudioFrame = {
+  /** Overall loudness, 0..1. */
+  energy: number;
+  /** Low-frequency (≈ <150 Hz) loudness, 0..1. */
+  bass: number;
+};
+
+export type AudioReactive = {
+  enabled: boolean;
+  frame: () => AudioFrame;
+  /** Subscribes to detected beats; returns the unsubscribe function. */
+  onBeat: (cb: () => void) => () => void;
+};
+
+const SILENT_FRAME: AudioFrame = { energy: 0, bass: 0 };
+
+export const SILENT: AudioReactive = { enabled: false, frame: () => SILENT_FRAME, onBeat: () => () => {} };
+
+export const AudioReactiveContext = createContext<AudioReactive>(SILENT);
+
+export const useAudioReactive = () => useContext(AudioReactiveContext);
+
+// ---------- analyser graph ----------
+type Graph = { ctx: AudioContext; analyser: AnalyserNode };
+
+// createMediaElementSource may only be called once per element, so graphs are kept per element.
+const graphs = new WeakMap<HTMLAudioElement, Graph>();
+
+function graphFor(audio: HTMLAudioElement): Graph | null {
+  const existing = graphs.get(audio);
+  if (existing) return existing;
+  const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctor) return null;
+  const ctx = new Ctor();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0.6;
+  // Once routed, the element is only audible through the graph, so always reconnect to the speakers.
+  const source = ctx.createMediaElementSource(audio);
+  source.connect(analyser);
+  analyser.connect(ctx.destination);
+  const graph = { ctx, analyser };
+  graphs.set(audio, graph);
+  return graph;
+}
+
+const BEAT_GAP_MS = 260;     // ignore onsets closer than this (≈ 230 bpm)
+const BEAT_RATIO = 1.35;     // bass must exceed its running average by this factor
+const BEAT_FLOOR = 0.25;     // …and be at least this loud
+
+/**
+ * Samples `audio` every animation frame while `enabled`. The Web Audio graph is created
+ * on first enable (which should follow a user gesture so the context may start).
+ */
+export function useAudioAnalyser(audio: HTMLAudioElement | null, enabled: boolean): AudioReactive {
+  const [state] = useState(() => ({ frame: { ...SILENT_FRAME }, listeners: new Set<() => void>() }));
+
+  useEffect(() => {
+    if (!audio || !enabled) return;
+    const graph = graphFor(audio);
+    if (!graph) return;
+    const { ctx, analyser } = graph;
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const bassBins = Math.max(1, Math.round((150 / (ctx.sampleRate / 2)) * bins.length));
+    let avgBass = 0;
+    let lastBeat = 0;
+
+    // Realtime: analysis follows the music, not the (pausable) FX clock.
+    const stop = onFrame(({ now }) => {
+      analyser.getByteFrequencyData(bins);
+      let sum = 0, bassSum = 0;
+      for (let i = 0; i < bins.length; i++) {
+        sum += bins[i];
+        if (i < bassBins) bassSum += bins[i];
+      }
+      const energy = sum / (bins.length * 255);
+      const bass = bassSum / (bassBins * 255);
+      state.frame.energy = energy;
+      state.frame.bass = bass;
+
+      if (bass > BEAT_FLOOR && bass > avgBass * BEAT_RATIO && now - lastBeat > BEAT_GAP_MS) {
+        lastBeat = now;
+        state.listeners.forEach((cb) => cb());
+      }
+      avgBass = avgBass * 0.94 + bass * 0.06;
+    }, { realtime: true });
+
+    return () => {
+      stop();
+      state.frame.energy = 0;
+      state.frame.bass = 0;
+    };
+  }, [audio, enabled, state]);
+
+  return useMemo<AudioReactive>(
+    () =>
+      enabled && audio
+        ? {
+            enabled: true,
+            frame: () => state.frame,
+            onBeat: (cb) => { state.listeners.add(cb); return () => { state.listeners.delete(cb); }; },
+          }
+        : SILENT,
+    [enabled, audio, state]
+  );
+}
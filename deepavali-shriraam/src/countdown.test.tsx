@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { act } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CELEBRATION_MS,
+  clockFromLocation,
+  countdownFromLocation,
+  countdownState,
+  parseCountdown,
+  splitRemaining,
+  useCountdown,
+  type Clock,
+  type CountdownTarget,
+  type FestivalDay,
+} from "./countdown";
+
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true });
+
+/** A clock that only moves when told to. */
+const fakeClock = (start: string) => {
+  let now = new Date(start).getTime();
+  const clock: Clock = () => now;
+  return { clock, advance: (ms: number) => void (now += ms) };
+};
+
+const local = (moment: string) => new Date(moment).getTime();
+
+const LAKSHMI_PUJA = local("2026-11-08T17:52");
+
+describe("countdownState", () => {
+  const target: CountdownTarget = { at: LAKSHMI_PUJA, day: "lakshmi-puja" };
+
+  it("switches from counting to celebrating at zero", () => {
+    const { clock, advance } = fakeClock("2026-11-08T17:51:59");
+    expect(countdownState(target, clock())).toMatchObject({ phase: "counting", remainingMs: 1000 });
+    expect(splitRemaining(countdownState(target, clock()).remainingMs)).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 1 });
+
+    advance(999);
+    expect(countdownState(target, clock()).phase).toBe("counting");
+    expect(splitRemaining(countdownState(target, clock()).remainingMs).seconds).toBe(1);
+
+    advance(1);
+    expect(countdownState(target, clock())).toMatchObject({ phase: "celebrating", remainingMs: 0 });
+  });
+
+  it("ends the celebration after CELEBRATION_MS", () => {
+    const { clock, advance } = fakeClock("2026-11-08T17:52");
+    advance(CELEBRATION_MS - 1);
+    expect(countdownState(target, clock()).phase).toBe("celebrating");
+    advance(1);
+    expect(countdownState(target, clock()).phase).toBe("over");
+  });
+});
+
+describe("splitRemaining", () => {
+  it("splits into whole days, hours, minutes and seconds", () => {
+    expect(splitRemaining(((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000)).toEqual({ days: 2, hours: 3, minutes: 4, seconds: 5 });
+    expect(splitRemaining(0)).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 0 });
+  });
+});
+
+describe("parseCountdown", () => {
+  const calendar: FestivalDay[] = [
+    { id: "lakshmi-puja", date: "2026-11-08", time: "17:52" },
+    { id: "bhai-dooj", date: "2026-11-11" },
+    { id: "lakshmi-puja", date: "2027-10-29", time: "18:10" },
+  ];
+
+  it("reads a calendar day, defaulting to Lakshmi Puja", () => {
+    const now = local("2026-10-01T12:00");
+    expect(parseCountdown("lakshmi-puja", now)).toEqual({ at: LAKSHMI_PUJA, day: "lakshmi-puja" });
+    expect(parseCountdown("", now)).toEqual({ at: LAKSHMI_PUJA, day: "lakshmi-puja" });
+    expect(parseCountdown("bhai-dooj", now, calendar)).toEqual({ at: local("2026-11-11T00:00"), day: "bhai-dooj" });
+  });
+
+  it("keeps a day through its celebration, then hands off to the next one in the calendar", () => {
+    const { clock, advance } = fakeClock("2026-11-08T17:52");
+    advance(CELEBRATION_MS - 1);
+    expect(parseCountdown("lakshmi-puja", clock(), calendar)?.at).toBe(LAKSHMI_PUJA);
+    advance(1);
+    expect(parseCountdown("lakshmi-puja", clock(), calendar)?.at).toBe(local("2027-10-29T18:10"));
+  });
+
+  it("stays on the last listed day once the calendar has run out", () => {
+    expect(parseCountdown("bhai-dooj", local("2030-01-01T00:00"), calendar)).toEqual({ at: local("2026-11-11T00:00"), day: "bhai-dooj" });
+  });
+
+  it("reads dates and times in the viewer's timezone unless they carry an offset", () => {
+    expect(parseCountdown("2026-11-08")).toEqual({ at: local("2026-11-08T00:00") });
+    expect(parseCountdown("2026-11-08T17:52")).toEqual({ at: LAKSHMI_PUJA });
+    expect(parseCountdown("2026-11-08T12:22Z")).toEqual({ at: Date.UTC(2026, 10, 8, 12, 22) });
+    expect(parseCountdown("2026-11-08T17:52+05:30")).toEqual({ at: Date.UTC(2026, 10, 8, 12, 22) });
+  });
+
+  it.each(["diwali", "tomorrow", "2026-11-08 17:52", "08/11/2026", "2026-13-40", "2026-11-08T25:00", "2026-11-08T17:52+5"])(
+    "rejects ?countdown=%s",
+    (value) => {
+      const setting = countdownFromLocation(`?countdown=${encodeURIComponent(value)}`);
+      expect(setting).toBe(value);
+      expect(parseCountdown(setting!)).toBeNull();
+    },
+  );
+
+  it("treats a missing ?countdown apart from an empty one", () => {
+    expect(countdownFromLocation("?deck=local")).toBeNull();
+    expect(countdownFromLocation("?countdown")).toBe("");
+  });
+});
+
+describe("useCountdown", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("reaches the celebration exactly at zero on an injected clock", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(local("2026-10-18T09:00"));
+    // `?now=` rehearses the switch: the clock starts three seconds before the muhurat.
+    const clock = clockFromLocation("?now=2026-11-08T17:51:57");
+    const target: CountdownTarget = { at: LAKSHMI_PUJA };
+    const seen: string[] = [];
+    const Probe = () => {
+      const state = useCountdown(target, clock)!;
+      seen.push(`${state.phase} ${splitRemaining(state.remainingMs).seconds}`);
+      return null;
+    };
+
+    const root = createRoot(document.createElement("div"));
+    act(() => root.render(<Probe />));
+    for (let i = 0; i < 3; i++) act(() => vi.advanceTimersByTime(1000));
+    act(() => root.unmount());
+
+    expect([...new Set(seen)]).toEqual(["counting 3", "counting 2", "counting 1", "celebrating 0"]);
+  });
+});
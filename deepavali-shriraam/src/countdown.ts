@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { FX_DEFAULTS } from "./fxOptions";
+import type { ParticleLayer } from "./particles";
+import type { FXOptions } from "./RamImageFX";
+
+/**
+ * Countdown
+ * Muhurat mode: the showcase counts down to a moment (by default the Lakshmi Puja
+ * muhurat), then celebrates for a few hours with a sky full of fireworks. The target
+ * comes from `?countdown=` or a deck's top-level `countdown`: a day from the bundled
+ * calendar (`?countdown=lakshmi-puja`, or just `?countdown`) or a date and time such as
+ * `2026-11-08T17:52`, read in the viewer's timezone unless it carries an offset.
+ * Time is read through a `Clock`; `?now=` starts it at another moment to rehearse the switch.
+ */
+
+export type FestivalDayId = "dhanteras" | "naraka-chaturdashi" | "lakshmi-puja" | "govardhan-puja" | "bhai-dooj";
+
+/** `date` is `YYYY-MM-DD`; `time` (`HH:MM`, default midnight) is local to the viewer. */
+export type FestivalDay = { id: FestivalDayId; date: string; time?: string };
+
+/** Milliseconds since the epoch, like `Date.now`. */
+export type Clock = () => number;
+
+export type CountdownTarget = { at: number; day?: FestivalDayId };
+
+export type CountdownPhase = "counting" | "celebrating" | "over";
+
+export type CountdownState = { phase: CountdownPhase; remainingMs: number; target: CountdownTarget };
+
+// ---------- calendar ----------
+// The five days as most north Indian panchangs list them, oldest first; add a block per
+// year. Puja times shift with place, so decks that need the exact local muhurat pass a time.
+export const DEEPAVALI_CALENDAR: FestivalDay[] = [
+  { id: "dhanteras", date: "2026-11-06", time: "18:00" },
+  { id: "naraka-chaturdashi", date: "2026-11-07" },
+  { id: "lakshmi-puja", date: "2026-11-08", time: "17:52" },
+  { id: "govardhan-puja", date: "2026-11-10" },
+  { id: "bhai-dooj", date: "2026-11-11" },
+];
+
+export const FESTIVAL_DAY_IDS = [...new Set(DEEPAVALI_CALENDAR.map((d) => d.id))];
+
+const DEFAULT_DAY: FestivalDayId = "lakshmi-puja";
+
+/** How long the celebration runs after zero before the show goes back to normal. */
+export const CELEBRATION_MS = 3 * 60 * 60 * 1000;
+
+const MOMENT = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/** A date (`YYYY-MM-DD`, midnight local) or date and time as epoch ms; null when malformed. */
+function parseMoment(value: string): number | null {
+  const m = MOMENT.exec(value);
+  if (!m) return null;
+  // Date-only strings parse as UTC; with a time and no offset they are local, as wanted.
+  const at = new Date(m[1] ? value : `${value}T00:00`).getTime();
+  return isFinite(at) ? at : null;
+}
+
+const dayAt = (day: FestivalDay) => new Date(`${day.date}T${day.time ?? "00:00"}`).getTime();
+
+/**
+ * Reads a countdown setting: a calendar day id (empty means Lakshmi Puja) or a moment.
+ * A day picks the first year in `calendar` still counting or celebrating at `now`.
+ */
+export function parseCountdown(value: string, now = Date.now(), calendar = DEEPAVALI_CALENDAR): CountdownTarget | null {
+  const id = value || DEFAULT_DAY;
+  const days = calendar.filter((d) => d.id === id);
+  if (days.length) {
+    const day = days.find((d) => dayAt(d) + CELEBRATION_MS > now) ?? days[days.length - 1];
+    return { at: dayAt(day), day: day.id };
+  }
+  const at = parseMoment(value);
+  return at === null ? null : { at };
+}
+
+/** Reads `?countdown=` from the current URL: the raw setting, null when absent. */
+export function countdownFromLocation(search = window.location.search): string | null {
+  return new URLSearchParams(search).get("countdown");
+}
+
+// ---------- clock ----------
+export const systemClock: Clock = () => Date.now();
+
+/** The system clock, or with `?now=<moment>` one that starts there and runs at normal speed. */
+export function clockFromLocation(search = window.location.search): Clock {
+  const start = parseMoment(new URLSearchParams(search).get("now") ?? "");
+  if (start === null) return systemClock;
+  const offset = start - Date.now();
+  return () => Date.now() + offset;
+}
+
+export function countdownState(target: CountdownTarget, now: number): CountdownState {
+  const phase = now < target.at ? "counting" : now < target.at + CELEBRATION_MS ? "celebrating" : "over";
+  return { phase, remainingMs: Math.max(0, target.at - now), target };
+}
+
+/** Whole days, hours, minutes and seconds left, rounded up so zero shows only at zero. */
+export function splitRemaining(ms: number) {
+  const total = Math.ceil(ms / 1000);
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor(total / 3600) % 24,
+    minutes: Math.floor(total / 60) % 60,
+    seconds: total % 60,
+  };
+}
+
+/** The countdown re-read from `clock` on every second boundary; null without a target. */
+export function useCountdown(target: CountdownTarget | null, clock: Clock = systemClock): CountdownState | null {
+  const [now, setNow] = useState(clock);
+  useEffect(() => {
+    if (!target) return;
+    let id = 0;
+    const tick = () => {
+      const t = clock();
+      setNow(t);
+      if (t >= target.at + CELEBRATION_MS) return;
+      // Wake on the target's second boundaries, so the display reaches zero exactly on time.
+      id = window.setTimeout(tick, (((target.at - t) % 1000) + 1000) % 1000 || 1000);
+    };
+    tick();
+    return () => window.clearTimeout(id);
+  }, [target, clock]);
+  return target ? countdownState(target, now) : null;
+}
+
+// ---------- celebration ----------
+const CELEBRATION_LAYERS: ParticleLayer[] = [
+  { preset: "embers", count: 220, speed: 1.5 },
+  { preset: "peony", x: "18%", y: "22%", delay: 0.2 },
+  { preset: "chrysanthemum", x: "50%", y: "14%", delay: 0.7 },
+  { preset: "peony", x: "82%", y: "24%", delay: 1.2 },
+  { preset: "pops", x: "34%", y: "30%", delay: 1.6 },
+  { preset: "pops", x: "67%", y: "32%", delay: 2.1 },
+];
+
+/** A slide's options for the celebration: more bloom, heavy embers and bursts across the sky. */
+export const celebrationOptions = (options: FXOptions = {}): FXOptions => ({
+  ...options,
+  bloom: Math.max(options.bloom ?? FX_DEFAULTS.bloom, 12),
+  particles: CELEBRATION_LAYERS,
+});
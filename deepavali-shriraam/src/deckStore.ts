@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import type { DeckIssue, ParsedDeck, Slide } from "./slideDeck";
+
+/**
+ * Deck store
+ * The deck editor's browser storage (IndexedDB): pictures uploaded into the editor and
+ * the deck being edited, saved as it changes. Slides point at uploaded pictures as
+ * `local:<id>`. In this browser those resolve to object URLs; an exported deck carries
+ * them as data URLs, so the file plays from anywhere. `?deck=local` plays the draft.
+ */
+
+/** The parts of a deck the editor edits and exports. */
+export type EditableDeck = Pick<ParsedDeck, "slides" | "playlist" | "intervalMs" | "theme">;
+
+/** `?deck=` value that loads the editor's draft instead of fetching a manifest. */
+export const LOCAL_DECK = "local";
+
+const LOCAL_PREFIX = "local:";
+const DB_NAME = "deepavali-editor";
+const IMAGES = "images";
+const DRAFTS = "drafts";
+const DRAFT_KEY = "current";
+
+export const isLocalImage = (src: string) => src.startsWith(LOCAL_PREFIX);
+
+// ---------- IndexedDB ----------
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = () => (db ??= new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(IMAGES);
+    req.result.createObjectStore(DRAFTS);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+}));
+
+function request<T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then((d) => new Promise<T>((resolve, reject) => {
+    const req = run(d.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+}
+
+// ---------- pictures ----------
+/** Stores an uploaded picture; returns the `local:` reference for a slide's `src`. */
+export async function saveImage(file: Blob): Promise<string> {
+  const id = crypto.randomUUID();
+  await request(IMAGES, "readwrite", (s) => s.put(file, id));
+  return LOCAL_PREFIX + id;
+}
+
+const imageBlob = (src: string) =>
+  request<Blob | undefined>(IMAGES, "readonly", (s) => s.get(src.slice(LOCAL_PREFIX.length))).catch(() => undefined);
+
+// One object URL per picture for the page's lifetime, so a deck's URLs stay stable.
+const objectUrls = new Map<string, string>();
+
+/** Object URL for a `local:` picture; null when it is no longer stored. */
+export async function localImageUrl(src: string): Promise<string | null> {
+  const known = objectUrls.get(src);
+  if (known) return known;
+  const blob = await imageBlob(src);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(src, url);
+  return url;
+}
+
+/** Resolves `src` for display: `local:` pictures once loaded (empty until then), anything else as is. */
+export function useLocalImages(slides: Slide[]): (src: string) => string {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const wanted = slides.map((s) => s.src).filter((src) => isLocalImage(src) && !urls[src]).join("\n");
+  useEffect(() => {
+    if (!wanted) return;
+    let alive = true;
+    Promise.all(wanted.split("\n").map(async (src) => [src, await localImageUrl(src)] as const)).then((found) => {
+      if (!alive) return;
+      const ready = found.filter((f): f is readonly [string, string] => f[1] !== null);
+      setUrls((u) => ({ ...u, ...Object.fromEntries(ready) }));
+    });
+    return () => { alive = false; };
+  }, [wanted]);
+  return (src) => (isLocalImage(src) ? urls[src] ?? "" : src);
+}
+
+const dataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// ---------- drafts ----------
+export async function saveDraft(deck: EditableDeck): Promise<void> {
+  await request(DRAFTS, "readwrite", (s) => s.put(deck, DRAFT_KEY));
+}
+
+export const loadDraft = () =>
+  request<EditableDeck | undefined>(DRAFTS, "readonly", (s) => s.get(DRAFT_KEY)).catch(() => undefined);
+
+/** Deletes the stored pictures `deck` doesn't use, in one transaction. */
+const pruneImages = (deck: EditableDeck) => openDb().then((d) => new Promise<void>((resolve, reject) => {
+  const used = new Set(deck.slides.map((s) => s.src).filter(isLocalImage).map((src) => src.slice(LOCAL_PREFIX.length)));
+  const tx = d.transaction(IMAGES, "readwrite");
+  const store = tx.objectStore(IMAGES);
+  const keys = store.getAllKeys();
+  keys.onsuccess = () => { for (const id of keys.result) if (!used.has(String(id))) store.delete(id); };
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+}));
+
+/**
+ * The draft to edit, else `fallback`. Pictures it doesn't use are dropped here, before the
+ * editor can add any: pruning on save could delete a picture whose slide hasn't been saved yet.
+ */
+export async function openDraft(fallback: EditableDeck): Promise<EditableDeck> {
+  const deck = (await loadDraft()) ?? fallback;
+  await pruneImages(deck).catch(() => {});
+  return deck;
+}
+
+/**
+ * The draft as manifest data for the showcase, pictures resolved to object URLs.
+ * Null when nothing has been saved; pictures that went missing are reported.
+ */
+export async function localDeckData(issues: DeckIssue[]): Promise<EditableDeck | null> {
+  const draft = await loadDraft();
+  if (!draft) return null;
+  const slides = await Promise.all(draft.slides.map(async (slide, i) => {
+    if (!isLocalImage(slide.src)) return slide;
+    const url = await localImageUrl(slide.src);
+    if (!url) issues.push({ path: `slides[${i}].src`, message: "picture is no longer stored in this browser" });
+    return { ...slide, src: url ?? slide.src };
+  }));
+  return { ...draft, slides };
+}
+
+/** A self-contained manifest file: stored pictures are inlined as data URLs. */
+export async function exportDeck(deck: EditableDeck): Promise<Blob> {
+  const slides = await Promise.all(deck.slides.map(async (slide) => {
+    const blob = isLocalImage(slide.src) ? await imageBlob(slide.src) : undefined;
+    return blob ? { ...slide, src: await dataUrl(blob) } : slide;
+  }));
+  return new Blob([JSON.stringify({ ...deck, slides }, null, 2)], { type: "application/json" });
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import type { SlideSoundtrack } from "./playlist";
+
+/**
+ * Deep links
+ * The show's place in the URL hash, `#slide=ram-setu&autoplay=0&track=aarti&t=83`: the
+ * slide by its stable id (slideIds in slideDeck.ts), autoplay when it is off, and
+ * optionally the music track and position. A link like that opens on that slide, and
+ * back/forward step through the slides visited.
+ */
+
+export type DeepLink = { slide?: string; autoPlay?: boolean; audio?: SlideSoundtrack };
+
+/** Reads the deep link from the current URL's hash; fields that are missing or malformed are left out. */
+export function readDeepLink(hash = window.location.hash): DeepLink {
+  const q = new URLSearchParams(hash.replace(/^#/, ""));
+  const link: DeepLink = {};
+  const slide = q.get("slide");
+  if (slide) link.slide = slide;
+  const autoplay = q.get("autoplay");
+  if (autoplay === "0" || autoplay === "1") link.autoPlay = autoplay === "1";
+  const track = q.get("track");
+  const at = Number(q.get("t"));
+  if (track) link.audio = at > 0 && isFinite(at) ? { track, at } : { track };
+  return link;
+}
+
+/** `#…` for `link`, or "" when there's nothing to say. Autoplay is on unless the hash says otherwise. */
+export function deepLinkHash({ slide, autoPlay, audio }: DeepLink): string {
+  const q = new URLSearchParams();
+  if (slide) q.set("slide", slide);
+  if (autoPlay === false) q.set("autoplay", "0");
+  if (audio) {
+    q.set("track", audio.track);
+    if (audio.at) q.set("t", String(Math.floor(audio.at)));
+  }
+  const s = q.toString();
+  return s && `#${s}`;
+}
+
+/** This page with `link` as its hash (query params such as `deck` or a card's names are kept). */
+export function deepLinkUrl(link: DeepLink, href = window.location.href): string {
+  const url = new URL(href);
+  url.hash = deepLinkHash(link);
+  return url.toString();
+}
+
+/**
+ * Keeps the hash on the current slide and autoplay state, and reports back/forward (and
+ * hand-edited hashes) to `onNavigate`. Each slide change made by a viewer or the remote
+ * adds a history entry; autoplay steps and autoplay toggles replace the current one, so a
+ * running show doesn't flood the history. The music position goes only into shared links:
+ * it changes every second.
+ */
+export function useHistorySync(
+  { slide, autoPlay, replace }: { slide?: string; autoPlay: boolean; replace: boolean },
+  onNavigate: (link: DeepLink) => void,
+  enabled = true,
+) {
+  const navigated = useRef(onNavigate);
+  useEffect(() => void (navigated.current = onNavigate), [onNavigate]);
+
+  const written = useRef(readDeepLink().slide);
+  useEffect(() => {
+    if (!enabled || !slide) return;
+    const hash = deepLinkHash({ slide, autoPlay });
+    const step = !replace && written.current !== undefined && written.current !== slide;
+    written.current = slide;
+    // Already there: the first slide of a deep link, or back/forward arriving.
+    if (hash === window.location.hash) return;
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (step) history.pushState(history.state, "", url);
+    else history.replaceState(history.state, "", url);
+  }, [enabled, slide, autoPlay, replace]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onPop = () => navigated.current(readDeepLink());
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, [enabled]);
+}
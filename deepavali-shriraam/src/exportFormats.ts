@@ -0,0 +1,38 @@
+/**
+ * Export formats
+ * What the exporter offers (sizes, frame rates, still formats, whether this browser can
+ * record video) and saving its results, kept apart from exportShowcase so the menu can
+ * show its options without loading the renderer and encoders; those load on first export.
+ */
+
+export type ExportSize = { width: number; height: number; label: string };
+
+export const EXPORT_SIZES: ExportSize[] = [
+  { width: 1280, height: 720, label: "720p (16:9)" },
+  { width: 1920, height: 1080, label: "1080p (16:9)" },
+  { width: 1080, height: 1080, label: "Square (Instagram post)" },
+  { width: 1080, height: 1920, label: "Vertical (WhatsApp / Stories)" },
+];
+
+export const EXPORT_FPS = [24, 30, 60];
+
+export const VIDEO_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+export const canExportVideo = () =>
+  typeof MediaRecorder !== "undefined" &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function" &&
+  VIDEO_TYPES.some((t) => MediaRecorder.isTypeSupported(t));
+
+export type StillFormat = "png" | "gif";
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
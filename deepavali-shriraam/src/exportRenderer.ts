@@ -0,0 +1,205 @@
+import { resolveFXOptions, type ResolvedFXOptions } from "./fxOptions";
+import type { Locale } from "./i18n";
+import { layoutImage, type Rect } from "./imageFit";
+import { createParticleSystem, type ParticleEnv, type ParticleSystem } from "./particles";
+import { slideCaption, type Slide } from "./slideDeck";
+import { brandAlpha, rgba, THEMES, themedOptions, type Theme } from "./themes";
+
+/**
+ * Export renderer
+ * Canvas 2D re-creation of the RamImageFX look, computed purely from (slide, time) so
+ * exported frames are deterministic: same deck, same time, same pixels. It mirrors the
+ * on-screen layers (fitted image, screen-blended bloom, glow/vignette, sweep, particle
+ * layers, caption) but not the heat shimmer, which has no cheap canvas equivalent.
+ */
+
+/** `sim` caches the particle simulation so consecutive video frames don't replay it from 0. */
+export type PreparedSlide = {
+  slide: Slide;
+  image: HTMLImageElement;
+  fx: ResolvedFXOptions;
+  theme: Theme;
+  /** The caption in the export's language. */
+  caption?: string;
+  fontFamily: string;
+  sim?: { env: ParticleEnv; system: ParticleSystem; steps: number };
+};
+
+// Small seeded PRNG so particle layouts repeat exactly between renders.
+const mulberry32 = (seed: number) => () => {
+  seed |= 0; seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashString = (s: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Needed so the export canvas isn't tainted when decks use a CDN with CORS headers.
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`could not load ${src}`));
+    img.src = src;
+  });
+}
+
+/** Which caption to draw and in what font; pass the viewer's, so exports match the screen. */
+export type CaptionText = { locale: Locale; fontFamily: string };
+
+const DEFAULT_CAPTION_TEXT: CaptionText = { locale: "en", fontFamily: "system-ui, sans-serif" };
+
+export async function prepareSlides(
+  slides: Slide[], theme: Theme = THEMES.deepavali, text: CaptionText = DEFAULT_CAPTION_TEXT,
+): Promise<PreparedSlide[]> {
+  return Promise.all(
+    slides.map(async (slide) => {
+      const caption = slideCaption(slide, text.locale);
+      // Canvas text doesn't wait for web fonts, and the script's font may still be loading.
+      if (caption) await document.fonts.load(`18px ${text.fontFamily}`, caption).catch(() => []);
+      return {
+        slide,
+        image: await loadImage(slide.src),
+        fx: resolveFXOptions(themedOptions(theme, slide.options)),
+        theme,
+        caption,
+        fontFamily: text.fontFamily,
+      };
+    })
+  );
+}
+
+const drawAt = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, r: Rect) => ctx.drawImage(img, r.x, r.y, r.width, r.height);
+
+const radial = (
+  ctx: CanvasRenderingContext2D, w: number, h: number,
+  cx: number, cy: number, r: number, stops: Array<[number, string]>
+) => {
+  const g = ctx.createRadialGradient(cx * w, cy * h, 0, cx * w, cy * h, r * Math.max(w, h));
+  for (const [o, c] of stops) g.addColorStop(o, c);
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, w, h);
+};
+
+const SIM_STEP = 1 / 60;
+
+/**
+ * The slide's particle system advanced to `t` in fixed steps from a seed derived from
+ * the image, so a given time always yields the same particles, whatever was rendered before.
+ */
+function particlesAt(p: PreparedSlide, w: number, h: number, unit: number, t: number): ParticleSystem {
+  const target = Math.floor(t / SIM_STEP + 1e-6);
+  let sim = p.sim;
+  if (!sim || sim.steps > target || sim.env.width !== w || sim.env.height !== h) {
+    const env: ParticleEnv = { width: w, height: h, scale: unit, random: mulberry32(hashString(p.slide.src)) };
+    const system = createParticleSystem(p.fx.particles, env, { hueMin: p.fx.hueMin, hueMax: p.fx.hueMax });
+    sim = p.sim = { env, system, steps: 0 };
+  }
+  for (; sim.steps < target; sim.steps++) sim.system.step(SIM_STEP);
+  return sim.system;
+}
+
+/**
+ * Renders `p` at `t` seconds after the slide appeared, filling the context's canvas.
+ * Fixed pixel sizes are scaled from the 1280×720 design size.
+ */
+export function renderSlideFrame(ctx: CanvasRenderingContext2D, p: PreparedSlide, t: number) {
+  const { width: w, height: h } = ctx.canvas;
+  const { fx, image, slide, caption, fontFamily, theme: { brand, glow } } = p;
+  const unit = Math.min(w / 1280, h / 720) || 1;
+
+  ctx.save();
+  ctx.globalCompositeOperation = "source-over";
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, w, h);
+
+  // God-ray / vignette background (behind the image, as on screen it only shows at the edges).
+  radial(ctx, w, h, 0.45, 0.35, 0.6, [
+    [0, rgba(glow.ray[0], 0.22 * fx.vignetteStrength)],
+    [0.45 / 0.65, rgba(glow.ray[1], 0.1 * fx.vignetteStrength)],
+    [1, "rgba(0,0,0,0)"],
+  ]);
+
+  // Base image (over its blurred backdrop for fit: blur) + bloom duplicate
+  const { main, backdrop } = layoutImage(
+    { width: image.naturalWidth, height: image.naturalHeight }, { width: w, height: h }, slide.fit, slide.focalPoint,
+  );
+  if (backdrop) {
+    ctx.filter = `blur(${28 * unit}px) brightness(0.55)`;
+    drawAt(ctx, image, backdrop);
+    ctx.filter = "none";
+  }
+  drawAt(ctx, image, main);
+  if (fx.bloom > 0) {
+    ctx.globalCompositeOperation = "screen";
+    ctx.globalAlpha = 0.85;
+    ctx.filter = `blur(${fx.bloom * unit}px)`;
+    drawAt(ctx, image, main);
+    ctx.filter = "none";
+    ctx.globalAlpha = 1;
+  }
+
+  // Light sweep: triangle wave matching Sweep's 0.005/frame at 60fps
+  if (fx.showSweep) {
+    const period = 2 / (0.005 * 60);
+    const ph = (t % period) / period;
+    const tri = ph < 0.5 ? ph * 2 : 2 - ph * 2;
+    const x = (200 + tri * (1280 - 400)) * (w / 1280);
+    const bw = 360 * (w / 1280);
+    const g = ctx.createLinearGradient(x - bw / 2, 0, x + bw / 2, 0);
+    g.addColorStop(0, "rgba(255,255,255,0)");
+    g.addColorStop(0.45, "rgba(255,220,160,0.06)");
+    g.addColorStop(0.5, "rgba(255,240,210,0.17)");
+    g.addColorStop(0.55, "rgba(255,200,120,0.06)");
+    g.addColorStop(1, "rgba(255,255,255,0)");
+    ctx.globalCompositeOperation = "screen";
+    ctx.fillStyle = g;
+    ctx.fillRect(x - bw / 2, 0, bw, h);
+  }
+
+  // Extra bloom halo
+  ctx.globalCompositeOperation = "screen";
+  ctx.filter = `blur(${16 * unit}px)`;
+  radial(ctx, w, h, 0.48, 0.4, 0.35, [
+    [0, rgba(glow.halo[0], 0.25)],
+    [0.5, rgba(glow.halo[1], 0.18)],
+    [1, "rgba(0,0,0,0)"],
+  ]);
+  ctx.filter = "none";
+
+  // Particle layers (embers, pops, …), simulated up to t
+  particlesAt(p, w, h, unit, t).draw(ctx);
+  ctx.globalCompositeOperation = "source-over";
+  ctx.globalAlpha = 1;
+
+  // Caption chip
+  if (caption) {
+    const fontPx = Math.round(18 * unit * 1.2);
+    ctx.font = `${fontPx}px ${fontFamily}`;
+    const tw = ctx.measureText(caption).width;
+    const padX = 16 * unit * 1.2, chipH = fontPx * 1.9;
+    const cx = w / 2, cy = h - 16 * unit - chipH / 2;
+    ctx.beginPath();
+    ctx.roundRect(cx - tw / 2 - padX, cy - chipH / 2, tw + padX * 2, chipH, chipH / 2);
+    ctx.fillStyle = "rgba(0,0,0,0.35)";
+    ctx.fill();
+    ctx.lineWidth = 1.5 * unit;
+    ctx.strokeStyle = brandAlpha(brand[400], 0.6);
+    ctx.stroke();
+    ctx.fillStyle = brandAlpha(brand[200], 0.95);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.shadowColor = rgba(glow.text, 0.7);
+    ctx.shadowBlur = 12 * unit;
+    ctx.fillText(caption, cx, cy);
+    ctx.shadowBlur = 0;
+  }
+  ctx.restore();
+}
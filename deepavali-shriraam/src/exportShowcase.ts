@@ -0,0 +1,135 @@
+import { applyPalette, GIFEncoder, quantize } from "gifenc";
+import { VIDEO_TYPES, type StillFormat } from "./exportFormats";
+import { prepareSlides, renderSlideFrame, type CaptionText } from "./exportRenderer";
+import type { Slide } from "./slideDeck";
+import type { Theme } from "./themes";
+
+/**
+ * Showcase export
+ * Records the deck to WebM through MediaRecorder (frames drawn by exportRenderer, audio
+ * decoded and mixed in through Web Audio), or encodes the current slide as a PNG/GIF.
+ * Recording runs in real time, so the tab should stay visible while it works. ExportMenu
+ * imports it on first export, keeping the renderer and encoders out of the start-up bundle.
+ */
+
+export type VideoExportOptions = {
+  slides: Slide[];
+  intervalMs: number;
+  width: number;
+  height: number;
+  fps: number;
+  /** Colours and default effects; the Deepavali theme when omitted. */
+  theme?: Theme;
+  /** Caption language and font; English when omitted. */
+  text?: CaptionText;
+  /** Audio file to mux in; omitted or failing to load gives a silent video. */
+  audioSrc?: string;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+};
+
+const makeCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+  return { canvas, ctx };
+};
+
+const abortError = () => new DOMException("Export cancelled", "AbortError");
+
+/** Audio for the recording, as a live track plus a start function to call once recording begins. */
+async function audioTrack(src: string, seconds: number) {
+  const ctx = new AudioContext();
+  try {
+    const res = await fetch(src);
+    const buffer = await ctx.decodeAudioData(await res.arrayBuffer());
+    const dest = ctx.createMediaStreamDestination();
+    const node = ctx.createBufferSource();
+    node.buffer = buffer;
+    node.loop = buffer.duration < seconds;
+    node.connect(dest);
+    return {
+      track: dest.stream.getAudioTracks()[0],
+      start: () => { ctx.resume().catch(() => {}); node.start(); },
+      stop: () => { try { node.stop(); } catch { /* never started */ } ctx.close().catch(() => {}); },
+    };
+  } catch {
+    ctx.close().catch(() => {});
+    return null;
+  }
+}
+
+/** Renders the whole deck, one `intervalMs` per slide, into a WebM blob. */
+export async function exportVideo({
+  slides, intervalMs, width, height, fps, theme, text, audioSrc, signal, onProgress,
+}: VideoExportOptions): Promise<Blob> {
+  const mimeType = VIDEO_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new Error("This browser cannot record WebM video");
+
+  const prepared = await prepareSlides(slides, theme, text);
+  if (signal?.aborted) throw abortError();
+
+  const { canvas, ctx } = makeCanvas(width, height);
+  const perSlide = intervalMs / 1000;
+  const totalSec = perSlide * prepared.length;
+  const totalFrames = Math.ceil(totalSec * fps);
+  const draw = (i: number) => {
+    const t = i / fps;
+    const k = Math.min(prepared.length - 1, Math.floor(t / perSlide));
+    renderSlideFrame(ctx, prepared[k], t - k * perSlide);
+  };
+
+  draw(0); // first frame must exist before the stream starts
+  const stream = canvas.captureStream(fps);
+  const audio = audioSrc ? await audioTrack(audioSrc, totalSec) : null;
+  if (audio) stream.addTrack(audio.track);
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: Math.round(width * height * fps * 0.12) });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  recorder.start(1000);
+  audio?.start();
+  const t0 = performance.now();
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      if (signal?.aborted) throw abortError();
+      draw(i);
+      onProgress?.(i / totalFrames);
+      // Frame content depends only on i; waiting keeps the recording in step with wall time.
+      const wait = t0 + ((i + 1) * 1000) / fps - performance.now();
+      if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+    }
+  } finally {
+    recorder.stop();
+    audio?.stop();
+    stream.getTracks().forEach((t) => t.stop());
+    await stopped;
+  }
+  onProgress?.(1);
+  return new Blob(chunks, { type: mimeType.split(";")[0] });
+}
+
+/** Encodes `slide` at `t` seconds into its animation (default: the default pops are open). */
+export async function exportStill(
+  slide: Slide, width: number, height: number, format: StillFormat, theme?: Theme, text?: CaptionText, t = 1.4,
+): Promise<Blob> {
+  const [prepared] = await prepareSlides([slide], theme, text);
+  const { canvas, ctx } = makeCanvas(width, height);
+  renderSlideFrame(ctx, prepared, t);
+
+  if (format === "png") {
+    return new Promise((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png")
+    );
+  }
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const palette = quantize(data, 256);
+  const gif = GIFEncoder();
+  gif.writeFrame(applyPalette(data, palette), width, height, { palette });
+  gif.finish();
+  return new Blob([gif.bytes().slice()], { type: "image/gif" });
+}
@@ -0,0 +1,129 @@
+/**
+ * Fireworks
+ * Small particle simulation behind tap-to-launch: a rocket rises from the bottom edge
+ * with a trail, then bursts into sparks under gravity and drag that fade out. Units are
+ * canvas pixels and seconds; `scale` (usually devicePixelRatio) keeps sizes and speeds
+ * consistent across screens.
+ */
+
+type Rocket = { x: number; y: number; targetY: number; vy: number; hue: number; trail: Array<[number, number]> };
+type Spark = { x: number; y: number; vx: number; vy: number; life: number; ttl: number; hue: number; r: number };
+
+export type FireworkShowOptions = {
+  hueMin: number;
+  hueMax: number;
+  /** Sparks per burst. */
+  sparks?: number;
+  scale?: number;
+};
+
+/** Rockets in flight at once; launches beyond this are dropped. */
+export const MAX_ROCKETS = 8;
+/** Live sparks across all bursts; a burst is thinned to fit. */
+export const MAX_SPARKS = 900;
+
+const ROCKET_GRAVITY = 900; // px/s² before scale; strong, so rockets climb quickly and stall at the top
+const SPARK_GRAVITY = 90;
+const DRAG = 1.6;          // 1/s
+const TRAIL = 10;
+
+export type FireworkShow = {
+  /** Launches a rocket that bursts at (x, y); false when the cap is reached. */
+  launch: (x: number, y: number) => boolean;
+  step: (dt: number) => void;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+  /** True while anything is still on screen. */
+  busy: () => boolean;
+  setHues: (hueMin: number, hueMax: number) => void;
+};
+
+export function createFireworkShow(height: () => number, options: FireworkShowOptions): FireworkShow {
+  const scale = options.scale ?? 1;
+  const perBurst = options.sparks ?? 60;
+  let { hueMin, hueMax } = options;
+  const rockets: Rocket[] = [];
+  let sparks: Spark[] = [];
+  const hue = () => hueMin + Math.random() * (hueMax - hueMin);
+
+  const burst = (r: Rocket) => {
+    const room = MAX_SPARKS - sparks.length;
+    const n = Math.min(perBurst, room);
+    for (let i = 0; i < n; i++) {
+      const a = (i / n) * Math.PI * 2 + Math.random() * 0.2;
+      const speed = (120 + Math.random() * 140) * scale;
+      const ttl = 0.9 + Math.random() * 0.8;
+      sparks.push({
+        x: r.x, y: r.y,
+        vx: Math.cos(a) * speed, vy: Math.sin(a) * speed,
+        life: ttl, ttl,
+        // Mostly the rocket's colour with a little spread inside the slide's range.
+        hue: Math.random() < 0.7 ? r.hue : hue(),
+        r: (1 + Math.random() * 1.4) * scale,
+      });
+    }
+  };
+
+  return {
+    launch(x, y) {
+      if (rockets.length >= MAX_ROCKETS) return false;
+      const startY = height() + 10 * scale;
+      // Pick the launch speed that peaks right at the tap point.
+      const rise = Math.max(40 * scale, startY - y);
+      const vy = -Math.sqrt(2 * ROCKET_GRAVITY * scale * rise);
+      rockets.push({ x, y: startY, targetY: y, vy, hue: hue(), trail: [] });
+      return true;
+    },
+
+    step(dt) {
+      if (!dt) return;
+      for (let i = rockets.length - 1; i >= 0; i--) {
+        const r = rockets[i];
+        r.trail.push([r.x, r.y]);
+        if (r.trail.length > TRAIL) r.trail.shift();
+        r.vy += ROCKET_GRAVITY * scale * dt;
+        r.y += r.vy * dt;
+        if (r.y <= r.targetY || r.vy >= 0) {
+          burst(r);
+          rockets.splice(i, 1);
+        }
+      }
+      const drag = Math.exp(-DRAG * dt);
+      for (const s of sparks) {
+        s.vx *= drag;
+        s.vy = s.vy * drag + SPARK_GRAVITY * scale * dt;
+        s.x += s.vx * dt;
+        s.y += s.vy * dt;
+        s.life -= dt;
+      }
+      sparks = sparks.filter((s) => s.life > 0);
+    },
+
+    draw(ctx) {
+      ctx.globalCompositeOperation = "lighter";
+      for (const r of rockets) {
+        r.trail.forEach(([x, y], i) => {
+          ctx.fillStyle = `hsla(${r.hue}, 100%, 75%, ${(i + 1) / r.trail.length * 0.6})`;
+          ctx.beginPath();
+          ctx.arc(x, y, 1.6 * scale, 0, Math.PI * 2);
+          ctx.fill();
+        });
+        ctx.fillStyle = `hsla(${r.hue}, 100%, 90%, 1)`;
+        ctx.beginPath();
+        ctx.arc(r.x, r.y, 2.4 * scale, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      for (const s of sparks) {
+        const a = s.life / s.ttl;
+        ctx.fillStyle = `hsla(${s.hue}, 100%, ${55 + 30 * a}%, ${a})`;
+        ctx.beginPath();
+        ctx.arc(s.x, s.y, s.r, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.globalCompositeOperation = "source-over";
+    },
+
+    busy: () => rockets.length > 0 || sparks.length > 0,
+
+    setHues(min, max) { hueMin = min; hueMax = max; },
+  };
+}
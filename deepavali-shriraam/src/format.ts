@@ -0,0 +1,7 @@
+/** `m:ss` for a duration in seconds; `--:--` while unknown (NaN/Infinity). */
+export const formatTime = (sec: number) => {
+  if (!isFinite(sec)) return "--:--";
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import { FX_DEFAULTS, MAX_FIREWORKS, MAX_PARTICLE_LAYERS, resolveFXOptions, validateFXOptions, type ValidationIssue } from "./fxOptions";
+
+const validate = (raw: unknown) => {
+  const issues: ValidationIssue[] = [];
+  return { options: validateFXOptions(raw, "options", issues), issues };
+};
+
+const paths = (issues: ValidationIssue[]) => issues.map((i) => i.path);
+
+describe("validateFXOptions", () => {
+  it("swaps an inverted hue range", () => {
+    const { options, issues } = validate({ hueMin: 80, hueMax: 20 });
+    expect(options).toMatchObject({ hueMin: 20, hueMax: 80 });
+    expect(paths(issues)).toEqual(["options.hueMin"]);
+  });
+
+  it("swaps against the default when only one end is given", () => {
+    const { options } = validate({ hueMin: 90 });
+    expect(options).toMatchObject({ hueMin: FX_DEFAULTS.hueMax, hueMax: 90 });
+  });
+
+  it("clamps a negative bloom to 0", () => {
+    const { options, issues } = validate({ bloom: -5 });
+    expect(options.bloom).toBe(0);
+    expect(issues).toEqual([{ path: "options.bloom", message: "-5 is outside 0..40; using 0" }]);
+  });
+
+  it("clamps vignetteStrength into 0..1", () => {
+    expect(validate({ vignetteStrength: 1.7 }).options.vignetteStrength).toBe(1);
+    expect(validate({ vignetteStrength: -0.2 }).options.vignetteStrength).toBe(0);
+    expect(validate({ vignetteStrength: 0.4 }).issues).toEqual([]);
+  });
+
+  it("reports and drops unknown keys", () => {
+    const { options, issues } = validate({ blom: 3, bloom: 3 });
+    expect(options).toEqual({ bloom: 3 });
+    expect(issues).toEqual([{ path: "options.blom", message: "unknown option" }]);
+  });
+
+  it("reports unknown firework and particle fields", () => {
+    const { issues } = validate({
+      fireworks: [{ x: "10%", y: "10%", size: 3 }],
+      particles: [{ preset: "petals", colour: "red" }],
+    });
+    expect(paths(issues)).toEqual(["options.fireworks[0].size", "options.particles[0].colour"]);
+  });
+
+  it("drops mistyped values", () => {
+    const { options, issues } = validate({ bloom: "6", showSweep: 1, fireworks: {} });
+    expect(options).toEqual({});
+    expect(paths(issues)).toEqual(["options.bloom", "options.showSweep", "options.fireworks"]);
+  });
+
+  it("keeps only the first MAX_FIREWORKS firework points", () => {
+    const points = Array.from({ length: MAX_FIREWORKS + 3 }, (_, i) => ({ x: `${i}%`, y: "20%" }));
+    const { options, issues } = validate({ fireworks: points });
+    expect(options.fireworks).toHaveLength(MAX_FIREWORKS);
+    expect(options.fireworks?.at(-1)).toEqual({ x: `${MAX_FIREWORKS - 1}%`, y: "20%" });
+    expect(paths(issues)).toEqual(["options.fireworks"]);
+  });
+
+  it("clamps the ember count to a whole number in range", () => {
+    expect(validate({ emberCount: 1000 }).options.emberCount).toBe(400);
+    expect(validate({ emberCount: 12.6 }).options.emberCount).toBe(13);
+  });
+
+  it("keeps only the first MAX_PARTICLE_LAYERS layers and clamps their counts", () => {
+    const layers = Array.from({ length: MAX_PARTICLE_LAYERS + 2 }, () => ({ preset: "petals", count: 999 }));
+    const { options, issues } = validate({ particles: layers });
+    expect(options.particles).toHaveLength(MAX_PARTICLE_LAYERS);
+    expect(options.particles?.every((l) => l.count === 400)).toBe(true);
+    expect(paths(issues)).toContain("options.particles");
+    expect(paths(issues)).toContain("options.particles[0].count");
+  });
+
+  it("reports an unknown particle preset", () => {
+    const { options, issues } = validate({ particles: [{ preset: "confetti" }] });
+    expect(options.particles).toEqual([]);
+    expect(paths(issues)).toEqual(["options.particles[0].preset"]);
+  });
+});
+
+describe("resolveFXOptions", () => {
+  it("fills in the defaults", () => {
+    const resolved = resolveFXOptions();
+    expect(resolved).toMatchObject({ bloom: FX_DEFAULTS.bloom, emberCount: FX_DEFAULTS.emberCount, fireworks: FX_DEFAULTS.fireworks });
+    expect(resolved.particles).toEqual([
+      { preset: "embers", count: FX_DEFAULTS.emberCount },
+      ...FX_DEFAULTS.fireworks.map(({ x, y, delay }) => ({ preset: "pops", x, y, delay })),
+    ]);
+  });
+
+  it("resolves clamped and swapped values, warning about them in development", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const resolved = resolveFXOptions({ bloom: -1, vignetteStrength: 3, hueMin: 300, hueMax: 10, emberCount: 5000 });
+    expect(resolved).toMatchObject({ bloom: 0, vignetteStrength: 1, hueMin: 10, hueMax: 300, emberCount: 400 });
+    expect(resolved.particles[0]).toEqual({ preset: "embers", count: 400 });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,212 @@
+import { isParticlePreset, PARTICLE_PRESET_NAMES, type ParticleLayer } from "./particles";
+import type { FireworkPt, FXOptions } from "./RamImageFX";
+
+/**
+ * FXOptions runtime contract
+ * The types live in RamImageFX.tsx; this module holds the matching schema, defaults and
+ * ranges, and turns untrusted input (manifests, URL data, editor state) into options
+ * RamImageFX can render safely. Out-of-range values are clamped, not rejected.
+ */
+
+/** One problem found while validating; `path` points at the offending field, e.g. `slides[2].options.bloom`. */
+export type ValidationIssue = { path: string; message: string };
+
+type FieldKind = "number" | "boolean" | "fireworks" | "particles";
+
+// Every FXOptions key must appear here (enforced by `satisfies`), so new options can't skip validation.
+export const FX_SCHEMA = {
+  bloom: "number",
+  shimmerScale: "number",
+  vignetteStrength: "number",
+  showSweep: "boolean",
+  emberCount: "number",
+  hueMin: "number",
+  hueMax: "number",
+  fireworks: "fireworks",
+  particles: "particles",
+  audioReactivity: "number",
+} as const satisfies Record<keyof FXOptions, FieldKind>;
+
+type NumericKey = { [K in keyof typeof FX_SCHEMA]: (typeof FX_SCHEMA)[K] extends "number" ? K : never }[keyof typeof FX_SCHEMA];
+
+/** Inclusive ranges for numeric options; `int` rounds the value. */
+export const FX_RANGES: Record<NumericKey, { min: number; max: number; int?: boolean }> = {
+  bloom: { min: 0, max: 40 },
+  shimmerScale: { min: 0, max: 60 },
+  vignetteStrength: { min: 0, max: 1 },
+  emberCount: { min: 0, max: 400, int: true },
+  hueMin: { min: 0, max: 360 },
+  hueMax: { min: 0, max: 360 },
+  audioReactivity: { min: 0, max: 2 },
+};
+
+export const MAX_FIREWORKS = 12;
+
+export const MAX_PARTICLE_LAYERS = 8;
+
+/** Ranges for the numeric fields of a particle layer. */
+export const PARTICLE_RANGES: Record<"count" | "hueMin" | "hueMax" | "speed" | "delay", { min: number; max: number; int?: boolean }> = {
+  count: { min: 0, max: 400, int: true },
+  hueMin: { min: 0, max: 360 },
+  hueMax: { min: 0, max: 360 },
+  speed: { min: 0.1, max: 4 },
+  delay: { min: 0, max: 30 },
+};
+
+export const FX_DEFAULTS = {
+  bloom: 6,
+  shimmerScale: 8,
+  vignetteStrength: 1,
+  showSweep: false,
+  emberCount: 80,
+  hueMin: 35,
+  hueMax: 60,
+  fireworks: [
+    { x: "15%", y: "22%", delay: 0.2 },
+    { x: "78%", y: "25%", delay: 0.6 },
+    { x: "62%", y: "14%", delay: 1.0 },
+  ] as FireworkPt[],
+  audioReactivity: 1,
+};
+
+/**
+ * FXOptions with every field filled in. Without `particles`, the particle layers are
+ * the classic embers (`emberCount`) plus one pop per `fireworks` point.
+ */
+export type ResolvedFXOptions = typeof FX_DEFAULTS & { particles: ParticleLayer[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && isFinite(v);
+
+const clampField = (key: NumericKey, value: number, path: string, issues: ValidationIssue[]) => {
+  const { min, max, int } = FX_RANGES[key];
+  let v = Math.max(min, Math.min(max, value));
+  if (int) v = Math.round(v);
+  if (v !== value) issues.push({ path, message: `${value} is outside ${min}..${max}; using ${v}` });
+  return v;
+};
+
+const checkFirework = (raw: unknown, path: string, issues: ValidationIssue[]): FireworkPt | null => {
+  if (!isObject(raw)) { issues.push({ path, message: "expected an object like { x: \"50%\", y: \"20%\" }" }); return null; }
+  if (typeof raw.x !== "string" || typeof raw.y !== "string") {
+    issues.push({ path, message: "x and y must be CSS position strings such as \"50%\"" });
+    return null;
+  }
+  for (const key of Object.keys(raw)) {
+    if (key !== "x" && key !== "y" && key !== "delay") issues.push({ path: `${path}.${key}`, message: "unknown firework field" });
+  }
+  if (raw.delay === undefined) return { x: raw.x, y: raw.y };
+  if (!isFiniteNumber(raw.delay)) {
+    issues.push({ path: `${path}.delay`, message: "must be a number of seconds" });
+    return { x: raw.x, y: raw.y };
+  }
+  if (raw.delay < 0) issues.push({ path: `${path}.delay`, message: "must not be negative; using 0" });
+  return { x: raw.x, y: raw.y, delay: Math.max(0, raw.delay) };
+};
+
+const checkParticleLayer = (raw: unknown, path: string, issues: ValidationIssue[]): ParticleLayer | null => {
+  if (!isObject(raw)) { issues.push({ path, message: "expected an object like { preset: \"petals\", count: 60 }" }); return null; }
+  if (!isParticlePreset(raw.preset)) {
+    issues.push({ path: `${path}.preset`, message: `must be one of ${PARTICLE_PRESET_NAMES.join(", ")}` });
+    return null;
+  }
+  const layer: ParticleLayer = { preset: raw.preset };
+  for (const [key, value] of Object.entries(raw)) {
+    const at = `${path}.${key}`;
+    if (key === "preset") continue;
+    if (key === "x" || key === "y") {
+      if (typeof value === "string") layer[key] = value;
+      else issues.push({ path: at, message: "must be a position string such as \"50%\"" });
+    } else if (key in PARTICLE_RANGES) {
+      const field = key as keyof typeof PARTICLE_RANGES;
+      if (!isFiniteNumber(value)) { issues.push({ path: at, message: "must be a number" }); continue; }
+      const { min, max, int } = PARTICLE_RANGES[field];
+      let v = Math.max(min, Math.min(max, value));
+      if (int) v = Math.round(v);
+      if (v !== value) issues.push({ path: at, message: `${value} is outside ${min}..${max}; using ${v}` });
+      layer[field] = v;
+    } else {
+      issues.push({ path: at, message: "unknown particle field" });
+    }
+  }
+  return layer;
+};
+
+/**
+ * Checks and clamps arbitrary input against the FXOptions schema. Mistyped and unknown
+ * fields are dropped, numbers are clamped to FX_RANGES and an inverted hue range is
+ * swapped; everything changed is reported in `issues`.
+ */
+export function validateFXOptions(raw: unknown, path = "options", issues: ValidationIssue[] = []): FXOptions {
+  if (raw === undefined || raw === null) return {};
+  if (!isObject(raw)) { issues.push({ path, message: "expected an object" }); return {}; }
+
+  const out: FXOptions = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const kind = (FX_SCHEMA as Record<string, FieldKind>)[key];
+    const at = `${path}.${key}`;
+    if (!kind) { issues.push({ path: at, message: "unknown option" }); continue; }
+    if (kind === "number") {
+      if (isFiniteNumber(value)) out[key as NumericKey] = clampField(key as NumericKey, value, at, issues);
+      else issues.push({ path: at, message: "must be a number" });
+    } else if (kind === "boolean") {
+      if (typeof value === "boolean") out.showSweep = value;
+      else issues.push({ path: at, message: "must be true or false" });
+    } else if (kind === "particles") {
+      if (!Array.isArray(value)) { issues.push({ path: at, message: "must be a list of particle layers" }); continue; }
+      if (value.length > MAX_PARTICLE_LAYERS) issues.push({ path: at, message: `only the first ${MAX_PARTICLE_LAYERS} layers are used` });
+      out.particles = value
+        .slice(0, MAX_PARTICLE_LAYERS)
+        .map((l, i) => checkParticleLayer(l, `${at}[${i}]`, issues))
+        .filter((l): l is ParticleLayer => l !== null);
+    } else if (!Array.isArray(value)) {
+      issues.push({ path: at, message: "must be a list of firework points" });
+    } else {
+      if (value.length > MAX_FIREWORKS) issues.push({ path: at, message: `only the first ${MAX_FIREWORKS} points are used` });
+      out.fireworks = value
+        .slice(0, MAX_FIREWORKS)
+        .map((p, i) => checkFirework(p, `${at}[${i}]`, issues))
+        .filter((p): p is FireworkPt => p !== null);
+    }
+  }
+
+  const lo = out.hueMin ?? FX_DEFAULTS.hueMin;
+  const hi = out.hueMax ?? FX_DEFAULTS.hueMax;
+  if (lo > hi) {
+    issues.push({ path: `${path}.hueMin`, message: `hueMin ${lo} is above hueMax ${hi}; swapping them` });
+    out.hueMin = hi;
+    out.hueMax = lo;
+  }
+  return out;
+}
+
+/**
+ * Validates options and fills in defaults. In development, anything that had to be
+ * fixed up (typos included) is logged so it doesn't fail silently.
+ */
+export function resolveFXOptions(options: FXOptions = {}): ResolvedFXOptions {
+  const issues: ValidationIssue[] = [];
+  const clean = validateFXOptions(options, "options", issues);
+  if (import.meta.env.DEV && issues.length) {
+    console.warn("[RamImageFX] invalid options:", issues.map((i) => `${i.path}: ${i.message}`).join("; "));
+  }
+  const emberCount = clean.emberCount ?? FX_DEFAULTS.emberCount;
+  const fireworks = clean.fireworks ?? FX_DEFAULTS.fireworks;
+  return {
+    bloom: clean.bloom ?? FX_DEFAULTS.bloom,
+    shimmerScale: clean.shimmerScale ?? FX_DEFAULTS.shimmerScale,
+    vignetteStrength: clean.vignetteStrength ?? FX_DEFAULTS.vignetteStrength,
+    showSweep: clean.showSweep ?? FX_DEFAULTS.showSweep,
+    emberCount,
+    hueMin: clean.hueMin ?? FX_DEFAULTS.hueMin,
+    hueMax: clean.hueMax ?? FX_DEFAULTS.hueMax,
+    fireworks,
+    particles: clean.particles ?? [
+      { preset: "embers", count: emberCount },
+      ...fireworks.map(({ x, y, delay }): ParticleLayer => ({ preset: "pops", x, y, delay })),
+    ],
+    audioReactivity: clean.audioReactivity ?? FX_DEFAULTS.audioReactivity,
+  };
+}
@@ -0,0 +1,123 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { MESSAGES, type MessageKey } from "./messages";
+
+/**
+ * Locales
+ * UI language detection/persistence, `t()` for control labels and on-demand loading of
+ * the Noto web font for the chosen script. Shared through I18nContext; components
+ * outside a provider get English.
+ */
+
+export type Locale = keyof typeof MESSAGES;
+
+type Script = "Latin" | "Devanagari" | "Bengali" | "Gujarati" | "Kannada" | "Malayalam" | "Telugu" | "Tamil" | "Gurmukhi" | "Oriya";
+
+/** Native name (for the picker) and writing system of each UI locale. */
+export const LOCALES: Record<Locale, { name: string; script: Script }> = {
+  en: { name: "English", script: "Latin" },
+  hi: { name: "हिन्दी", script: "Devanagari" },
+  bn: { name: "বাংলা", script: "Bengali" },
+  gu: { name: "ગુજરાતી", script: "Gujarati" },
+  kn: { name: "ಕನ್ನಡ", script: "Kannada" },
+  ml: { name: "മലയാളം", script: "Malayalam" },
+  te: { name: "తెలుగు", script: "Telugu" },
+  ta: { name: "தமிழ்", script: "Tamil" },
+  pa: { name: "ਪੰਜਾਬੀ", script: "Gurmukhi" },
+  or: { name: "ଓଡ଼ିଆ", script: "Oriya" },
+};
+
+export const isLocale = (v: unknown): v is Locale => typeof v === "string" && v in LOCALES;
+
+/** First supported entry of the browser's preferred languages (`hi-IN` → `hi`), else English. */
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const lang of languages) {
+    const base = lang.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return "en";
+}
+
+// ---------- fonts ----------
+const loadedFonts = new Set<string>();
+
+/** Injects the Google Fonts stylesheet for `family` once (also used for theme display fonts). */
+export function loadGoogleFont(family: string, weights = "400;700;800") {
+  if (loadedFonts.has(family)) return;
+  loadedFonts.add(family);
+  const link = document.createElement("link");
+  link.rel = "stylesheet";
+  link.href = `https://fonts.googleapis.com/css2?family=${family.replace(/ /g, "+")}:wght@${weights}&display=swap`;
+  document.head.appendChild(link);
+}
+
+/** Loads the Noto font for `script`; returns a CSS font-family stack. */
+export function ensureScriptFont(script: Script): string {
+  const fallback = "system-ui, sans-serif";
+  if (script === "Latin") return fallback;
+  const family = `Noto Sans ${script}`;
+  loadGoogleFont(family);
+  return `"${family}", ${fallback}`;
+}
+
+// ---------- translation ----------
+export type TFunction = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const makeT = (locale: Locale): TFunction => (key, params) => {
+  const table: Record<MessageKey, string> = MESSAGES[locale];
+  let text = table[key];
+  if (params) for (const [k, v] of Object.entries(params)) text = text.split(`{${k}}`).join(String(v));
+  return text;
+};
+
+export type I18n = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: TFunction;
+  /** Keep the rotating greeting on the user's language instead of cycling. */
+  pinGreeting: boolean;
+  setPinGreeting: (pin: boolean) => void;
+  /** Font stack for the current script. */
+  fontFamily: string;
+};
+
+export const I18nContext = createContext<I18n>({
+  locale: "en",
+  setLocale: () => {},
+  t: makeT("en"),
+  pinGreeting: false,
+  setPinGreeting: () => {},
+  fontFamily: "system-ui, sans-serif",
+});
+
+export const useI18n = () => useContext(I18nContext);
+
+const STORAGE_KEY = "deepavali.locale";
+const PIN_KEY = "deepavali.pinGreeting";
+
+const readStored = (key: string) => {
+  try { return localStorage.getItem(key); } catch { return null; }
+};
+const writeStored = (key: string, value: string) => {
+  try { localStorage.setItem(key, value); } catch { /* private mode */ }
+};
+
+/** State for the I18nContext provider: `?lang=` > saved choice > browser languages. */
+export function useLocaleState(): I18n {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get("lang");
+    const stored = readStored(STORAGE_KEY);
+    return isLocale(fromUrl) ? fromUrl : isLocale(stored) ? stored : detectLocale();
+  });
+  const [pinGreeting, setPinState] = useState(() => readStored(PIN_KEY) === "1");
+
+  const setLocale = useCallback((l: Locale) => { setLocaleState(l); writeStored(STORAGE_KEY, l); }, []);
+  const setPinGreeting = useCallback((p: boolean) => { setPinState(p); writeStored(PIN_KEY, p ? "1" : "0"); }, []);
+
+  const fontFamily = useMemo(() => ensureScriptFont(LOCALES[locale].script), [locale]);
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+
+  return useMemo(
+    () => ({ locale, setLocale, t: makeT(locale), pinGreeting, setPinGreeting, fontFamily }),
+    [locale, setLocale, pinGreeting, setPinGreeting, fontFamily]
+  );
+}
@@ -0,0 +1,75 @@
+import type { ValidationIssue } from "./fxOptions";
+
+/**
+ * Image fit
+ * How a slide's picture fills a frame of whatever shape the screen gives it. `cover`
+ * fills the frame, cropping around the focal point; `contain` shows the whole picture
+ * with bars; `blur` shows it whole over a blurred, cropped copy of itself. Shared by
+ * RamImageFX, the exporter and the focal-point tool so all three crop alike.
+ */
+
+export type ImageFit = "cover" | "contain" | "blur";
+
+export const IMAGE_FITS: ImageFit[] = ["cover", "contain", "blur"];
+
+export const DEFAULT_FIT: ImageFit = "cover";
+
+export const isImageFit = (v: unknown): v is ImageFit => IMAGE_FITS.includes(v as ImageFit);
+
+/** The part of the picture to keep in view, as percentages from its top-left, e.g. `{ x: "50%", y: "20%" }`. */
+export type FocalPoint = { x: string; y: string };
+
+export type Size = { width: number; height: number };
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+const PERCENT = /^(\d+(?:\.\d+)?)%$/;
+
+/** Focal point as 0–1 fractions; the centre when absent. */
+export function focusOf(point?: FocalPoint): { x: number; y: number } {
+  const frac = (v: string | undefined) => {
+    const m = v === undefined ? null : PERCENT.exec(v);
+    return m ? Math.min(1, Number(m[1]) / 100) : 0.5;
+  };
+  return { x: frac(point?.x), y: frac(point?.y) };
+}
+
+/** Fractions back to the manifest form, rounded to a tenth of a percent. */
+export const toFocalPoint = (x: number, y: number): FocalPoint => ({
+  x: `${Math.round(x * 1000) / 10}%`,
+  y: `${Math.round(y * 1000) / 10}%`,
+});
+
+export function checkFocalPoint(raw: unknown, path: string, issues: ValidationIssue[]): FocalPoint | undefined {
+  const ok = (v: unknown): v is string => typeof v === "string" && PERCENT.test(v) && parseFloat(v) <= 100;
+  if (typeof raw === "object" && raw !== null && "x" in raw && "y" in raw && ok(raw.x) && ok(raw.y)) {
+    return { x: raw.x, y: raw.y };
+  }
+  issues.push({ path, message: "expected { x: \"50%\", y: \"30%\" } with percentages from 0% to 100%" });
+  return undefined;
+}
+
+/** Scales `image` to fill `frame`, sliding it so the focus sits as near the middle as the edges allow. */
+export function coverRect(image: Size, frame: Size, focus = focusOf()): Rect {
+  const s = Math.max(frame.width / image.width, frame.height / image.height);
+  const width = image.width * s;
+  const height = image.height * s;
+  const place = (size: number, room: number, f: number) => Math.min(0, Math.max(room - size, room / 2 - f * size));
+  return { x: place(width, frame.width, focus.x), y: place(height, frame.height, focus.y), width, height };
+}
+
+/** Scales `image` to fit inside `frame`, centred. */
+export function containRect(image: Size, frame: Size): Rect {
+  const s = Math.min(frame.width / image.width, frame.height / image.height);
+  const width = image.width * s;
+  const height = image.height * s;
+  return { x: (frame.width - width) / 2, y: (frame.height - height) / 2, width, height };
+}
+
+/** Where to draw the picture (`main`) and, for `blur`, its blurred backdrop. */
+export function layoutImage(image: Size, frame: Size, fit: ImageFit = DEFAULT_FIT, point?: FocalPoint): { main: Rect; backdrop?: Rect } {
+  const focus = focusOf(point);
+  if (fit === "cover") return { main: coverRect(image, frame, focus) };
+  const main = containRect(image, frame);
+  return fit === "blur" ? { main, backdrop: coverRect(image, frame, focus) } : { main };
+}
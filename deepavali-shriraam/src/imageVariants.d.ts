@@ -0,0 +1,5 @@
+// The responsive image table generated at build time by imagePipeline.ts.
+declare module "virtual:image-variants" {
+  const table: Record<string, import("./images").ImageInfo>;
+  export default table;
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState, type RefObject } from "react";
+import table from "virtual:image-variants";
+
+/**
+ * Responsive images
+ * Chooses among the variants made at build time (imagePipeline.ts): the best format the
+ * browser decodes, at the smallest width that still covers the frame at the device pixel
+ * ratio. Also preloads neighbouring slides. Images the pipeline never saw, e.g. from a
+ * remote deck, are used as they are.
+ */
+
+export type ImageFormat = "avif" | "webp";
+
+export type ImageInfo = {
+  width: number;
+  height: number;
+  /** Tiny blurred data URL to show while the real image loads. */
+  placeholder: string;
+  /** `[width, url]` pairs, narrowest first; the same widths for every format. */
+  variants: Record<ImageFormat, [number, string][]>;
+};
+
+/** A box in CSS pixels, e.g. the frame the image has to cover. */
+export type Box = { width: number; height: number };
+
+export const imageInfo = (src: string): ImageInfo | undefined => table[src];
+
+// ---------- format support ----------
+// 1×1 probes; the first that decodes wins. `undefined` while still probing.
+const PROBES: [ImageFormat, string][] = [
+  ["avif", "data:image/avif;base64,AAAAHGZ0eXBhdmlmAAAAAG1pZjFhdmlmbWlhZgAAANZtZXRhAAAAAAAAACFoZGxyAAAAAAAAAABwaWN0AAAAAAAAAAAAAAAAAAAAAA5waXRtAAAAAAABAAAAImlsb2MAAAAAREAAAQABAAAAAAD6AAEAAAAAAAAAFwAAACNpaW5mAAAAAAABAAAAFWluZmUCAAAAAAEAAGF2MDEAAAAAVmlwcnAAAAA4aXBjbwAAAAxhdjFDgSACAAAAABRpc3BlAAAAAAAAAAEAAAABAAAAEHBpeGkAAAAAAwgICAAAABZpcG1hAAAAAAAAAAEAAQOBAgMAAAAfbWRhdBIACgc4AA5QENBpMgocgAAAQAAAsBNy"],
+  ["webp", "data:image/webp;base64,UklGRiQAAABXRUJQVlA4IBgAAAAwAQCdASoBAAEAB0CWJaQAA3AA/u+5AAA="],
+];
+
+let detected: ImageFormat | null | undefined;
+
+const decodes = (url: string) => {
+  const img = new Image();
+  img.src = url;
+  return img.decode().then(() => true, () => false);
+};
+
+const formatReady: Promise<ImageFormat | null> = (async () => {
+  if (typeof Image === "undefined") return (detected = null);
+  for (const [format, url] of PROBES) if (await decodes(url)) return (detected = format);
+  return (detected = null);
+})();
+
+// ---------- choosing ----------
+/** Device pixels needed across for `info` to cover `box` (the SVG slices to fill), at `zoom`. */
+const pixelsToCover = (info: ImageInfo, box: Box, zoom: number) =>
+  Math.max(box.width, box.height * (info.width / info.height)) * zoom * (window.devicePixelRatio || 1);
+
+const widthFor = (info: ImageInfo, pixels: number) => {
+  const widths = info.variants.webp.map(([w]) => w);
+  return widths.find((w) => w >= pixels) ?? widths[widths.length - 1];
+};
+
+const urlAt = (info: ImageInfo, format: ImageFormat, width: number) =>
+  info.variants[format].find(([w]) => w === width)?.[1];
+
+/**
+ * URL to load for `src` shown in `box`. The original when there are no variants or no
+ * supported format; null while format support is still being probed.
+ */
+export function variantFor(src: string, box: Box, zoom = 1): string | null {
+  const info = imageInfo(src);
+  if (!info || detected === null) return src;
+  if (detected === undefined) return null;
+  return urlAt(info, detected, widthFor(info, pixelsToCover(info, box, zoom))) ?? src;
+}
+
+/** Every file `src` may be shown from on this browser, for saving offline. */
+export function imageUrls(src: string): string[] {
+  const info = imageInfo(src);
+  if (!info) return [src];
+  const formats = detected ? [detected] : detected === null ? [] : (Object.keys(info.variants) as ImageFormat[]);
+  return [src, ...formats.flatMap((f) => info.variants[f].map(([, url]) => url))];
+}
+
+/** Starts downloading `srcs` at the size they'd be shown in `box`, so they appear at once. */
+export function preloadImages(srcs: string[], box: Box, zoom = 1) {
+  for (const src of srcs) {
+    const url = variantFor(src, box, zoom);
+    if (url) new Image().src = url;
+  }
+}
+
+/** Content-box size of the element behind `ref`, following resizes; null until measured. */
+export function useElementSize(ref: RefObject<HTMLElement | null>): Box | null {
+  const [size, setSize] = useState<Box | null>(null);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const ro = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width && height) setSize((prev) => (prev?.width === width && prev.height === height ? prev : { width, height }));
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [ref]);
+  return size;
+}
+
+/** Natural size of `src`: from the pipeline's table, else read off the loaded image. */
+export function useImageSize(src: string): Box | null {
+  const info = imageInfo(src);
+  const [loaded, setLoaded] = useState<{ src: string; size: Box } | null>(null);
+  useEffect(() => {
+    if (info) return;
+    let alive = true;
+    const img = new Image();
+    img.onload = () => { if (alive) setLoaded({ src, size: { width: img.naturalWidth, height: img.naturalHeight } }); };
+    img.src = src;
+    return () => { alive = false; };
+  }, [src, info]);
+  if (info) return { width: info.width, height: info.height };
+  return loaded?.src === src ? loaded.size : null;
+}
+
+/**
+ * Variant of `src` for showing it in `box`. It only ever steps up: after a shrink the
+ * sharper file already loaded is kept.
+ */
+export function useResponsiveImage(src: string, box: Box | null, zoom = 1) {
+  const info = imageInfo(src);
+  const [format, setFormat] = useState(detected);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (format !== undefined) return;
+    let alive = true;
+    formatReady.then((f) => { if (alive) setFormat(f); });
+    return () => { alive = false; };
+  }, [format]);
+
+  const needed = info && box ? widthFor(info, pixelsToCover(info, box, zoom)) : 0;
+  if (needed > width) setWidth(needed);
+
+  let href: string | null = src;
+  if (info && format) href = Math.max(width, needed) ? urlAt(info, format, Math.max(width, needed)) ?? src : null;
+  else if (info && format === undefined) href = null;
+  return { href, placeholder: info?.placeholder };
+}
@@ -0,0 +1,45 @@
+/**
+ * Keyboard map
+ * One place for the global shortcuts, so the slideshow and the audio bar never fight
+ * over a key:
+ *
+ *   Slides  PageDown / .  next      PageUp / ,  previous
+ *           Home  first             End  last            K  play/pause slideshow
+ *   Audio   Space  play/pause       ← / →  seek 10s      ↑ / ↓  volume
+ *           M  mute                 N / P  next/previous track
+ */
+
+export type SlideAction = "next" | "prev" | "first" | "last" | "toggle";
+
+const SLIDE_KEYS: Record<string, SlideAction> = {
+  PageDown: "next",
+  ".": "next",
+  PageUp: "prev",
+  ",": "prev",
+  Home: "first",
+  End: "last",
+  k: "toggle",
+};
+
+export const slideAction = (e: KeyboardEvent): SlideAction | undefined =>
+  SLIDE_KEYS[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+
+/** Key labels for tooltips, e.g. `(PageDown / .)`. */
+export const SLIDE_KEY_HINTS: Record<SlideAction, string> = {
+  next: "PageDown / .",
+  prev: "PageUp / ,",
+  first: "Home",
+  last: "End",
+  toggle: "K",
+};
+
+/**
+ * True when a shortcut should be left alone: modifier chords, or typing in a field
+ * (e.g. "m" or "," inside the card creator).
+ */
+export function ignoreShortcut(e: KeyboardEvent): boolean {
+  if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return true;
+  const el = e.target as HTMLElement | null;
+  if (!el || !(el instanceof HTMLElement)) return false;
+  return el.isContentEditable || el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT";
+}
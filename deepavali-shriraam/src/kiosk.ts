@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+
+/**
+ * Kiosk mode
+ * For an unattended screen (`?kiosk`): goes fullscreen and holds a screen Wake Lock so
+ * the TV never dims. Browsers only allow fullscreen after a user gesture, so a refused
+ * request is retried on the first tap or key press; the wake lock, which the browser
+ * drops whenever the tab is hidden, is re-acquired when it becomes visible again.
+ */
+export function useKiosk(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    let lock: WakeLockSentinel | null = null;
+    let disposed = false;
+
+    const keepAwake = async () => {
+      if (!("wakeLock" in navigator) || document.hidden || (lock && !lock.released)) return;
+      try {
+        const l = await navigator.wakeLock.request("screen");
+        if (disposed) l.release().catch(() => {});
+        else lock = l;
+      } catch { /* denied (battery saver, no permission): the show still runs */ }
+    };
+
+    const goFullscreen = () => {
+      if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+      document.documentElement.requestFullscreen().catch(() => {
+        window.addEventListener("pointerdown", goFullscreen, { once: true });
+        window.addEventListener("keydown", goFullscreen, { once: true });
+      });
+    };
+
+    const onVisibility = () => { if (!document.hidden) keepAwake(); };
+    document.addEventListener("visibilitychange", onVisibility);
+    keepAwake();
+    goFullscreen();
+
+    return () => {
+      disposed = true;
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("pointerdown", goFullscreen);
+      window.removeEventListener("keydown", goFullscreen);
+      lock?.release().catch(() => {});
+    };
+  }, [enabled]);
+}
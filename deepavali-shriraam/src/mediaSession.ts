@@ -0,0 +1,127 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Media session
+ * The music outside the page: metadata and transport handlers for the system's media
+ * controls (lock screen, notification shade, headset and keyboard media keys), what the
+ * music does while the tab is hidden, and the sleep timer's fade-out. Browsers without
+ * `navigator.mediaSession` simply get no system controls.
+ */
+
+/** What the music does while the tab is hidden: carry on, pause until it's back, or play quietly. */
+export type BackgroundAudio = "play" | "pause" | "duck";
+
+export const BACKGROUND_AUDIO_MODES: BackgroundAudio[] = ["play", "pause", "duck"];
+
+/** Share of the chosen volume kept while ducked. */
+export const DUCK_LEVEL = 0.25;
+
+/** Minutes until the music stops, or `"track"` to stop when the current track ends. */
+export type SleepTimer = "off" | number | "track";
+
+export const SLEEP_TIMERS: SleepTimer[] = ["off", 15, 30, 60, "track"];
+
+const BACKGROUND_KEY = "deepavali.backgroundAudio";
+
+export function readBackgroundAudio(): BackgroundAudio {
+  let stored: string | null = null;
+  try { stored = localStorage.getItem(BACKGROUND_KEY); } catch { /* private mode */ }
+  return BACKGROUND_AUDIO_MODES.find((m) => m === stored) ?? "play";
+}
+
+export function storeBackgroundAudio(mode: BackgroundAudio) {
+  try { localStorage.setItem(BACKGROUND_KEY, mode); } catch { /* private mode */ }
+}
+
+/**
+ * Lowers `audio`'s volume to zero over `ms`. Runs on timers rather than animation frames,
+ * which stop in a hidden tab, where a sleep timer usually ends.
+ */
+export function fadeOut(audio: HTMLAudioElement, ms: number): Promise<void> {
+  const from = audio.volume;
+  const start = performance.now();
+  return new Promise((resolve) => {
+    const id = window.setInterval(() => {
+      const f = Math.min(1, (performance.now() - start) / ms);
+      audio.volume = from * (1 - f);
+      if (f >= 1) { window.clearInterval(id); resolve(); }
+    }, 100);
+  });
+}
+
+export type MediaInfo = {
+  title: string;
+  artist?: string;
+  /** Picture for the lock screen and notification, e.g. the current slide. */
+  artwork?: string;
+  playing: boolean;
+  /** Seconds; NaN while unknown. */
+  position: number;
+  duration: number;
+};
+
+/** `next`/`prev` are left out when there's nothing to step through, which hides those buttons. */
+export type MediaActions = {
+  play: () => void;
+  pause: () => void;
+  seekBy: (deltaSec: number) => void;
+  seekTo: (sec: number) => void;
+  next?: () => void;
+  prev?: () => void;
+};
+
+const SEEK_STEP = 10;
+
+/** Registers `info` and `actions` with the Media Session while mounted. */
+export function useMediaSession(info: MediaInfo | null, actions: MediaActions) {
+  const session = "mediaSession" in navigator ? navigator.mediaSession : null;
+  const latest = useRef(actions);
+  useEffect(() => { latest.current = actions; });
+
+  const { title, artist, artwork, playing, position, duration } = info ?? {};
+  useEffect(() => {
+    if (!session || title === undefined) return;
+    session.metadata = new MediaMetadata({
+      title,
+      artist: artist ?? "",
+      album: document.title,
+      artwork: artwork ? [{ src: new URL(artwork, window.location.href).href }] : [],
+    });
+  }, [session, title, artist, artwork]);
+
+  useEffect(() => {
+    if (session && playing !== undefined) session.playbackState = playing ? "playing" : "paused";
+  }, [session, playing]);
+
+  useEffect(() => {
+    if (!session?.setPositionState || duration === undefined || position === undefined) return;
+    if (!isFinite(duration) || !isFinite(position)) return;
+    try {
+      session.setPositionState({ duration, position: Math.min(position, duration), playbackRate: 1 });
+    } catch { /* rejected mid track change */ }
+  }, [session, position, duration]);
+
+  const hasNext = Boolean(actions.next);
+  const hasPrev = Boolean(actions.prev);
+  useEffect(() => {
+    if (!session) return;
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler | null]> = [
+      ["play", () => latest.current.play()],
+      ["pause", () => latest.current.pause()],
+      ["seekbackward", (d) => latest.current.seekBy(-(d.seekOffset ?? SEEK_STEP))],
+      ["seekforward", (d) => latest.current.seekBy(d.seekOffset ?? SEEK_STEP)],
+      ["seekto", (d) => { if (d.seekTime !== undefined) latest.current.seekTo(d.seekTime); }],
+      ["nexttrack", hasNext ? () => latest.current.next?.() : null],
+      ["previoustrack", hasPrev ? () => latest.current.prev?.() : null],
+    ];
+    const set = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      try { session.setActionHandler(action, handler); } catch { /* action not supported here */ }
+    };
+    for (const [action, handler] of handlers) set(action, handler);
+    return () => { for (const [action] of handlers) set(action, null); };
+  }, [session, hasNext, hasPrev]);
+
+  useEffect(() => () => {
+    if (session) { session.metadata = null; session.playbackState = "none"; }
+  }, [session]);
+}
@@ -0,0 +1,1662 @@
+/**
+ * UI strings
+ * English is the reference table; every other locale translates every key, which the
+ * `Messages` type checks. `{name}` placeholders are filled in by `t()` (see i18n.ts).
+ */
+
+export const EN = {
+  // audio bar
+  play: "Play",
+  pause: "Pause",
+  playAudio: "Play audio",
+  pauseAudio: "Pause audio",
+  back10: "Back 10 seconds",
+  back10Short: "Back 10s",
+  forward10: "Forward 10 seconds",
+  forward10Short: "Forward 10s",
+  prevTrack: "Previous track",
+  nextTrack: "Next track",
+  mute: "Mute",
+  unmute: "Unmute",
+  vol: "Vol",
+  volume: "Volume",
+  shuffle: "Shuffle",
+  repeatMode: "Repeat mode",
+  repeatAll: "All",
+  repeatOne: "One",
+  repeatOff: "Off",
+  repeatLabel: "Repeat: {mode}",
+  beat: "Beat",
+  beatLabel: "Sync effects to the music",
+  beatTitle: "Beat mode: effects follow the music",
+  waveform: "Waveform",
+  showWaveform: "Show waveform",
+  backgroundAudio: "Music while this tab is hidden",
+  backgroundPlay: "Hidden tab: keep playing",
+  backgroundPause: "Hidden tab: pause",
+  backgroundDuck: "Hidden tab: quieter",
+  sleepTimer: "Sleep timer",
+  sleepOff: "Sleep: off",
+  sleepMinutes: "Sleep: {n} min",
+  sleepTrack: "Sleep: end of track",
+  sleepLeft: "Music stops in {time}",
+  seek: "Seek",
+  timeOf: "{curr} of {dur}",
+  // showcase
+  goToSlide: "Go to slide {n}",
+  goToMessage: "Go to message",
+  slideshow: "Deepavali slideshow",
+  slideOf: "Slide {n} of {total}",
+  chooseSlide: "Choose a slide",
+  personalMessage: "Your personal message",
+  previous: "Previous",
+  next: "Next",
+  dear: "Dear {name},",
+  withLove: "— with love, {name}",
+  endMessage: "May the light of the diyas fill your home with joy, health and prosperity. Happy Deepavali!",
+  builtWith: "Built using React + TypeScript (image FX)",
+  // language
+  language: "Language",
+  pinGreeting: "Stop rotating the greeting (keep my language)",
+  // card creator
+  createCard: "Create your card",
+  createCardTitle: "Create a personalised card link",
+  to: "To",
+  from: "From",
+  message: "Message",
+  toPlaceholder: "Amma",
+  fromPlaceholder: "Your name",
+  messagePlaceholder: "Wishing you light, joy and prosperity…",
+  cardLink: "Card link",
+  copyLink: "Copy link",
+  copied: "Copied ✓",
+  copyFailed: "Couldn't copy; select the link above and copy it manually.",
+  // export
+  export: "Export",
+  exportTitle: "Export video or image",
+  format: "Format",
+  size: "Size",
+  frameRate: "Frame rate",
+  includeMusic: "Include music",
+  exportVideo: "Video – whole deck (WebM)",
+  exportPng: "Image – this slide (PNG)",
+  exportGif: "Image – this slide (GIF)",
+  exportDuration: "Takes about {s}s; keep this tab open.",
+  cancel: "Cancel",
+  // deck problems
+  deckProblems: "Slide deck {url}: {count} problem(s)",
+  dismissDeckProblems: "Dismiss deck problems",
+  // presenter
+  openPresenter: "Presenter",
+  openPresenterTitle: "Open the presenter view in a new window",
+  presenterTitle: "Presenter view",
+  waitingForDisplay: "Waiting for the show… open it in another tab or window of this browser.",
+  currentSlide: "Now: slide {n} of {total}",
+  nextSlide: "Next",
+  notes: "Notes",
+  noNotes: "No notes for this slide.",
+  elapsed: "Elapsed",
+  onSlide: "On this slide",
+  pauseAutoplay: "Pause autoplay",
+  resumeAutoplay: "Resume autoplay",
+  music: "Music",
+  nothingPlaying: "Nothing playing",
+  // offline
+  offlineSaving: "Saving for offline {done}/{total}",
+  offlineReady: "Available offline",
+  offlineMissing: "{failed} files not saved for offline",
+  offlineNow: "Offline",
+  updateReady: "Update",
+  updateReadyTitle: "A new version of the show is ready; reload to use it",
+  install: "Install",
+  installTitle: "Add the show to your home screen",
+  // focal point tool
+  focalTool: "Focal point",
+  focalToolTitle: "Choose how each picture is cropped and copy its slide config",
+  focalHelp: "Click the part of the picture that must always stay in view.",
+  focalPickImage: "Slide picture; click to set the focal point",
+  fit: "Fit",
+  fitCover: "Fill (crop)",
+  fitContain: "Whole picture",
+  fitBlur: "Whole, blurred edges",
+  slideConfig: "Slide config",
+  copyConfig: "Copy slide config",
+  copyConfigFailed: "Couldn't copy; select the config above and copy it manually.",
+  close: "Close",
+  // deck editor
+  openEditor: "Edit deck",
+  openEditorTitle: "Build and edit slide decks in the browser",
+  editorTitle: "Deck editor",
+  editorSaved: "Saved in this browser",
+  addPictures: "Add pictures",
+  importDeck: "Import",
+  importDeckTitle: "Open a deck JSON file",
+  importFailed: "{name} is not a deck file: {error}",
+  exportDeck: "Export",
+  exportDeckTitle: "Download this deck as a JSON file the show can load",
+  playDeck: "Play",
+  playDeckTitle: "Show this deck",
+  backToShow: "Back to show",
+  editorEmpty: "Add pictures to start a deck.",
+  deckSlides: "Slides",
+  secondsPerSlide: "Seconds per slide",
+  theme: "Theme",
+  moveUp: "Move up",
+  moveDown: "Move down",
+  removeSlide: "Remove slide",
+  caption: "Caption",
+  altText: "Alt text",
+  transition: "Transition",
+  kenBurns: "Slow pan and zoom",
+  effects: "Effects",
+  resetOption: "Reset {name} to its default",
+  fireworkPoints: "Firework points",
+  fireworkPoint: "Firework {n}; drag or use the arrow keys to move",
+  addFirework: "Add firework",
+  removeFirework: "Remove firework {n}",
+  fireworkDelay: "Delay (s)",
+  particleLayers: "Particle layers",
+  particlesReplace: "Particle layers replace the embers and firework points.",
+  addLayer: "Add layer",
+  removeLayer: "Remove layer {n}",
+  // countdown
+  countdownTo: "Countdown to {name}",
+  countdownAt: "{time}, your time",
+  countdownStarted: "{name} has begun!",
+  countdownCustom: "the celebration",
+  unitDays: "days",
+  unitHours: "hrs",
+  unitMinutes: "min",
+  unitSeconds: "sec",
+  dhanteras: "Dhanteras",
+  narakaChaturdashi: "Naraka Chaturdashi",
+  lakshmiPuja: "Lakshmi Puja",
+  govardhanPuja: "Govardhan Puja",
+  bhaiDooj: "Bhai Dooj",
+  // sharing
+  share: "Share",
+  shareTitle: "Share a link to this slide",
+  linkCopied: "Link copied ✓",
+  shareCopyFailed: "Couldn't copy the link",
+};
+
+export type MessageKey = keyof typeof EN;
+export type Messages = Record<MessageKey, string>;
+
+const HI: Messages = {
+  play: "चलाएँ",
+  pause: "रोकें",
+  playAudio: "संगीत चलाएँ",
+  pauseAudio: "संगीत रोकें",
+  back10: "10 सेकंड पीछे",
+  back10Short: "10 से. पीछे",
+  forward10: "10 सेकंड आगे",
+  forward10Short: "10 से. आगे",
+  prevTrack: "पिछला गीत",
+  nextTrack: "अगला गीत",
+  mute: "आवाज़ बंद",
+  unmute: "आवाज़ चालू",
+  vol: "आवाज़",
+  volume: "आवाज़ का स्तर",
+  shuffle: "क्रम बदलें",
+  repeatMode: "दोहराव",
+  repeatAll: "सभी",
+  repeatOne: "एक",
+  repeatOff: "बंद",
+  repeatLabel: "दोहराव: {mode}",
+  beat: "ताल",
+  beatLabel: "प्रभावों को संगीत की ताल से जोड़ें",
+  beatTitle: "ताल मोड: प्रभाव संगीत के साथ चलते हैं",
+  waveform: "तरंग",
+  showWaveform: "तरंग दिखाएँ",
+  backgroundAudio: "टैब छिपा होने पर संगीत",
+  backgroundPlay: "छिपा टैब: बजता रहे",
+  backgroundPause: "छिपा टैब: रोकें",
+  backgroundDuck: "छिपा टैब: धीमा",
+  sleepTimer: "स्लीप टाइमर",
+  sleepOff: "स्लीप: बंद",
+  sleepMinutes: "स्लीप: {n} मिनट",
+  sleepTrack: "स्लीप: ट्रैक के अंत में",
+  sleepLeft: "संगीत {time} में रुकेगा",
+  seek: "समय चुनें",
+  timeOf: "{dur} में से {curr}",
+  goToSlide: "स्लाइड {n} पर जाएँ",
+  goToMessage: "संदेश पर जाएँ",
+  slideshow: "दीपावली स्लाइडशो",
+  slideOf: "स्लाइड {n} / {total}",
+  chooseSlide: "स्लाइड चुनें",
+  personalMessage: "आपका निजी संदेश",
+  previous: "पिछला",
+  next: "अगला",
+  dear: "प्रिय {name},",
+  withLove: "— स्नेह सहित, {name}",
+  endMessage: "दीयों का प्रकाश आपके घर को आनंद, स्वास्थ्य और समृद्धि से भर दे। दीपावली की शुभकामनाएँ!",
+  builtWith: "React + TypeScript से बनाया गया (इमेज FX)",
+  language: "भाषा",
+  pinGreeting: "शुभकामना बदलना रोकें (मेरी भाषा में रखें)",
+  createCard: "अपना कार्ड बनाएँ",
+  createCardTitle: "व्यक्तिगत कार्ड का लिंक बनाएँ",
+  to: "किसे",
+  from: "किसकी ओर से",
+  message: "संदेश",
+  toPlaceholder: "अम्मा",
+  fromPlaceholder: "आपका नाम",
+  messagePlaceholder: "आपको प्रकाश, आनंद और समृद्धि की शुभकामनाएँ…",
+  cardLink: "कार्ड का लिंक",
+  copyLink: "लिंक कॉपी करें",
+  copied: "कॉपी हो गया ✓",
+  copyFailed: "कॉपी नहीं हो सका; ऊपर दिया लिंक चुनकर स्वयं कॉपी करें।",
+  export: "निर्यात",
+  exportTitle: "वीडियो या चित्र निर्यात करें",
+  format: "प्रारूप",
+  size: "आकार",
+  frameRate: "फ़्रेम दर",
+  includeMusic: "संगीत शामिल करें",
+  exportVideo: "वीडियो – पूरा डेक (WebM)",
+  exportPng: "चित्र – यह स्लाइड (PNG)",
+  exportGif: "चित्र – यह स्लाइड (GIF)",
+  exportDuration: "लगभग {s} सेकंड लगेंगे; यह टैब खुला रखें।",
+  cancel: "रद्द करें",
+  deckProblems: "स्लाइड डेक {url}: {count} समस्या(एँ)",
+  dismissDeckProblems: "डेक की समस्याएँ छिपाएँ",
+  openPresenter: "प्रस्तुतकर्ता",
+  openPresenterTitle: "प्रस्तुतकर्ता दृश्य नई विंडो में खोलें",
+  presenterTitle: "प्रस्तुतकर्ता दृश्य",
+  waitingForDisplay: "शो की प्रतीक्षा… इसे इसी ब्राउज़र के दूसरे टैब या विंडो में खोलें।",
+  currentSlide: "अभी: स्लाइड {n} / {total}",
+  nextSlide: "अगली",
+  notes: "टिप्पणियाँ",
+  noNotes: "इस स्लाइड के लिए कोई टिप्पणी नहीं।",
+  elapsed: "बीता समय",
+  onSlide: "इस स्लाइड पर",
+  pauseAutoplay: "स्वतः चलना रोकें",
+  resumeAutoplay: "स्वतः चलना फिर शुरू करें",
+  music: "संगीत",
+  nothingPlaying: "कुछ नहीं चल रहा",
+  offlineSaving: "ऑफ़लाइन के लिए सहेजा जा रहा है {done}/{total}",
+  offlineReady: "ऑफ़लाइन उपलब्ध",
+  offlineMissing: "{failed} फ़ाइलें ऑफ़लाइन के लिए नहीं सहेजी गईं",
+  offlineNow: "ऑफ़लाइन",
+  updateReady: "अपडेट",
+  updateReadyTitle: "शो का नया संस्करण तैयार है; इसे लाने के लिए फिर से लोड करें",
+  install: "इंस्टॉल करें",
+  installTitle: "शो को होम स्क्रीन पर जोड़ें",
+  focalTool: "केंद्र बिंदु",
+  focalToolTitle: "चुनें कि हर चित्र कैसे कटे और उसकी स्लाइड सेटिंग कॉपी करें",
+  focalHelp: "चित्र के उस हिस्से पर क्लिक करें जो हमेशा दिखना चाहिए।",
+  focalPickImage: "स्लाइड का चित्र; केंद्र बिंदु चुनने के लिए क्लिक करें",
+  fit: "फ़िट",
+  fitCover: "भरें (काटें)",
+  fitContain: "पूरा चित्र",
+  fitBlur: "पूरा चित्र, धुंधले किनारे",
+  slideConfig: "स्लाइड सेटिंग",
+  copyConfig: "स्लाइड सेटिंग कॉपी करें",
+  copyConfigFailed: "कॉपी नहीं हो सका; ऊपर दी सेटिंग चुनकर स्वयं कॉपी करें।",
+  close: "बंद करें",
+  openEditor: "डेक संपादित करें",
+  openEditorTitle: "ब्राउज़र में स्लाइड डेक बनाएँ और संपादित करें",
+  editorTitle: "डेक संपादक",
+  editorSaved: "इस ब्राउज़र में सहेजा गया",
+  addPictures: "चित्र जोड़ें",
+  importDeck: "आयात करें",
+  importDeckTitle: "डेक की JSON फ़ाइल खोलें",
+  importFailed: "{name} डेक फ़ाइल नहीं है: {error}",
+  exportDeck: "निर्यात करें",
+  exportDeckTitle: "इस डेक को JSON फ़ाइल के रूप में डाउनलोड करें जिसे शो चला सके",
+  playDeck: "चलाएँ",
+  playDeckTitle: "यह डेक दिखाएँ",
+  backToShow: "शो पर लौटें",
+  editorEmpty: "डेक शुरू करने के लिए चित्र जोड़ें।",
+  deckSlides: "स्लाइड",
+  secondsPerSlide: "प्रति स्लाइड सेकंड",
+  theme: "थीम",
+  moveUp: "ऊपर ले जाएँ",
+  moveDown: "नीचे ले जाएँ",
+  removeSlide: "स्लाइड हटाएँ",
+  caption: "कैप्शन",
+  altText: "वैकल्पिक पाठ",
+  transition: "बदलाव",
+  kenBurns: "धीमा पैन और ज़ूम",
+  effects: "प्रभाव",
+  resetOption: "{name} को डिफ़ॉल्ट पर लौटाएँ",
+  fireworkPoints: "आतिशबाज़ी स्थान",
+  fireworkPoint: "आतिशबाज़ी {n}; खिसकाने के लिए खींचें या तीर कुंजियाँ दबाएँ",
+  addFirework: "आतिशबाज़ी जोड़ें",
+  removeFirework: "आतिशबाज़ी {n} हटाएँ",
+  fireworkDelay: "देरी (से.)",
+  particleLayers: "कण परतें",
+  particlesReplace: "कण परतें अंगारों और आतिशबाज़ी स्थानों की जगह लेती हैं।",
+  addLayer: "परत जोड़ें",
+  removeLayer: "परत {n} हटाएँ",
+  countdownTo: "{name} की उलटी गिनती",
+  countdownAt: "{time}, आपके समय अनुसार",
+  countdownStarted: "{name} का शुभ मुहूर्त आ गया!",
+  countdownCustom: "उत्सव",
+  unitDays: "दिन",
+  unitHours: "घंटे",
+  unitMinutes: "मिनट",
+  unitSeconds: "सेकंड",
+  dhanteras: "धनतेरस",
+  narakaChaturdashi: "नरक चतुर्दशी",
+  lakshmiPuja: "लक्ष्मी पूजा",
+  govardhanPuja: "गोवर्धन पूजा",
+  bhaiDooj: "भाई दूज",
+  share: "साझा करें",
+  shareTitle: "इस स्लाइड का लिंक साझा करें",
+  linkCopied: "लिंक कॉपी हो गया ✓",
+  shareCopyFailed: "लिंक कॉपी नहीं हो सका",
+};
+
+const BN: Messages = {
+  play: "চালান",
+  pause: "থামান",
+  playAudio: "সংগীত চালান",
+  pauseAudio: "সংগীত থামান",
+  back10: "10 সেকেন্ড পিছনে",
+  back10Short: "10 সে. পিছনে",
+  forward10: "10 সেকেন্ড সামনে",
+  forward10Short: "10 সে. সামনে",
+  prevTrack: "আগের গান",
+  nextTrack: "পরের গান",
+  mute: "শব্দ বন্ধ",
+  unmute: "শব্দ চালু",
+  vol: "শব্দ",
+  volume: "শব্দের মাত্রা",
+  shuffle: "এলোমেলো",
+  repeatMode: "পুনরাবৃত্তি",
+  repeatAll: "সব",
+  repeatOne: "একটি",
+  repeatOff: "বন্ধ",
+  repeatLabel: "পুনরাবৃত্তি: {mode}",
+  beat: "তাল",
+  beatLabel: "এফেক্টগুলিকে সংগীতের তালে মেলান",
+  beatTitle: "তাল মোড: এফেক্ট সংগীতের সঙ্গে চলে",
+  waveform: "তরঙ্গ",
+  showWaveform: "তরঙ্গ দেখান",
+  backgroundAudio: "ট্যাব লুকোনো থাকলে সংগীত",
+  backgroundPlay: "লুকোনো ট্যাব: বাজতে থাকুক",
+  backgroundPause: "লুকোনো ট্যাব: থামান",
+  backgroundDuck: "লুকোনো ট্যাব: আস্তে",
+  sleepTimer: "স্লিপ টাইমার",
+  sleepOff: "স্লিপ: বন্ধ",
+  sleepMinutes: "স্লিপ: {n} মিনিট",
+  sleepTrack: "স্লিপ: গান শেষ হলে",
+  sleepLeft: "সংগীত {time} পরে থামবে",
+  seek: "সময় বেছে নিন",
+  timeOf: "{dur}-এর মধ্যে {curr}",
+  goToSlide: "স্লাইড {n}-এ যান",
+  goToMessage: "বার্তায় যান",
+  slideshow: "দীপাবলি স্লাইডশো",
+  slideOf: "স্লাইড {n} / {total}",
+  chooseSlide: "একটি স্লাইড বেছে নিন",
+  personalMessage: "আপনার ব্যক্তিগত বার্তা",
+  previous: "আগের",
+  next: "পরের",
+  dear: "প্রিয় {name},",
+  withLove: "— ভালোবাসা সহ, {name}",
+  endMessage: "প্রদীপের আলো আপনার ঘর আনন্দ, সুস্বাস্থ্য ও সমৃদ্ধিতে ভরিয়ে তুলুক। শুভ দীপাবলি!",
+  builtWith: "React + TypeScript দিয়ে তৈরি (ইমেজ FX)",
+  language: "ভাষা",
+  pinGreeting: "শুভেচ্ছা বদলানো বন্ধ করুন (আমার ভাষায় রাখুন)",
+  createCard: "আপনার কার্ড তৈরি করুন",
+  createCardTitle: "ব্যক্তিগত কার্ডের লিঙ্ক তৈরি করুন",
+  to: "প্রাপক",
+  from: "প্রেরক",
+  message: "বার্তা",
+  toPlaceholder: "মা",
+  fromPlaceholder: "আপনার নাম",
+  messagePlaceholder: "আপনাকে আলো, আনন্দ আর সমৃদ্ধির শুভেচ্ছা…",
+  cardLink: "কার্ডের লিঙ্ক",
+  copyLink: "লিঙ্ক কপি করুন",
+  copied: "কপি হয়েছে ✓",
+  copyFailed: "কপি করা গেল না; উপরের লিঙ্কটি বেছে নিজে কপি করুন।",
+  export: "এক্সপোর্ট",
+  exportTitle: "ভিডিও বা ছবি এক্সপোর্ট করুন",
+  format: "ফরম্যাট",
+  size: "আকার",
+  frameRate: "ফ্রেম রেট",
+  includeMusic: "সংগীত যোগ করুন",
+  exportVideo: "ভিডিও – পুরো ডেক (WebM)",
+  exportPng: "ছবি – এই স্লাইড (PNG)",
+  exportGif: "ছবি – এই স্লাইড (GIF)",
+  exportDuration: "প্রায় {s} সেকেন্ড লাগবে; এই ট্যাবটি খোলা রাখুন।",
+  cancel: "বাতিল",
+  deckProblems: "স্লাইড ডেক {url}: {count}টি সমস্যা",
+  dismissDeckProblems: "ডেকের সমস্যা লুকান",
+  openPresenter: "উপস্থাপক",
+  openPresenterTitle: "নতুন উইন্ডোতে উপস্থাপক ভিউ খুলুন",
+  presenterTitle: "উপস্থাপক ভিউ",
+  waitingForDisplay: "শো-এর অপেক্ষায়… এই ব্রাউজারের অন্য ট্যাব বা উইন্ডোতে এটি খুলুন।",
+  currentSlide: "এখন: স্লাইড {n} / {total}",
+  nextSlide: "পরের",
+  notes: "নোট",
+  noNotes: "এই স্লাইডের কোনো নোট নেই।",
+  elapsed: "অতিক্রান্ত সময়",
+  onSlide: "এই স্লাইডে",
+  pauseAutoplay: "স্বয়ংক্রিয় চালানো থামান",
+  resumeAutoplay: "স্বয়ংক্রিয় চালানো আবার শুরু করুন",
+  music: "সংগীত",
+  nothingPlaying: "কিছু বাজছে না",
+  offlineSaving: "অফলাইনের জন্য সংরক্ষণ হচ্ছে {done}/{total}",
+  offlineReady: "অফলাইনে উপলব্ধ",
+  offlineMissing: "{failed}টি ফাইল অফলাইনের জন্য সংরক্ষিত হয়নি",
+  offlineNow: "অফলাইন",
+  updateReady: "আপডেট",
+  updateReadyTitle: "শো-এর নতুন সংস্করণ তৈরি; ব্যবহার করতে আবার লোড করুন",
+  install: "ইনস্টল করুন",
+  installTitle: "শো-টি হোম স্ক্রিনে যোগ করুন",
+  focalTool: "কেন্দ্রবিন্দু",
+  focalToolTitle: "প্রতিটি ছবি কীভাবে কাটা হবে বেছে নিন এবং তার স্লাইড সেটিং কপি করুন",
+  focalHelp: "ছবির যে অংশ সবসময় দেখা যাওয়া উচিত সেখানে ক্লিক করুন।",
+  focalPickImage: "স্লাইডের ছবি; কেন্দ্রবিন্দু ঠিক করতে ক্লিক করুন",
+  fit: "মাপ",
+  fitCover: "ভরাট (কাটা)",
+  fitContain: "পুরো ছবি",
+  fitBlur: "পুরো ছবি, ঝাপসা কিনারা",
+  slideConfig: "স্লাইড সেটিং",
+  copyConfig: "স্লাইড সেটিং কপি করুন",
+  copyConfigFailed: "কপি করা গেল না; উপরের সেটিং বেছে নিজে কপি করুন।",
+  close: "বন্ধ করুন",
+  openEditor: "ডেক সম্পাদনা",
+  openEditorTitle: "ব্রাউজারেই স্লাইড ডেক তৈরি ও সম্পাদনা করুন",
+  editorTitle: "ডেক সম্পাদক",
+  editorSaved: "এই ব্রাউজারে সংরক্ষিত",
+  addPictures: "ছবি যোগ করুন",
+  importDeck: "ইমপোর্ট",
+  importDeckTitle: "ডেকের JSON ফাইল খুলুন",
+  importFailed: "{name} ডেক ফাইল নয়: {error}",
+  exportDeck: "এক্সপোর্ট",
+  exportDeckTitle: "এই ডেকটি JSON ফাইল হিসেবে ডাউনলোড করুন, যা শো চালাতে পারে",
+  playDeck: "চালান",
+  playDeckTitle: "এই ডেকটি দেখান",
+  backToShow: "শো-তে ফিরুন",
+  editorEmpty: "ডেক শুরু করতে ছবি যোগ করুন।",
+  deckSlides: "স্লাইড",
+  secondsPerSlide: "প্রতি স্লাইডে সেকেন্ড",
+  theme: "থিম",
+  moveUp: "উপরে সরান",
+  moveDown: "নিচে সরান",
+  removeSlide: "স্লাইড সরান",
+  caption: "ক্যাপশন",
+  altText: "বিকল্প লেখা",
+  transition: "রূপান্তর",
+  kenBurns: "ধীর প্যান ও জুম",
+  effects: "এফেক্ট",
+  resetOption: "{name} ডিফল্টে ফেরান",
+  fireworkPoints: "আতশবাজির জায়গা",
+  fireworkPoint: "আতশবাজি {n}; সরাতে টেনে আনুন বা তীর কী ব্যবহার করুন",
+  addFirework: "আতশবাজি যোগ করুন",
+  removeFirework: "আতশবাজি {n} সরান",
+  fireworkDelay: "দেরি (সে.)",
+  particleLayers: "কণার স্তর",
+  particlesReplace: "কণার স্তর অঙ্গার ও আতশবাজির জায়গার বদলে আসে।",
+  addLayer: "স্তর যোগ করুন",
+  removeLayer: "স্তর {n} সরান",
+  countdownTo: "{name}-এর কাউন্টডাউন",
+  countdownAt: "{time}, আপনার সময়ে",
+  countdownStarted: "{name} শুরু হয়েছে!",
+  countdownCustom: "উৎসব",
+  unitDays: "দিন",
+  unitHours: "ঘণ্টা",
+  unitMinutes: "মিনিট",
+  unitSeconds: "সেকেন্ড",
+  dhanteras: "ধনতেরাস",
+  narakaChaturdashi: "নরক চতুর্দশী",
+  lakshmiPuja: "লক্ষ্মী পূজা",
+  govardhanPuja: "গোবর্ধন পূজা",
+  bhaiDooj: "ভাইফোঁটা",
+  share: "শেয়ার",
+  shareTitle: "এই স্লাইডের লিঙ্ক শেয়ার করুন",
+  linkCopied: "লিঙ্ক কপি হয়েছে ✓",
+  shareCopyFailed: "লিঙ্ক কপি করা গেল না",
+};
+
+const GU: Messages = {
+  play: "ચલાવો",
+  pause: "થોભો",
+  playAudio: "સંગીત ચલાવો",
+  pauseAudio: "સંગીત થોભો",
+  back10: "10 સેકન્ડ પાછળ",
+  back10Short: "10 સે. પાછળ",
+  forward10: "10 સેકન્ડ આગળ",
+  forward10Short: "10 સે. આગળ",
+  prevTrack: "પાછલું ગીત",
+  nextTrack: "આગલું ગીત",
+  mute: "અવાજ બંધ",
+  unmute: "અવાજ ચાલુ",
+  vol: "અવાજ",
+  volume: "અવાજનું સ્તર",
+  shuffle: "ક્રમ બદલો",
+  repeatMode: "પુનરાવર્તન",
+  repeatAll: "બધાં",
+  repeatOne: "એક",
+  repeatOff: "બંધ",
+  repeatLabel: "પુનરાવર્તન: {mode}",
+  beat: "તાલ",
+  beatLabel: "ઇફેક્ટ્સને સંગીતના તાલ સાથે જોડો",
+  beatTitle: "તાલ મોડ: ઇફેક્ટ્સ સંગીત સાથે ચાલે છે",
+  waveform: "તરંગ",
+  showWaveform: "તરંગ બતાવો",
+  backgroundAudio: "ટેબ છુપાયેલું હોય ત્યારે સંગીત",
+  backgroundPlay: "છુપાયેલું ટેબ: વાગતું રહે",
+  backgroundPause: "છુપાયેલું ટેબ: થોભો",
+  backgroundDuck: "છુપાયેલું ટેબ: ધીમું",
+  sleepTimer: "સ્લીપ ટાઇમર",
+  sleepOff: "સ્લીપ: બંધ",
+  sleepMinutes: "સ્લીપ: {n} મિનિટ",
+  sleepTrack: "સ્લીપ: ગીત પૂરું થાય ત્યારે",
+  sleepLeft: "સંગીત {time} પછી અટકશે",
+  seek: "સમય પસંદ કરો",
+  timeOf: "{dur} માંથી {curr}",
+  goToSlide: "સ્લાઇડ {n} પર જાઓ",
+  goToMessage: "સંદેશ પર જાઓ",
+  slideshow: "દીપાવલી સ્લાઇડશો",
+  slideOf: "સ્લાઇડ {n} / {total}",
+  chooseSlide: "સ્લાઇડ પસંદ કરો",
+  personalMessage: "તમારો અંગત સંદેશ",
+  previous: "પાછલું",
+  next: "આગલું",
+  dear: "પ્રિય {name},",
+  withLove: "— સ્નેહ સાથે, {name}",
+  endMessage: "દીવાઓનો પ્રકાશ તમારા ઘરને આનંદ, આરોગ્ય અને સમૃદ્ધિથી ભરી દે. દીપાવલીની શુભેચ્છાઓ!",
+  builtWith: "React + TypeScript વડે બનાવેલ (ઇમેજ FX)",
+  language: "ભાષા",
+  pinGreeting: "શુભેચ્છા બદલવાનું બંધ કરો (મારી ભાષામાં રાખો)",
+  createCard: "તમારું કાર્ડ બનાવો",
+  createCardTitle: "વ્યક્તિગત કાર્ડની લિંક બનાવો",
+  to: "કોને",
+  from: "કોના તરફથી",
+  message: "સંદેશ",
+  toPlaceholder: "બા",
+  fromPlaceholder: "તમારું નામ",
+  messagePlaceholder: "તમને પ્રકાશ, આનંદ અને સમૃદ્ધિની શુભેચ્છાઓ…",
+  cardLink: "કાર્ડની લિંક",
+  copyLink: "લિંક કૉપિ કરો",
+  copied: "કૉપિ થઈ ગયું ✓",
+  copyFailed: "કૉપિ ન થઈ શક્યું; ઉપરની લિંક પસંદ કરીને જાતે કૉપિ કરો.",
+  export: "નિકાસ",
+  exportTitle: "વીડિયો કે ચિત્ર નિકાસ કરો",
+  format: "ફોર્મેટ",
+  size: "કદ",
+  frameRate: "ફ્રેમ દર",
+  includeMusic: "સંગીત સામેલ કરો",
+  exportVideo: "વીડિયો – આખું ડેક (WebM)",
+  exportPng: "ચિત્ર – આ સ્લાઇડ (PNG)",
+  exportGif: "ચિત્ર – આ સ્લાઇડ (GIF)",
+  exportDuration: "આશરે {s} સેકન્ડ લાગશે; આ ટેબ ખુલ્લું રાખો.",
+  cancel: "રદ કરો",
+  deckProblems: "સ્લાઇડ ડેક {url}: {count} સમસ્યા",
+  dismissDeckProblems: "ડેકની સમસ્યાઓ છુપાવો",
+  openPresenter: "પ્રસ્તુતકર્તા",
+  openPresenterTitle: "પ્રસ્તુતકર્તા દૃશ્ય નવી વિન્ડોમાં ખોલો",
+  presenterTitle: "પ્રસ્તુતકર્તા દૃશ્ય",
+  waitingForDisplay: "શોની રાહ… તેને આ જ બ્રાઉઝરના બીજા ટેબ કે વિન્ડોમાં ખોલો.",
+  currentSlide: "હમણાં: સ્લાઇડ {n} / {total}",
+  nextSlide: "આગલી",
+  notes: "નોંધો",
+  noNotes: "આ સ્લાઇડ માટે કોઈ નોંધ નથી.",
+  elapsed: "વીતેલો સમય",
+  onSlide: "આ સ્લાઇડ પર",
+  pauseAutoplay: "આપમેળે ચાલવાનું થોભાવો",
+  resumeAutoplay: "આપમેળે ચાલવાનું ફરી શરૂ કરો",
+  music: "સંગીત",
+  nothingPlaying: "કંઈ વાગતું નથી",
+  offlineSaving: "ઑફલાઇન માટે સાચવી રહ્યા છીએ {done}/{total}",
+  offlineReady: "ઑફલાઇન ઉપલબ્ધ",
+  offlineMissing: "{failed} ફાઇલો ઑફલાઇન માટે સાચવી નથી",
+  offlineNow: "ઑફલાઇન",
+  updateReady: "અપડેટ",
+  updateReadyTitle: "શોનું નવું સંસ્કરણ તૈયાર છે; વાપરવા માટે ફરી લોડ કરો",
+  install: "ઇન્સ્ટોલ કરો",
+  installTitle: "શોને હોમ સ્ક્રીન પર ઉમેરો",
+  focalTool: "કેન્દ્રબિંદુ",
+  focalToolTitle: "દરેક ચિત્ર કેવી રીતે કપાય તે પસંદ કરો અને તેની સ્લાઇડ સેટિંગ કૉપિ કરો",
+  focalHelp: "ચિત્રના જે ભાગ હંમેશા દેખાવો જોઈએ ત્યાં ક્લિક કરો.",
+  focalPickImage: "સ્લાઇડનું ચિત્ર; કેન્દ્રબિંદુ નક્કી કરવા ક્લિક કરો",
+  fit: "ફિટ",
+  fitCover: "ભરો (કાપો)",
+  fitContain: "આખું ચિત્ર",
+  fitBlur: "આખું ચિત્ર, ઝાંખી કિનારીઓ",
+  slideConfig: "સ્લાઇડ સેટિંગ",
+  copyConfig: "સ્લાઇડ સેટિંગ કૉપિ કરો",
+  copyConfigFailed: "કૉપિ ન થઈ શક્યું; ઉપરની સેટિંગ પસંદ કરીને જાતે કૉપિ કરો.",
+  close: "બંધ કરો",
+  openEditor: "ડેક સંપાદિત કરો",
+  openEditorTitle: "બ્રાઉઝરમાં જ સ્લાઇડ ડેક બનાવો અને સંપાદિત કરો",
+  editorTitle: "ડેક સંપાદક",
+  editorSaved: "આ બ્રાઉઝરમાં સાચવ્યું",
+  addPictures: "ચિત્રો ઉમેરો",
+  importDeck: "આયાત કરો",
+  importDeckTitle: "ડેકની JSON ફાઇલ ખોલો",
+  importFailed: "{name} ડેક ફાઇલ નથી: {error}",
+  exportDeck: "નિકાસ કરો",
+  exportDeckTitle: "આ ડેકને JSON ફાઇલ તરીકે ડાઉનલોડ કરો, જે શો ચલાવી શકે",
+  playDeck: "ચલાવો",
+  playDeckTitle: "આ ડેક બતાવો",
+  backToShow: "શો પર પાછા જાઓ",
+  editorEmpty: "ડેક શરૂ કરવા માટે ચિત્રો ઉમેરો.",
+  deckSlides: "સ્લાઇડ્સ",
+  secondsPerSlide: "દરેક સ્લાઇડ માટે સેકન્ડ",
+  theme: "થીમ",
+  moveUp: "ઉપર ખસેડો",
+  moveDown: "નીચે ખસેડો",
+  removeSlide: "સ્લાઇડ દૂર કરો",
+  caption: "કૅપ્શન",
+  altText: "વૈકલ્પિક લખાણ",
+  transition: "બદલાવ",
+  kenBurns: "ધીમું પૅન અને ઝૂમ",
+  effects: "ઇફેક્ટ્સ",
+  resetOption: "{name} ને ડિફૉલ્ટ પર પાછું લાવો",
+  fireworkPoints: "આતશબાજીનાં સ્થાન",
+  fireworkPoint: "આતશબાજી {n}; ખસેડવા ખેંચો અથવા તીર કી વાપરો",
+  addFirework: "આતશબાજી ઉમેરો",
+  removeFirework: "આતશબાજી {n} દૂર કરો",
+  fireworkDelay: "વિલંબ (સે.)",
+  particleLayers: "કણોનાં સ્તર",
+  particlesReplace: "કણોનાં સ્તર તણખા અને આતશબાજીનાં સ્થાનની જગ્યા લે છે.",
+  addLayer: "સ્તર ઉમેરો",
+  removeLayer: "સ્તર {n} દૂર કરો",
+  countdownTo: "{name} માટે ઉલટી ગણતરી",
+  countdownAt: "{time}, તમારા સમય મુજબ",
+  countdownStarted: "{name}નું શુભ મુહૂર્ત આવી ગયું!",
+  countdownCustom: "ઉત્સવ",
+  unitDays: "દિવસ",
+  unitHours: "કલાક",
+  unitMinutes: "મિનિટ",
+  unitSeconds: "સેકન્ડ",
+  dhanteras: "ધનતેરસ",
+  narakaChaturdashi: "કાળી ચૌદસ",
+  lakshmiPuja: "લક્ષ્મી પૂજા",
+  govardhanPuja: "ગોવર્ધન પૂજા",
+  bhaiDooj: "ભાઈબીજ",
+  share: "શેર કરો",
+  shareTitle: "આ સ્લાઇડની લિંક શેર કરો",
+  linkCopied: "લિંક કૉપિ થઈ ગઈ ✓",
+  shareCopyFailed: "લિંક કૉપિ ન થઈ શકી",
+};
+
+const KN: Messages = {
+  play: "ಪ್ಲೇ",
+  pause: "ವಿರಾಮ",
+  playAudio: "ಸಂಗೀತ ಪ್ಲೇ ಮಾಡಿ",
+  pauseAudio: "ಸಂಗೀತ ನಿಲ್ಲಿಸಿ",
+  back10: "10 ಸೆಕೆಂಡ್ ಹಿಂದೆ",
+  back10Short: "10 ಸೆ. ಹಿಂದೆ",
+  forward10: "10 ಸೆಕೆಂಡ್ ಮುಂದೆ",
+  forward10Short: "10 ಸೆ. ಮುಂದೆ",
+  prevTrack: "ಹಿಂದಿನ ಹಾಡು",
+  nextTrack: "ಮುಂದಿನ ಹಾಡು",
+  mute: "ಮ್ಯೂಟ್",
+  unmute: "ಅನ್‌ಮ್ಯೂಟ್",
+  vol: "ಧ್ವನಿ",
+  volume: "ಧ್ವನಿ ಮಟ್ಟ",
+  shuffle: "ಕ್ರಮ ಬದಲಿಸಿ",
+  repeatMode: "ಪುನರಾವರ್ತನೆ",
+  repeatAll: "ಎಲ್ಲ",
+  repeatOne: "ಒಂದು",
+  repeatOff: "ಆಫ್",
+  repeatLabel: "ಪುನರಾವರ್ತನೆ: {mode}",
+  beat: "ತಾಳ",
+  beatLabel: "ಪರಿಣಾಮಗಳನ್ನು ಸಂಗೀತದ ತಾಳಕ್ಕೆ ಹೊಂದಿಸಿ",
+  beatTitle: "ತಾಳ ಮೋಡ್: ಪರಿಣಾಮಗಳು ಸಂಗೀತವನ್ನು ಅನುಸರಿಸುತ್ತವೆ",
+  waveform: "ತರಂಗ",
+  showWaveform: "ತರಂಗ ತೋರಿಸಿ",
+  backgroundAudio: "ಟ್ಯಾಬ್ ಮರೆಯಾಗಿರುವಾಗ ಸಂಗೀತ",
+  backgroundPlay: "ಮರೆಯಾದ ಟ್ಯಾಬ್: ನುಡಿಯುತ್ತಿರಲಿ",
+  backgroundPause: "ಮರೆಯಾದ ಟ್ಯಾಬ್: ವಿರಾಮ",
+  backgroundDuck: "ಮರೆಯಾದ ಟ್ಯಾಬ್: ಮೆಲುವಾಗಿ",
+  sleepTimer: "ಸ್ಲೀಪ್ ಟೈಮರ್",
+  sleepOff: "ಸ್ಲೀಪ್: ಆಫ್",
+  sleepMinutes: "ಸ್ಲೀಪ್: {n} ನಿಮಿಷ",
+  sleepTrack: "ಸ್ಲೀಪ್: ಹಾಡು ಮುಗಿದಾಗ",
+  sleepLeft: "ಸಂಗೀತ {time} ನಂತರ ನಿಲ್ಲುತ್ತದೆ",
+  seek: "ಸಮಯ ಆಯ್ಕೆಮಾಡಿ",
+  timeOf: "{dur} ರಲ್ಲಿ {curr}",
+  goToSlide: "ಸ್ಲೈಡ್ {n} ಗೆ ಹೋಗಿ",
+  goToMessage: "ಸಂದೇಶಕ್ಕೆ ಹೋಗಿ",
+  slideshow: "ದೀಪಾವಳಿ ಸ್ಲೈಡ್‌ಶೋ",
+  slideOf: "ಸ್ಲೈಡ್ {n} / {total}",
+  chooseSlide: "ಸ್ಲೈಡ್ ಆಯ್ಕೆಮಾಡಿ",
+  personalMessage: "ನಿಮ್ಮ ವೈಯಕ್ತಿಕ ಸಂದೇಶ",
+  previous: "ಹಿಂದಿನದು",
+  next: "ಮುಂದಿನದು",
+  dear: "ಪ್ರೀತಿಯ {name},",
+  withLove: "— ಪ್ರೀತಿಯಿಂದ, {name}",
+  endMessage: "ದೀಪಗಳ ಬೆಳಕು ನಿಮ್ಮ ಮನೆಯನ್ನು ಸಂತೋಷ, ಆರೋಗ್ಯ ಮತ್ತು ಸಮೃದ್ಧಿಯಿಂದ ತುಂಬಲಿ. ದೀಪಾವಳಿಯ ಶುಭಾಶಯಗಳು!",
+  builtWith: "React + TypeScript ನಿಂದ ನಿರ್ಮಿತ (ಇಮೇಜ್ FX)",
+  language: "ಭಾಷೆ",
+  pinGreeting: "ಶುಭಾಶಯ ಬದಲಾಗುವುದನ್ನು ನಿಲ್ಲಿಸಿ (ನನ್ನ ಭಾಷೆಯಲ್ಲೇ ಇರಲಿ)",
+  createCard: "ನಿಮ್ಮ ಕಾರ್ಡ್ ರಚಿಸಿ",
+  createCardTitle: "ವೈಯಕ್ತಿಕ ಕಾರ್ಡ್ ಲಿಂಕ್ ರಚಿಸಿ",
+  to: "ಯಾರಿಗೆ",
+  from: "ಯಾರಿಂದ",
+  message: "ಸಂದೇಶ",
+  toPlaceholder: "ಅಮ್ಮ",
+  fromPlaceholder: "ನಿಮ್ಮ ಹೆಸರು",
+  messagePlaceholder: "ನಿಮಗೆ ಬೆಳಕು, ಸಂತೋಷ ಮತ್ತು ಸಮೃದ್ಧಿಯ ಶುಭಾಶಯಗಳು…",
+  cardLink: "ಕಾರ್ಡ್ ಲಿಂಕ್",
+  copyLink: "ಲಿಂಕ್ ನಕಲಿಸಿ",
+  copied: "ನಕಲಿಸಲಾಗಿದೆ ✓",
+  copyFailed: "ನಕಲಿಸಲು ಆಗಲಿಲ್ಲ; ಮೇಲಿನ ಲಿಂಕ್ ಆಯ್ಕೆಮಾಡಿ ನೀವೇ ನಕಲಿಸಿ.",
+  export: "ರಫ್ತು",
+  exportTitle: "ವೀಡಿಯೊ ಅಥವಾ ಚಿತ್ರ ರಫ್ತು ಮಾಡಿ",
+  format: "ಸ್ವರೂಪ",
+  size: "ಗಾತ್ರ",
+  frameRate: "ಫ್ರೇಮ್ ದರ",
+  includeMusic: "ಸಂಗೀತ ಸೇರಿಸಿ",
+  exportVideo: "ವೀಡಿಯೊ – ಸಂಪೂರ್ಣ ಡೆಕ್ (WebM)",
+  exportPng: "ಚಿತ್ರ – ಈ ಸ್ಲೈಡ್ (PNG)",
+  exportGif: "ಚಿತ್ರ – ಈ ಸ್ಲೈಡ್ (GIF)",
+  exportDuration: "ಸುಮಾರು {s} ಸೆಕೆಂಡ್ ಬೇಕು; ಈ ಟ್ಯಾಬ್ ತೆರೆದಿಡಿ.",
+  cancel: "ರದ್ದುಮಾಡಿ",
+  deckProblems: "ಸ್ಲೈಡ್ ಡೆಕ್ {url}: {count} ಸಮಸ್ಯೆ(ಗಳು)",
+  dismissDeckProblems: "ಡೆಕ್ ಸಮಸ್ಯೆಗಳನ್ನು ಮರೆಮಾಡಿ",
+  openPresenter: "ಪ್ರಸ್ತುತಕಾರ",
+  openPresenterTitle: "ಪ್ರಸ್ತುತಕಾರ ನೋಟವನ್ನು ಹೊಸ ವಿಂಡೋದಲ್ಲಿ ತೆರೆಯಿರಿ",
+  presenterTitle: "ಪ್ರಸ್ತುತಕಾರ ನೋಟ",
+  waitingForDisplay: "ಪ್ರದರ್ಶನಕ್ಕಾಗಿ ಕಾಯಲಾಗುತ್ತಿದೆ… ಇದೇ ಬ್ರೌಸರ್‌ನ ಇನ್ನೊಂದು ಟ್ಯಾಬ್ ಅಥವಾ ವಿಂಡೋದಲ್ಲಿ ತೆರೆಯಿರಿ.",
+  currentSlide: "ಈಗ: ಸ್ಲೈಡ್ {n} / {total}",
+  nextSlide: "ಮುಂದಿನದು",
+  notes: "ಟಿಪ್ಪಣಿಗಳು",
+  noNotes: "ಈ ಸ್ಲೈಡ್‌ಗೆ ಟಿಪ್ಪಣಿಗಳಿಲ್ಲ.",
+  elapsed: "ಕಳೆದ ಸಮಯ",
+  onSlide: "ಈ ಸ್ಲೈಡ್‌ನಲ್ಲಿ",
+  pauseAutoplay: "ಸ್ವಯಂ ಪ್ಲೇ ನಿಲ್ಲಿಸಿ",
+  resumeAutoplay: "ಸ್ವಯಂ ಪ್ಲೇ ಮುಂದುವರಿಸಿ",
+  music: "ಸಂಗೀತ",
+  nothingPlaying: "ಏನೂ ಪ್ಲೇ ಆಗುತ್ತಿಲ್ಲ",
+  offlineSaving: "ಆಫ್‌ಲೈನ್‌ಗಾಗಿ ಉಳಿಸಲಾಗುತ್ತಿದೆ {done}/{total}",
+  offlineReady: "ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿ ಲಭ್ಯ",
+  offlineMissing: "{failed} ಫೈಲ್‌ಗಳನ್ನು ಆಫ್‌ಲೈನ್‌ಗಾಗಿ ಉಳಿಸಿಲ್ಲ",
+  offlineNow: "ಆಫ್‌ಲೈನ್",
+  updateReady: "ಅಪ್‌ಡೇಟ್",
+  updateReadyTitle: "ಪ್ರದರ್ಶನದ ಹೊಸ ಆವೃತ್ತಿ ಸಿದ್ಧವಾಗಿದೆ; ಬಳಸಲು ಮರುಲೋಡ್ ಮಾಡಿ",
+  install: "ಇನ್‌ಸ್ಟಾಲ್ ಮಾಡಿ",
+  installTitle: "ಪ್ರದರ್ಶನವನ್ನು ಹೋಮ್ ಸ್ಕ್ರೀನ್‌ಗೆ ಸೇರಿಸಿ",
+  focalTool: "ಕೇಂದ್ರ ಬಿಂದು",
+  focalToolTitle: "ಪ್ರತಿ ಚಿತ್ರವನ್ನು ಹೇಗೆ ಕತ್ತರಿಸಬೇಕು ಎಂದು ಆಯ್ಕೆಮಾಡಿ ಮತ್ತು ಅದರ ಸ್ಲೈಡ್ ಸೆಟ್ಟಿಂಗ್ ನಕಲಿಸಿ",
+  focalHelp: "ಚಿತ್ರದ ಯಾವ ಭಾಗ ಯಾವಾಗಲೂ ಕಾಣಬೇಕೋ ಅಲ್ಲಿ ಕ್ಲಿಕ್ ಮಾಡಿ.",
+  focalPickImage: "ಸ್ಲೈಡ್ ಚಿತ್ರ; ಕೇಂದ್ರ ಬಿಂದು ಹೊಂದಿಸಲು ಕ್ಲಿಕ್ ಮಾಡಿ",
+  fit: "ಹೊಂದಿಕೆ",
+  fitCover: "ತುಂಬಿಸಿ (ಕತ್ತರಿಸಿ)",
+  fitContain: "ಪೂರ್ಣ ಚಿತ್ರ",
+  fitBlur: "ಪೂರ್ಣ ಚಿತ್ರ, ಮಸುಕಾದ ಅಂಚುಗಳು",
+  slideConfig: "ಸ್ಲೈಡ್ ಸೆಟ್ಟಿಂಗ್",
+  copyConfig: "ಸ್ಲೈಡ್ ಸೆಟ್ಟಿಂಗ್ ನಕಲಿಸಿ",
+  copyConfigFailed: "ನಕಲಿಸಲು ಆಗಲಿಲ್ಲ; ಮೇಲಿನ ಸೆಟ್ಟಿಂಗ್ ಆಯ್ಕೆಮಾಡಿ ನೀವೇ ನಕಲಿಸಿ.",
+  close: "ಮುಚ್ಚಿ",
+  openEditor: "ಡೆಕ್ ಸಂಪಾದಿಸಿ",
+  openEditorTitle: "ಬ್ರೌಸರ್‌ನಲ್ಲೇ ಸ್ಲೈಡ್ ಡೆಕ್ ರಚಿಸಿ ಮತ್ತು ಸಂಪಾದಿಸಿ",
+  editorTitle: "ಡೆಕ್ ಸಂಪಾದಕ",
+  editorSaved: "ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಉಳಿಸಲಾಗಿದೆ",
+  addPictures: "ಚಿತ್ರಗಳನ್ನು ಸೇರಿಸಿ",
+  importDeck: "ಆಮದು",
+  importDeckTitle: "ಡೆಕ್ JSON ಫೈಲ್ ತೆರೆಯಿರಿ",
+  importFailed: "{name} ಡೆಕ್ ಫೈಲ್ ಅಲ್ಲ: {error}",
+  exportDeck: "ರಫ್ತು",
+  exportDeckTitle: "ಪ್ರದರ್ಶನ ತೆರೆಯಬಲ್ಲ JSON ಫೈಲ್ ಆಗಿ ಈ ಡೆಕ್ ಡೌನ್‌ಲೋಡ್ ಮಾಡಿ",
+  playDeck: "ಪ್ಲೇ",
+  playDeckTitle: "ಈ ಡೆಕ್ ತೋರಿಸಿ",
+  backToShow: "ಪ್ರದರ್ಶನಕ್ಕೆ ಹಿಂತಿರುಗಿ",
+  editorEmpty: "ಡೆಕ್ ಆರಂಭಿಸಲು ಚಿತ್ರಗಳನ್ನು ಸೇರಿಸಿ.",
+  deckSlides: "ಸ್ಲೈಡ್‌ಗಳು",
+  secondsPerSlide: "ಪ್ರತಿ ಸ್ಲೈಡ್‌ಗೆ ಸೆಕೆಂಡ್",
+  theme: "ಥೀಮ್",
+  moveUp: "ಮೇಲಕ್ಕೆ ಸರಿಸಿ",
+  moveDown: "ಕೆಳಕ್ಕೆ ಸರಿಸಿ",
+  removeSlide: "ಸ್ಲೈಡ್ ತೆಗೆದುಹಾಕಿ",
+  caption: "ಶೀರ್ಷಿಕೆ",
+  altText: "ಪರ್ಯಾಯ ಪಠ್ಯ",
+  transition: "ಪರಿವರ್ತನೆ",
+  kenBurns: "ನಿಧಾನ ಪ್ಯಾನ್ ಮತ್ತು ಜೂಮ್",
+  effects: "ಪರಿಣಾಮಗಳು",
+  resetOption: "{name} ಅನ್ನು ಡೀಫಾಲ್ಟ್‌ಗೆ ಮರುಹೊಂದಿಸಿ",
+  fireworkPoints: "ಪಟಾಕಿ ಸ್ಥಳಗಳು",
+  fireworkPoint: "ಪಟಾಕಿ {n}; ಸರಿಸಲು ಎಳೆಯಿರಿ ಅಥವಾ ಬಾಣದ ಕೀಲಿಗಳನ್ನು ಬಳಸಿ",
+  addFirework: "ಪಟಾಕಿ ಸೇರಿಸಿ",
+  removeFirework: "ಪಟಾಕಿ {n} ತೆಗೆದುಹಾಕಿ",
+  fireworkDelay: "ವಿಳಂಬ (ಸೆ.)",
+  particleLayers: "ಕಣಗಳ ಪದರಗಳು",
+  particlesReplace: "ಕಣಗಳ ಪದರಗಳು ಕಿಡಿಗಳು ಮತ್ತು ಪಟಾಕಿ ಸ್ಥಳಗಳ ಬದಲಿಗೆ ಬರುತ್ತವೆ.",
+  addLayer: "ಪದರ ಸೇರಿಸಿ",
+  removeLayer: "ಪದರ {n} ತೆಗೆದುಹಾಕಿ",
+  countdownTo: "{name} ಗೆ ಕ್ಷಣಗಣನೆ",
+  countdownAt: "{time}, ನಿಮ್ಮ ಸಮಯದಲ್ಲಿ",
+  countdownStarted: "{name} ಶುಭ ಮುಹೂರ್ತ ಬಂದಿದೆ!",
+  countdownCustom: "ಹಬ್ಬ",
+  unitDays: "ದಿನ",
+  unitHours: "ಗಂಟೆ",
+  unitMinutes: "ನಿಮಿಷ",
+  unitSeconds: "ಸೆಕೆಂಡ್",
+  dhanteras: "ಧನತ್ರಯೋದಶಿ",
+  narakaChaturdashi: "ನರಕ ಚತುರ್ದಶಿ",
+  lakshmiPuja: "ಲಕ್ಷ್ಮೀ ಪೂಜೆ",
+  govardhanPuja: "ಗೋವರ್ಧನ ಪೂಜೆ",
+  bhaiDooj: "ಭಾಯಿ ದೂಜ್",
+  share: "ಹಂಚಿಕೊಳ್ಳಿ",
+  shareTitle: "ಈ ಸ್ಲೈಡ್‌ನ ಲಿಂಕ್ ಹಂಚಿಕೊಳ್ಳಿ",
+  linkCopied: "ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ ✓",
+  shareCopyFailed: "ಲಿಂಕ್ ನಕಲಿಸಲು ಆಗಲಿಲ್ಲ",
+};
+
+const ML: Messages = {
+  play: "പ്ലേ",
+  pause: "താൽക്കാലികമായി നിർത്തുക",
+  playAudio: "സംഗീതം പ്ലേ ചെയ്യുക",
+  pauseAudio: "സംഗീതം നിർത്തുക",
+  back10: "10 സെക്കൻഡ് പിന്നോട്ട്",
+  back10Short: "10 സെ. പിന്നോട്ട്",
+  forward10: "10 സെക്കൻഡ് മുന്നോട്ട്",
+  forward10Short: "10 സെ. മുന്നോട്ട്",
+  prevTrack: "മുമ്പത്തെ ഗാനം",
+  nextTrack: "അടുത്ത ഗാനം",
+  mute: "നിശ്ശബ്ദമാക്കുക",
+  unmute: "ശബ്ദം ഓണാക്കുക",
+  vol: "ശബ്ദം",
+  volume: "ശബ്ദനില",
+  shuffle: "ക്രമം മാറ്റുക",
+  repeatMode: "ആവർത്തനം",
+  repeatAll: "എല്ലാം",
+  repeatOne: "ഒന്ന്",
+  repeatOff: "ഓഫ്",
+  repeatLabel: "ആവർത്തനം: {mode}",
+  beat: "താളം",
+  beatLabel: "ഇഫക്റ്റുകൾ സംഗീതത്തിന്റെ താളത്തിനൊപ്പം ചേർക്കുക",
+  beatTitle: "താള മോഡ്: ഇഫക്റ്റുകൾ സംഗീതത്തെ പിന്തുടരുന്നു",
+  waveform: "തരംഗം",
+  showWaveform: "തരംഗം കാണിക്കുക",
+  backgroundAudio: "ടാബ് മറഞ്ഞിരിക്കുമ്പോൾ സംഗീതം",
+  backgroundPlay: "മറഞ്ഞ ടാബ്: തുടർന്നും പ്ലേ ചെയ്യുക",
+  backgroundPause: "മറഞ്ഞ ടാബ്: നിർത്തുക",
+  backgroundDuck: "മറഞ്ഞ ടാബ്: ശബ്ദം കുറയ്ക്കുക",
+  sleepTimer: "സ്ലീപ്പ് ടൈമർ",
+  sleepOff: "സ്ലീപ്പ്: ഓഫ്",
+  sleepMinutes: "സ്ലീപ്പ്: {n} മിനിറ്റ്",
+  sleepTrack: "സ്ലീപ്പ്: ഗാനം തീരുമ്പോൾ",
+  sleepLeft: "സംഗീതം {time} കഴിഞ്ഞ് നിൽക്കും",
+  seek: "സമയം തിരഞ്ഞെടുക്കുക",
+  timeOf: "{dur}-ൽ {curr}",
+  goToSlide: "സ്ലൈഡ് {n}-ലേക്ക് പോകുക",
+  goToMessage: "സന്ദേശത്തിലേക്ക് പോകുക",
+  slideshow: "ദീപാവലി സ്ലൈഡ്‌ഷോ",
+  slideOf: "സ്ലൈഡ് {n} / {total}",
+  chooseSlide: "ഒരു സ്ലൈഡ് തിരഞ്ഞെടുക്കുക",
+  personalMessage: "നിങ്ങളുടെ വ്യക്തിപരമായ സന്ദേശം",
+  previous: "മുമ്പത്തേത്",
+  next: "അടുത്തത്",
+  dear: "പ്രിയപ്പെട്ട {name},",
+  withLove: "— സ്നേഹത്തോടെ, {name}",
+  endMessage: "ദീപങ്ങളുടെ വെളിച്ചം നിങ്ങളുടെ വീട്ടിൽ സന്തോഷവും ആരോഗ്യവും ഐശ്വര്യവും നിറയ്ക്കട്ടെ. ദീപാവലി ആശംസകൾ!",
+  builtWith: "React + TypeScript ഉപയോഗിച്ച് നിർമ്മിച്ചത് (ഇമേജ് FX)",
+  language: "ഭാഷ",
+  pinGreeting: "ആശംസ മാറുന്നത് നിർത്തുക (എന്റെ ഭാഷയിൽ നിലനിർത്തുക)",
+  createCard: "നിങ്ങളുടെ കാർഡ് തയ്യാറാക്കുക",
+  createCardTitle: "വ്യക്തിഗത കാർഡ് ലിങ്ക് തയ്യാറാക്കുക",
+  to: "ആർക്ക്",
+  from: "ആരിൽ നിന്ന്",
+  message: "സന്ദേശം",
+  toPlaceholder: "അമ്മ",
+  fromPlaceholder: "നിങ്ങളുടെ പേര്",
+  messagePlaceholder: "നിങ്ങൾക്ക് വെളിച്ചവും സന്തോഷവും ഐശ്വര്യവും നേരുന്നു…",
+  cardLink: "കാർഡ് ലിങ്ക്",
+  copyLink: "ലിങ്ക് പകർത്തുക",
+  copied: "പകർത്തി ✓",
+  copyFailed: "പകർത്താനായില്ല; മുകളിലെ ലിങ്ക് തിരഞ്ഞെടുത്ത് സ്വയം പകർത്തുക.",
+  export: "എക്സ്പോർട്ട്",
+  exportTitle: "വീഡിയോ അല്ലെങ്കിൽ ചിത്രം എക്സ്പോർട്ട് ചെയ്യുക",
+  format: "ഫോർമാറ്റ്",
+  size: "വലുപ്പം",
+  frameRate: "ഫ്രെയിം നിരക്ക്",
+  includeMusic: "സംഗീതം ഉൾപ്പെടുത്തുക",
+  exportVideo: "വീഡിയോ – മുഴുവൻ ഡെക്ക് (WebM)",
+  exportPng: "ചിത്രം – ഈ സ്ലൈഡ് (PNG)",
+  exportGif: "ചിത്രം – ഈ സ്ലൈഡ് (GIF)",
+  exportDuration: "ഏകദേശം {s} സെക്കൻഡ് എടുക്കും; ഈ ടാബ് തുറന്നുവയ്ക്കുക.",
+  cancel: "റദ്ദാക്കുക",
+  deckProblems: "സ്ലൈഡ് ഡെക്ക് {url}: {count} പ്രശ്നം(ങ്ങൾ)",
+  dismissDeckProblems: "ഡെക്ക് പ്രശ്നങ്ങൾ മറയ്ക്കുക",
+  openPresenter: "അവതാരകൻ",
+  openPresenterTitle: "അവതാരക കാഴ്ച പുതിയ വിൻഡോയിൽ തുറക്കുക",
+  presenterTitle: "അവതാരക കാഴ്ച",
+  waitingForDisplay: "ഷോയ്ക്കായി കാത്തിരിക്കുന്നു… ഇതേ ബ്രൗസറിന്റെ മറ്റൊരു ടാബിലോ വിൻഡോയിലോ തുറക്കുക.",
+  currentSlide: "ഇപ്പോൾ: സ്ലൈഡ് {n} / {total}",
+  nextSlide: "അടുത്തത്",
+  notes: "കുറിപ്പുകൾ",
+  noNotes: "ഈ സ്ലൈഡിന് കുറിപ്പുകളില്ല.",
+  elapsed: "കഴിഞ്ഞ സമയം",
+  onSlide: "ഈ സ്ലൈഡിൽ",
+  pauseAutoplay: "സ്വയം പ്ലേ നിർത്തുക",
+  resumeAutoplay: "സ്വയം പ്ലേ തുടരുക",
+  music: "സംഗീതം",
+  nothingPlaying: "ഒന്നും പ്ലേ ചെയ്യുന്നില്ല",
+  offlineSaving: "ഓഫ്‌ലൈനായി സംരക്ഷിക്കുന്നു {done}/{total}",
+  offlineReady: "ഓഫ്‌ലൈനായി ലഭ്യം",
+  offlineMissing: "{failed} ഫയലുകൾ ഓഫ്‌ലൈനായി സംരക്ഷിച്ചിട്ടില്ല",
+  offlineNow: "ഓഫ്‌ലൈൻ",
+  updateReady: "അപ്ഡേറ്റ്",
+  updateReadyTitle: "ഷോയുടെ പുതിയ പതിപ്പ് തയ്യാർ; ഉപയോഗിക്കാൻ വീണ്ടും ലോഡ് ചെയ്യുക",
+  install: "ഇൻസ്റ്റാൾ ചെയ്യുക",
+  installTitle: "ഷോ ഹോം സ്ക്രീനിൽ ചേർക്കുക",
+  focalTool: "കേന്ദ്രബിന്ദു",
+  focalToolTitle: "ഓരോ ചിത്രവും എങ്ങനെ മുറിക്കണമെന്ന് തിരഞ്ഞെടുത്ത് അതിന്റെ സ്ലൈഡ് ക്രമീകരണം പകർത്തുക",
+  focalHelp: "ചിത്രത്തിന്റെ എപ്പോഴും കാണേണ്ട ഭാഗത്ത് ക്ലിക്ക് ചെയ്യുക.",
+  focalPickImage: "സ്ലൈഡ് ചിത്രം; കേന്ദ്രബിന്ദു നിശ്ചയിക്കാൻ ക്ലിക്ക് ചെയ്യുക",
+  fit: "ഒതുക്കം",
+  fitCover: "നിറയ്ക്കുക (മുറിക്കുക)",
+  fitContain: "മുഴുവൻ ചിത്രം",
+  fitBlur: "മുഴുവൻ ചിത്രം, മങ്ങിയ അരികുകൾ",
+  slideConfig: "സ്ലൈഡ് ക്രമീകരണം",
+  copyConfig: "സ്ലൈഡ് ക്രമീകരണം പകർത്തുക",
+  copyConfigFailed: "പകർത്താനായില്ല; മുകളിലെ ക്രമീകരണം തിരഞ്ഞെടുത്ത് സ്വയം പകർത്തുക.",
+  close: "അടയ്ക്കുക",
+  openEditor: "ഡെക്ക് എഡിറ്റ് ചെയ്യുക",
+  openEditorTitle: "ബ്രൗസറിൽ തന്നെ സ്ലൈഡ് ഡെക്കുകൾ നിർമ്മിക്കുകയും എഡിറ്റ് ചെയ്യുകയും ചെയ്യുക",
+  editorTitle: "ഡെക്ക് എഡിറ്റർ",
+  editorSaved: "ഈ ബ്രൗസറിൽ സംരക്ഷിച്ചു",
+  addPictures: "ചിത്രങ്ങൾ ചേർക്കുക",
+  importDeck: "ഇംപോർട്ട്",
+  importDeckTitle: "ഡെക്ക് JSON ഫയൽ തുറക്കുക",
+  importFailed: "{name} ഒരു ഡെക്ക് ഫയൽ അല്ല: {error}",
+  exportDeck: "എക്സ്പോർട്ട്",
+  exportDeckTitle: "ഷോയ്ക്ക് തുറക്കാവുന്ന JSON ഫയലായി ഈ ഡെക്ക് ഡൗൺലോഡ് ചെയ്യുക",
+  playDeck: "പ്ലേ",
+  playDeckTitle: "ഈ ഡെക്ക് കാണിക്കുക",
+  backToShow: "ഷോയിലേക്ക് മടങ്ങുക",
+  editorEmpty: "ഡെക്ക് തുടങ്ങാൻ ചിത്രങ്ങൾ ചേർക്കുക.",
+  deckSlides: "സ്ലൈഡുകൾ",
+  secondsPerSlide: "ഓരോ സ്ലൈഡിനും സെക്കൻഡ്",
+  theme: "തീം",
+  moveUp: "മുകളിലേക്ക് നീക്കുക",
+  moveDown: "താഴേക്ക് നീക്കുക",
+  removeSlide: "സ്ലൈഡ് നീക്കം ചെയ്യുക",
+  caption: "അടിക്കുറിപ്പ്",
+  altText: "പകരം വാചകം",
+  transition: "മാറ്റം",
+  kenBurns: "സാവധാനം പാൻ ചെയ്യലും സൂമും",
+  effects: "ഇഫക്റ്റുകൾ",
+  resetOption: "{name} ഡിഫോൾട്ടിലേക്ക് മടക്കുക",
+  fireworkPoints: "പടക്കം പൊട്ടുന്ന സ്ഥാനങ്ങൾ",
+  fireworkPoint: "പടക്കം {n}; നീക്കാൻ വലിച്ചിടുക അല്ലെങ്കിൽ ആരോ കീകൾ ഉപയോഗിക്കുക",
+  addFirework: "പടക്കം ചേർക്കുക",
+  removeFirework: "പടക്കം {n} നീക്കം ചെയ്യുക",
+  fireworkDelay: "കാലതാമസം (സെ.)",
+  particleLayers: "കണിക പാളികൾ",
+  particlesReplace: "കണിക പാളികൾ തീപ്പൊരികൾക്കും പടക്ക സ്ഥാനങ്ങൾക്കും പകരമാകുന്നു.",
+  addLayer: "പാളി ചേർക്കുക",
+  removeLayer: "പാളി {n} നീക്കം ചെയ്യുക",
+  countdownTo: "{name} വരെ കൗണ്ട്ഡൗൺ",
+  countdownAt: "{time}, നിങ്ങളുടെ സമയം",
+  countdownStarted: "{name} ശുഭമുഹൂർത്തം എത്തി!",
+  countdownCustom: "ആഘോഷം",
+  unitDays: "ദിവസം",
+  unitHours: "മണിക്കൂർ",
+  unitMinutes: "മിനിറ്റ്",
+  unitSeconds: "സെക്കൻഡ്",
+  dhanteras: "ധന്തേരസ്",
+  narakaChaturdashi: "നരക ചതുർദശി",
+  lakshmiPuja: "ലക്ഷ്മീ പൂജ",
+  govardhanPuja: "ഗോവർധൻ പൂജ",
+  bhaiDooj: "ഭായ് ദൂജ്",
+  share: "പങ്കിടുക",
+  shareTitle: "ഈ സ്ലൈഡിന്റെ ലിങ്ക് പങ്കിടുക",
+  linkCopied: "ലിങ്ക് പകർത്തി ✓",
+  shareCopyFailed: "ലിങ്ക് പകർത്താനായില്ല",
+};
+
+const TE: Messages = {
+  play: "ప్లే",
+  pause: "ఆపు",
+  playAudio: "సంగీతం ప్లే చేయండి",
+  pauseAudio: "సంగీతం ఆపండి",
+  back10: "10 సెకన్లు వెనక్కి",
+  back10Short: "10 సె. వెనక్కి",
+  forward10: "10 సెకన్లు ముందుకి",
+  forward10Short: "10 సె. ముందుకి",
+  prevTrack: "మునుపటి పాట",
+  nextTrack: "తదుపరి పాట",
+  mute: "మ్యూట్",
+  unmute: "అన్‌మ్యూట్",
+  vol: "ధ్వని",
+  volume: "ధ్వని స్థాయి",
+  shuffle: "క్రమం మార్చు",
+  repeatMode: "పునరావృతం",
+  repeatAll: "అన్నీ",
+  repeatOne: "ఒకటి",
+  repeatOff: "ఆఫ్",
+  repeatLabel: "పునరావృతం: {mode}",
+  beat: "తాళం",
+  beatLabel: "ఎఫెక్ట్‌లను సంగీత తాళానికి జతచేయండి",
+  beatTitle: "తాళం మోడ్: ఎఫెక్ట్‌లు సంగీతాన్ని అనుసరిస్తాయి",
+  waveform: "తరంగం",
+  showWaveform: "తరంగం చూపించు",
+  backgroundAudio: "ట్యాబ్ దాగి ఉన్నప్పుడు సంగీతం",
+  backgroundPlay: "దాగిన ట్యాబ్: ప్లే అవుతూ ఉండాలి",
+  backgroundPause: "దాగిన ట్యాబ్: ఆపు",
+  backgroundDuck: "దాగిన ట్యాబ్: మెల్లగా",
+  sleepTimer: "స్లీప్ టైమర్",
+  sleepOff: "స్లీప్: ఆఫ్",
+  sleepMinutes: "స్లీప్: {n} నిమి.",
+  sleepTrack: "స్లీప్: పాట ముగిసినప్పుడు",
+  sleepLeft: "సంగీతం {time}లో ఆగుతుంది",
+  seek: "సమయం ఎంచుకోండి",
+  timeOf: "{dur}లో {curr}",
+  goToSlide: "స్లయిడ్ {n}కి వెళ్ళండి",
+  goToMessage: "సందేశానికి వెళ్ళండి",
+  slideshow: "దీపావళి స్లయిడ్‌షో",
+  slideOf: "స్లయిడ్ {n} / {total}",
+  chooseSlide: "ఒక స్లయిడ్ ఎంచుకోండి",
+  personalMessage: "మీ వ్యక్తిగత సందేశం",
+  previous: "మునుపటి",
+  next: "తదుపరి",
+  dear: "ప్రియమైన {name},",
+  withLove: "— ప్రేమతో, {name}",
+  endMessage: "దీపాల వెలుగు మీ ఇంటిని ఆనందం, ఆరోగ్యం, సిరిసంపదలతో నింపాలి. దీపావళి శుభాకాంక్షలు!",
+  builtWith: "React + TypeScript తో రూపొందించబడింది (ఇమేజ్ FX)",
+  language: "భాష",
+  pinGreeting: "శుభాకాంక్ష మారడం ఆపండి (నా భాషలోనే ఉంచండి)",
+  createCard: "మీ కార్డ్ సృష్టించండి",
+  createCardTitle: "వ్యక్తిగత కార్డ్ లింక్ సృష్టించండి",
+  to: "ఎవరికి",
+  from: "ఎవరి నుండి",
+  message: "సందేశం",
+  toPlaceholder: "అమ్మ",
+  fromPlaceholder: "మీ పేరు",
+  messagePlaceholder: "మీకు వెలుగు, ఆనందం, సిరిసంపదలు కలగాలని కోరుకుంటూ…",
+  cardLink: "కార్డ్ లింక్",
+  copyLink: "లింక్ కాపీ చేయండి",
+  copied: "కాపీ అయింది ✓",
+  copyFailed: "కాపీ చేయలేకపోయాం; పైన ఉన్న లింక్‌ను ఎంచుకుని మీరే కాపీ చేయండి.",
+  export: "ఎగుమతి",
+  exportTitle: "వీడియో లేదా చిత్రాన్ని ఎగుమతి చేయండి",
+  format: "ఫార్మాట్",
+  size: "పరిమాణం",
+  frameRate: "ఫ్రేమ్ రేటు",
+  includeMusic: "సంగీతం చేర్చండి",
+  exportVideo: "వీడియో – మొత్తం డెక్ (WebM)",
+  exportPng: "చిత్రం – ఈ స్లయిడ్ (PNG)",
+  exportGif: "చిత్రం – ఈ స్లయిడ్ (GIF)",
+  exportDuration: "సుమారు {s} సెకన్లు పడుతుంది; ఈ ట్యాబ్ తెరిచి ఉంచండి.",
+  cancel: "రద్దు చేయండి",
+  deckProblems: "స్లయిడ్ డెక్ {url}: {count} సమస్య(లు)",
+  dismissDeckProblems: "డెక్ సమస్యలను దాచండి",
+  openPresenter: "ప్రెజెంటర్",
+  openPresenterTitle: "ప్రెజెంటర్ వీక్షణను కొత్త విండోలో తెరవండి",
+  presenterTitle: "ప్రెజెంటర్ వీక్షణ",
+  waitingForDisplay: "షో కోసం వేచి ఉంది… దీన్ని ఇదే బ్రౌజర్‌లోని మరో ట్యాబ్ లేదా విండోలో తెరవండి.",
+  currentSlide: "ఇప్పుడు: స్లయిడ్ {n} / {total}",
+  nextSlide: "తదుపరి",
+  notes: "గమనికలు",
+  noNotes: "ఈ స్లయిడ్‌కు గమనికలు లేవు.",
+  elapsed: "గడిచిన సమయం",
+  onSlide: "ఈ స్లయిడ్‌పై",
+  pauseAutoplay: "ఆటోప్లే ఆపండి",
+  resumeAutoplay: "ఆటోప్లే కొనసాగించండి",
+  music: "సంగీతం",
+  nothingPlaying: "ఏదీ ప్లే కావడం లేదు",
+  offlineSaving: "ఆఫ్‌లైన్ కోసం సేవ్ అవుతోంది {done}/{total}",
+  offlineReady: "ఆఫ్‌లైన్‌లో అందుబాటులో ఉంది",
+  offlineMissing: "{failed} ఫైళ్లు ఆఫ్‌లైన్ కోసం సేవ్ కాలేదు",
+  offlineNow: "ఆఫ్‌లైన్",
+  updateReady: "అప్‌డేట్",
+  updateReadyTitle: "షో కొత్త వెర్షన్ సిద్ధంగా ఉంది; వాడటానికి మళ్ళీ లోడ్ చేయండి",
+  install: "ఇన్‌స్టాల్ చేయండి",
+  installTitle: "షోను హోమ్ స్క్రీన్‌కు జోడించండి",
+  focalTool: "కేంద్ర బిందువు",
+  focalToolTitle: "ప్రతి చిత్రాన్ని ఎలా కత్తిరించాలో ఎంచుకుని, దాని స్లయిడ్ సెట్టింగ్ కాపీ చేయండి",
+  focalHelp: "చిత్రంలో ఎప్పుడూ కనిపించాల్సిన భాగంపై క్లిక్ చేయండి.",
+  focalPickImage: "స్లయిడ్ చిత్రం; కేంద్ర బిందువును ఎంచుకోవడానికి క్లిక్ చేయండి",
+  fit: "అమరిక",
+  fitCover: "నింపు (కత్తిరించు)",
+  fitContain: "పూర్తి చిత్రం",
+  fitBlur: "పూర్తి చిత్రం, మసక అంచులు",
+  slideConfig: "స్లయిడ్ సెట్టింగ్",
+  copyConfig: "స్లయిడ్ సెట్టింగ్ కాపీ చేయండి",
+  copyConfigFailed: "కాపీ చేయలేకపోయాం; పైన ఉన్న సెట్టింగ్‌ను ఎంచుకుని మీరే కాపీ చేయండి.",
+  close: "మూసివేయండి",
+  openEditor: "డెక్ సవరించండి",
+  openEditorTitle: "బ్రౌజర్‌లోనే స్లయిడ్ డెక్‌లను తయారు చేసి సవరించండి",
+  editorTitle: "డెక్ ఎడిటర్",
+  editorSaved: "ఈ బ్రౌజర్‌లో సేవ్ అయింది",
+  addPictures: "చిత్రాలు జోడించండి",
+  importDeck: "దిగుమతి",
+  importDeckTitle: "డెక్ JSON ఫైల్ తెరవండి",
+  importFailed: "{name} డెక్ ఫైల్ కాదు: {error}",
+  exportDeck: "ఎగుమతి",
+  exportDeckTitle: "షో తెరవగలిగే JSON ఫైల్‌గా ఈ డెక్‌ను డౌన్‌లోడ్ చేయండి",
+  playDeck: "ప్లే",
+  playDeckTitle: "ఈ డెక్ చూపించు",
+  backToShow: "షోకి తిరిగి వెళ్ళండి",
+  editorEmpty: "డెక్ ప్రారంభించడానికి చిత్రాలు జోడించండి.",
+  deckSlides: "స్లయిడ్‌లు",
+  secondsPerSlide: "ప్రతి స్లయిడ్‌కు సెకన్లు",
+  theme: "థీమ్",
+  moveUp: "పైకి జరపండి",
+  moveDown: "కిందికి జరపండి",
+  removeSlide: "స్లయిడ్ తీసివేయండి",
+  caption: "శీర్షిక",
+  altText: "ప్రత్యామ్నాయ వచనం",
+  transition: "మార్పు",
+  kenBurns: "నెమ్మదిగా ప్యాన్ మరియు జూమ్",
+  effects: "ఎఫెక్ట్‌లు",
+  resetOption: "{name}ను డిఫాల్ట్‌కు మార్చండి",
+  fireworkPoints: "బాణసంచా స్థానాలు",
+  fireworkPoint: "బాణసంచా {n}; జరపడానికి లాగండి లేదా బాణం కీలు వాడండి",
+  addFirework: "బాణసంచా జోడించండి",
+  removeFirework: "బాణసంచా {n} తీసివేయండి",
+  fireworkDelay: "ఆలస్యం (సె.)",
+  particleLayers: "కణాల పొరలు",
+  particlesReplace: "కణాల పొరలు నిప్పురవ్వలు, బాణసంచా స్థానాల స్థానంలో వస్తాయి.",
+  addLayer: "పొర జోడించండి",
+  removeLayer: "పొర {n} తీసివేయండి",
+  countdownTo: "{name}కు కౌంట్‌డౌన్",
+  countdownAt: "{time}, మీ సమయం ప్రకారం",
+  countdownStarted: "{name} శుభ ముహూర్తం వచ్చేసింది!",
+  countdownCustom: "పండుగ",
+  unitDays: "రోజులు",
+  unitHours: "గంటలు",
+  unitMinutes: "నిమి.",
+  unitSeconds: "సె.",
+  dhanteras: "ధన త్రయోదశి",
+  narakaChaturdashi: "నరక చతుర్దశి",
+  lakshmiPuja: "లక్ష్మీ పూజ",
+  govardhanPuja: "గోవర్ధన పూజ",
+  bhaiDooj: "భగినీ హస్త భోజనం",
+  share: "షేర్ చేయండి",
+  shareTitle: "ఈ స్లయిడ్ లింక్‌ను షేర్ చేయండి",
+  linkCopied: "లింక్ కాపీ అయింది ✓",
+  shareCopyFailed: "లింక్ కాపీ చేయలేకపోయాం",
+};
+
+const TA: Messages = {
+  play: "இயக்கு",
+  pause: "இடைநிறுத்து",
+  playAudio: "இசையை இயக்கு",
+  pauseAudio: "இசையை நிறுத்து",
+  back10: "10 வினாடிகள் பின்னால்",
+  back10Short: "10 வி. பின்னால்",
+  forward10: "10 வினாடிகள் முன்னால்",
+  forward10Short: "10 வி. முன்னால்",
+  prevTrack: "முந்தைய பாடல்",
+  nextTrack: "அடுத்த பாடல்",
+  mute: "ஒலியடக்கு",
+  unmute: "ஒலி இயக்கு",
+  vol: "ஒலி",
+  volume: "ஒலி அளவு",
+  shuffle: "வரிசையைக் கலை",
+  repeatMode: "மீண்டும் இயக்கு",
+  repeatAll: "அனைத்தும்",
+  repeatOne: "ஒன்று",
+  repeatOff: "அணை",
+  repeatLabel: "மீண்டும் இயக்கு: {mode}",
+  beat: "தாளம்",
+  beatLabel: "விளைவுகளை இசையின் தாளத்துடன் இணை",
+  beatTitle: "தாள முறை: விளைவுகள் இசையைப் பின்தொடரும்",
+  waveform: "அலைவடிவம்",
+  showWaveform: "அலைவடிவத்தைக் காட்டு",
+  backgroundAudio: "தாவல் மறைந்திருக்கும்போது இசை",
+  backgroundPlay: "மறைந்த தாவல்: தொடர்ந்து இயங்கட்டும்",
+  backgroundPause: "மறைந்த தாவல்: இடைநிறுத்து",
+  backgroundDuck: "மறைந்த தாவல்: மெதுவாக",
+  sleepTimer: "உறக்க நேரம்",
+  sleepOff: "உறக்கம்: அணை",
+  sleepMinutes: "உறக்கம்: {n} நிமி.",
+  sleepTrack: "உறக்கம்: பாடல் முடிந்ததும்",
+  sleepLeft: "இசை {time}-இல் நிற்கும்",
+  seek: "நேரத்தைத் தேர்ந்தெடு",
+  timeOf: "{dur}-இல் {curr}",
+  goToSlide: "ஸ்லைடு {n}-க்குச் செல்",
+  goToMessage: "செய்திக்குச் செல்",
+  slideshow: "தீபாவளி ஸ்லைடுஷோ",
+  slideOf: "ஸ்லைடு {n} / {total}",
+  chooseSlide: "ஒரு ஸ்லைடைத் தேர்ந்தெடு",
+  personalMessage: "உங்கள் தனிப்பட்ட செய்தி",
+  previous: "முந்தையது",
+  next: "அடுத்தது",
+  dear: "அன்புள்ள {name},",
+  withLove: "— அன்புடன், {name}",
+  endMessage: "தீபங்களின் ஒளி உங்கள் இல்லத்தை மகிழ்ச்சி, ஆரோக்கியம், வளம் ஆகியவற்றால் நிறைக்கட்டும். தீபாவளி நல்வாழ்த்துகள்!",
+  builtWith: "React + TypeScript கொண்டு உருவாக்கப்பட்டது (பட FX)",
+  language: "மொழி",
+  pinGreeting: "வாழ்த்து மாறுவதை நிறுத்து (என் மொழியிலேயே வை)",
+  createCard: "உங்கள் அட்டையை உருவாக்குங்கள்",
+  createCardTitle: "தனிப்பட்ட அட்டை இணைப்பை உருவாக்குங்கள்",
+  to: "யாருக்கு",
+  from: "யாரிடமிருந்து",
+  message: "செய்தி",
+  toPlaceholder: "அம்மா",
+  fromPlaceholder: "உங்கள் பெயர்",
+  messagePlaceholder: "உங்களுக்கு ஒளி, மகிழ்ச்சி, வளம் பெருக வாழ்த்துகள்…",
+  cardLink: "அட்டை இணைப்பு",
+  copyLink: "இணைப்பை நகலெடு",
+  copied: "நகலெடுக்கப்பட்டது ✓",
+  copyFailed: "நகலெடுக்க முடியவில்லை; மேலே உள்ள இணைப்பைத் தேர்ந்தெடுத்து நீங்களே நகலெடுக்கவும்.",
+  export: "ஏற்றுமதி",
+  exportTitle: "வீடியோ அல்லது படத்தை ஏற்றுமதி செய்",
+  format: "வடிவம்",
+  size: "அளவு",
+  frameRate: "சட்ட வீதம்",
+  includeMusic: "இசையைச் சேர்",
+  exportVideo: "வீடியோ – முழு டெக் (WebM)",
+  exportPng: "படம் – இந்த ஸ்லைடு (PNG)",
+  exportGif: "படம் – இந்த ஸ்லைடு (GIF)",
+  exportDuration: "சுமார் {s} வினாடிகள் ஆகும்; இந்தத் தாவலைத் திறந்தே வைக்கவும்.",
+  cancel: "ரத்து செய்",
+  deckProblems: "ஸ்லைடு டெக் {url}: {count} சிக்கல்(கள்)",
+  dismissDeckProblems: "டெக் சிக்கல்களை மறை",
+  openPresenter: "வழங்குநர்",
+  openPresenterTitle: "வழங்குநர் காட்சியைப் புதிய சாளரத்தில் திற",
+  presenterTitle: "வழங்குநர் காட்சி",
+  waitingForDisplay: "காட்சிக்காகக் காத்திருக்கிறது… இதே உலாவியின் வேறொரு தாவல் அல்லது சாளரத்தில் திறக்கவும்.",
+  currentSlide: "இப்போது: ஸ்லைடு {n} / {total}",
+  nextSlide: "அடுத்தது",
+  notes: "குறிப்புகள்",
+  noNotes: "இந்த ஸ்லைடுக்குக் குறிப்புகள் இல்லை.",
+  elapsed: "கழிந்த நேரம்",
+  onSlide: "இந்த ஸ்லைடில்",
+  pauseAutoplay: "தானியக்கத்தை நிறுத்து",
+  resumeAutoplay: "தானியக்கத்தைத் தொடர்",
+  music: "இசை",
+  nothingPlaying: "எதுவும் இயங்கவில்லை",
+  offlineSaving: "ஆஃப்லைனுக்காகச் சேமிக்கிறது {done}/{total}",
+  offlineReady: "ஆஃப்லைனில் கிடைக்கும்",
+  offlineMissing: "{failed} கோப்புகள் ஆஃப்லைனுக்காகச் சேமிக்கப்படவில்லை",
+  offlineNow: "ஆஃப்லைன்",
+  updateReady: "புதுப்பிப்பு",
+  updateReadyTitle: "காட்சியின் புதிய பதிப்பு தயார்; பயன்படுத்த மீண்டும் ஏற்றவும்",
+  install: "நிறுவு",
+  installTitle: "காட்சியை முகப்புத் திரையில் சேர்",
+  focalTool: "மையப் புள்ளி",
+  focalToolTitle: "ஒவ்வொரு படமும் எப்படி வெட்டப்பட வேண்டும் எனத் தேர்ந்தெடுத்து அதன் ஸ்லைடு அமைப்பை நகலெடு",
+  focalHelp: "படத்தில் எப்போதும் தெரிய வேண்டிய பகுதியைக் கிளிக் செய்யவும்.",
+  focalPickImage: "ஸ்லைடு படம்; மையப் புள்ளியை அமைக்கக் கிளிக் செய்யவும்",
+  fit: "பொருத்தம்",
+  fitCover: "நிரப்பு (வெட்டு)",
+  fitContain: "முழுப் படம்",
+  fitBlur: "முழுப் படம், மங்கிய ஓரங்கள்",
+  slideConfig: "ஸ்லைடு அமைப்பு",
+  copyConfig: "ஸ்லைடு அமைப்பை நகலெடு",
+  copyConfigFailed: "நகலெடுக்க முடியவில்லை; மேலே உள்ள அமைப்பைத் தேர்ந்தெடுத்து நீங்களே நகலெடுக்கவும்.",
+  close: "மூடு",
+  openEditor: "டெக்கைத் திருத்து",
+  openEditorTitle: "உலாவியிலேயே ஸ்லைடு டெக்குகளை உருவாக்கித் திருத்து",
+  editorTitle: "டெக் திருத்தி",
+  editorSaved: "இந்த உலாவியில் சேமிக்கப்பட்டது",
+  addPictures: "படங்களைச் சேர்",
+  importDeck: "இறக்குமதி",
+  importDeckTitle: "டெக் JSON கோப்பைத் திற",
+  importFailed: "{name} ஒரு டெக் கோப்பு அல்ல: {error}",
+  exportDeck: "ஏற்றுமதி",
+  exportDeckTitle: "காட்சி திறக்கக்கூடிய JSON கோப்பாக இந்த டெக்கைப் பதிவிறக்கு",
+  playDeck: "இயக்கு",
+  playDeckTitle: "இந்த டெக்கைக் காட்டு",
+  backToShow: "காட்சிக்குத் திரும்பு",
+  editorEmpty: "டெக்கைத் தொடங்கப் படங்களைச் சேர்க்கவும்.",
+  deckSlides: "ஸ்லைடுகள்",
+  secondsPerSlide: "ஒரு ஸ்லைடுக்கு வினாடிகள்",
+  theme: "கருப்பொருள்",
+  moveUp: "மேலே நகர்த்து",
+  moveDown: "கீழே நகர்த்து",
+  removeSlide: "ஸ்லைடை நீக்கு",
+  caption: "தலைப்பு",
+  altText: "மாற்று உரை",
+  transition: "மாற்றம்",
+  kenBurns: "மெதுவான நகர்வும் பெரிதாக்கலும்",
+  effects: "விளைவுகள்",
+  resetOption: "{name}-ஐ இயல்புநிலைக்கு மாற்று",
+  fireworkPoints: "பட்டாசு இடங்கள்",
+  fireworkPoint: "பட்டாசு {n}; நகர்த்த இழுக்கவும் அல்லது அம்புக்குறி விசைகளைப் பயன்படுத்தவும்",
+  addFirework: "பட்டாசு சேர்",
+  removeFirework: "பட்டாசு {n}-ஐ நீக்கு",
+  fireworkDelay: "தாமதம் (வி.)",
+  particleLayers: "துகள் அடுக்குகள்",
+  particlesReplace: "துகள் அடுக்குகள் தீப்பொறிகளுக்கும் பட்டாசு இடங்களுக்கும் பதிலாக வரும்.",
+  addLayer: "அடுக்கு சேர்",
+  removeLayer: "அடுக்கு {n}-ஐ நீக்கு",
+  countdownTo: "{name} வரை கவுண்ட்டவுன்",
+  countdownAt: "{time}, உங்கள் நேரப்படி",
+  countdownStarted: "{name} நல்ல நேரம் வந்துவிட்டது!",
+  countdownCustom: "கொண்டாட்டம்",
+  unitDays: "நாள்",
+  unitHours: "மணி",
+  unitMinutes: "நிமி.",
+  unitSeconds: "வி.",
+  dhanteras: "தன்தேரஸ்",
+  narakaChaturdashi: "நரக சதுர்த்தசி",
+  lakshmiPuja: "லட்சுமி பூஜை",
+  govardhanPuja: "கோவர்த்தன பூஜை",
+  bhaiDooj: "பாய் தூஜ்",
+  share: "பகிர்",
+  shareTitle: "இந்த ஸ்லைடின் இணைப்பைப் பகிர்",
+  linkCopied: "இணைப்பு நகலெடுக்கப்பட்டது ✓",
+  shareCopyFailed: "இணைப்பை நகலெடுக்க முடியவில்லை",
+};
+
+const PA: Messages = {
+  play: "ਚਲਾਓ",
+  pause: "ਰੋਕੋ",
+  playAudio: "ਸੰਗੀਤ ਚਲਾਓ",
+  pauseAudio: "ਸੰਗੀਤ ਰੋਕੋ",
+  back10: "10 ਸਕਿੰਟ ਪਿੱਛੇ",
+  back10Short: "10 ਸ. ਪਿੱਛੇ",
+  forward10: "10 ਸਕਿੰਟ ਅੱਗੇ",
+  forward10Short: "10 ਸ. ਅੱਗੇ",
+  prevTrack: "ਪਿਛਲਾ ਗੀਤ",
+  nextTrack: "ਅਗਲਾ ਗੀਤ",
+  mute: "ਆਵਾਜ਼ ਬੰਦ",
+  unmute: "ਆਵਾਜ਼ ਚਾਲੂ",
+  vol: "ਆਵਾਜ਼",
+  volume: "ਆਵਾਜ਼ ਦਾ ਪੱਧਰ",
+  shuffle: "ਕ੍ਰਮ ਬਦਲੋ",
+  repeatMode: "ਦੁਹਰਾਓ",
+  repeatAll: "ਸਾਰੇ",
+  repeatOne: "ਇੱਕ",
+  repeatOff: "ਬੰਦ",
+  repeatLabel: "ਦੁਹਰਾਓ: {mode}",
+  beat: "ਤਾਲ",
+  beatLabel: "ਪ੍ਰਭਾਵਾਂ ਨੂੰ ਸੰਗੀਤ ਦੀ ਤਾਲ ਨਾਲ ਜੋੜੋ",
+  beatTitle: "ਤਾਲ ਮੋਡ: ਪ੍ਰਭਾਵ ਸੰਗੀਤ ਦੇ ਨਾਲ ਚੱਲਦੇ ਹਨ",
+  waveform: "ਤਰੰਗ",
+  showWaveform: "ਤਰੰਗ ਦਿਖਾਓ",
+  backgroundAudio: "ਟੈਬ ਲੁਕੀ ਹੋਣ 'ਤੇ ਸੰਗੀਤ",
+  backgroundPlay: "ਲੁਕੀ ਟੈਬ: ਵੱਜਦਾ ਰਹੇ",
+  backgroundPause: "ਲੁਕੀ ਟੈਬ: ਰੋਕੋ",
+  backgroundDuck: "ਲੁਕੀ ਟੈਬ: ਹੌਲੀ",
+  sleepTimer: "ਸਲੀਪ ਟਾਈਮਰ",
+  sleepOff: "ਸਲੀਪ: ਬੰਦ",
+  sleepMinutes: "ਸਲੀਪ: {n} ਮਿੰਟ",
+  sleepTrack: "ਸਲੀਪ: ਗੀਤ ਖਤਮ ਹੋਣ 'ਤੇ",
+  sleepLeft: "ਸੰਗੀਤ {time} ਵਿੱਚ ਰੁਕੇਗਾ",
+  seek: "ਸਮਾਂ ਚੁਣੋ",
+  timeOf: "{dur} ਵਿੱਚੋਂ {curr}",
+  goToSlide: "ਸਲਾਈਡ {n} 'ਤੇ ਜਾਓ",
+  goToMessage: "ਸੁਨੇਹੇ 'ਤੇ ਜਾਓ",
+  slideshow: "ਦੀਵਾਲੀ ਸਲਾਈਡਸ਼ੋ",
+  slideOf: "ਸਲਾਈਡ {n} / {total}",
+  chooseSlide: "ਸਲਾਈਡ ਚੁਣੋ",
+  personalMessage: "ਤੁਹਾਡਾ ਨਿੱਜੀ ਸੁਨੇਹਾ",
+  previous: "ਪਿਛਲਾ",
+  next: "ਅਗਲਾ",
+  dear: "ਪਿਆਰੇ {name},",
+  withLove: "— ਪਿਆਰ ਸਹਿਤ, {name}",
+  endMessage: "ਦੀਵਿਆਂ ਦੀ ਰੌਸ਼ਨੀ ਤੁਹਾਡੇ ਘਰ ਨੂੰ ਖੁਸ਼ੀ, ਸਿਹਤ ਅਤੇ ਖੁਸ਼ਹਾਲੀ ਨਾਲ ਭਰ ਦੇਵੇ। ਦੀਵਾਲੀ ਦੀਆਂ ਸ਼ੁਭਕਾਮਨਾਵਾਂ!",
+  builtWith: "React + TypeScript ਨਾਲ ਬਣਾਇਆ (ਇਮੇਜ FX)",
+  language: "ਭਾਸ਼ਾ",
+  pinGreeting: "ਸ਼ੁਭਕਾਮਨਾ ਬਦਲਣਾ ਰੋਕੋ (ਮੇਰੀ ਭਾਸ਼ਾ ਵਿੱਚ ਰੱਖੋ)",
+  createCard: "ਆਪਣਾ ਕਾਰਡ ਬਣਾਓ",
+  createCardTitle: "ਨਿੱਜੀ ਕਾਰਡ ਦਾ ਲਿੰਕ ਬਣਾਓ",
+  to: "ਕਿਸ ਨੂੰ",
+  from: "ਕਿਸ ਵੱਲੋਂ",
+  message: "ਸੁਨੇਹਾ",
+  toPlaceholder: "ਮਾਂ",
+  fromPlaceholder: "ਤੁਹਾਡਾ ਨਾਮ",
+  messagePlaceholder: "ਤੁਹਾਨੂੰ ਰੌਸ਼ਨੀ, ਖੁਸ਼ੀ ਅਤੇ ਖੁਸ਼ਹਾਲੀ ਦੀਆਂ ਸ਼ੁਭਕਾਮਨਾਵਾਂ…",
+  cardLink: "ਕਾਰਡ ਦਾ ਲਿੰਕ",
+  copyLink: "ਲਿੰਕ ਕਾਪੀ ਕਰੋ",
+  copied: "ਕਾਪੀ ਹੋ ਗਿਆ ✓",
+  copyFailed: "ਕਾਪੀ ਨਹੀਂ ਹੋ ਸਕਿਆ; ਉੱਪਰ ਦਿੱਤਾ ਲਿੰਕ ਚੁਣ ਕੇ ਆਪ ਕਾਪੀ ਕਰੋ।",
+  export: "ਨਿਰਯਾਤ",
+  exportTitle: "ਵੀਡੀਓ ਜਾਂ ਤਸਵੀਰ ਨਿਰਯਾਤ ਕਰੋ",
+  format: "ਫਾਰਮੈਟ",
+  size: "ਆਕਾਰ",
+  frameRate: "ਫ੍ਰੇਮ ਦਰ",
+  includeMusic: "ਸੰਗੀਤ ਸ਼ਾਮਲ ਕਰੋ",
+  exportVideo: "ਵੀਡੀਓ – ਪੂਰਾ ਡੈੱਕ (WebM)",
+  exportPng: "ਤਸਵੀਰ – ਇਹ ਸਲਾਈਡ (PNG)",
+  exportGif: "ਤਸਵੀਰ – ਇਹ ਸਲਾਈਡ (GIF)",
+  exportDuration: "ਲਗਭਗ {s} ਸਕਿੰਟ ਲੱਗਣਗੇ; ਇਹ ਟੈਬ ਖੁੱਲ੍ਹੀ ਰੱਖੋ।",
+  cancel: "ਰੱਦ ਕਰੋ",
+  deckProblems: "ਸਲਾਈਡ ਡੈੱਕ {url}: {count} ਸਮੱਸਿਆ(ਵਾਂ)",
+  dismissDeckProblems: "ਡੈੱਕ ਦੀਆਂ ਸਮੱਸਿਆਵਾਂ ਲੁਕਾਓ",
+  openPresenter: "ਪੇਸ਼ਕਾਰ",
+  openPresenterTitle: "ਪੇਸ਼ਕਾਰ ਦ੍ਰਿਸ਼ ਨਵੀਂ ਵਿੰਡੋ ਵਿੱਚ ਖੋਲ੍ਹੋ",
+  presenterTitle: "ਪੇਸ਼ਕਾਰ ਦ੍ਰਿਸ਼",
+  waitingForDisplay: "ਸ਼ੋਅ ਦੀ ਉਡੀਕ… ਇਸਨੂੰ ਇਸੇ ਬ੍ਰਾਊਜ਼ਰ ਦੀ ਦੂਜੀ ਟੈਬ ਜਾਂ ਵਿੰਡੋ ਵਿੱਚ ਖੋਲ੍ਹੋ।",
+  currentSlide: "ਹੁਣ: ਸਲਾਈਡ {n} / {total}",
+  nextSlide: "ਅਗਲੀ",
+  notes: "ਨੋਟ",
+  noNotes: "ਇਸ ਸਲਾਈਡ ਲਈ ਕੋਈ ਨੋਟ ਨਹੀਂ।",
+  elapsed: "ਬੀਤਿਆ ਸਮਾਂ",
+  onSlide: "ਇਸ ਸਲਾਈਡ 'ਤੇ",
+  pauseAutoplay: "ਆਪਣੇ-ਆਪ ਚੱਲਣਾ ਰੋਕੋ",
+  resumeAutoplay: "ਆਪਣੇ-ਆਪ ਚੱਲਣਾ ਮੁੜ ਸ਼ੁਰੂ ਕਰੋ",
+  music: "ਸੰਗੀਤ",
+  nothingPlaying: "ਕੁਝ ਨਹੀਂ ਚੱਲ ਰਿਹਾ",
+  offlineSaving: "ਆਫ਼ਲਾਈਨ ਲਈ ਸੰਭਾਲਿਆ ਜਾ ਰਿਹਾ ਹੈ {done}/{total}",
+  offlineReady: "ਆਫ਼ਲਾਈਨ ਉਪਲਬਧ",
+  offlineMissing: "{failed} ਫ਼ਾਈਲਾਂ ਆਫ਼ਲਾਈਨ ਲਈ ਨਹੀਂ ਸੰਭਾਲੀਆਂ ਗਈਆਂ",
+  offlineNow: "ਆਫ਼ਲਾਈਨ",
+  updateReady: "ਅੱਪਡੇਟ",
+  updateReadyTitle: "ਸ਼ੋਅ ਦਾ ਨਵਾਂ ਸੰਸਕਰਣ ਤਿਆਰ ਹੈ; ਵਰਤਣ ਲਈ ਮੁੜ ਲੋਡ ਕਰੋ",
+  install: "ਇੰਸਟਾਲ ਕਰੋ",
+  installTitle: "ਸ਼ੋਅ ਨੂੰ ਹੋਮ ਸਕ੍ਰੀਨ 'ਤੇ ਜੋੜੋ",
+  focalTool: "ਕੇਂਦਰ ਬਿੰਦੂ",
+  focalToolTitle: "ਚੁਣੋ ਕਿ ਹਰ ਤਸਵੀਰ ਕਿਵੇਂ ਕੱਟੀ ਜਾਵੇ ਅਤੇ ਉਸਦੀ ਸਲਾਈਡ ਸੈਟਿੰਗ ਕਾਪੀ ਕਰੋ",
+  focalHelp: "ਤਸਵੀਰ ਦੇ ਉਸ ਹਿੱਸੇ 'ਤੇ ਕਲਿੱਕ ਕਰੋ ਜੋ ਹਮੇਸ਼ਾ ਦਿਖਣਾ ਚਾਹੀਦਾ ਹੈ।",
+  focalPickImage: "ਸਲਾਈਡ ਦੀ ਤਸਵੀਰ; ਕੇਂਦਰ ਬਿੰਦੂ ਚੁਣਨ ਲਈ ਕਲਿੱਕ ਕਰੋ",
+  fit: "ਫਿੱਟ",
+  fitCover: "ਭਰੋ (ਕੱਟੋ)",
+  fitContain: "ਪੂਰੀ ਤਸਵੀਰ",
+  fitBlur: "ਪੂਰੀ ਤਸਵੀਰ, ਧੁੰਦਲੇ ਕਿਨਾਰੇ",
+  slideConfig: "ਸਲਾਈਡ ਸੈਟਿੰਗ",
+  copyConfig: "ਸਲਾਈਡ ਸੈਟਿੰਗ ਕਾਪੀ ਕਰੋ",
+  copyConfigFailed: "ਕਾਪੀ ਨਹੀਂ ਹੋ ਸਕਿਆ; ਉੱਪਰ ਦਿੱਤੀ ਸੈਟਿੰਗ ਚੁਣ ਕੇ ਆਪ ਕਾਪੀ ਕਰੋ।",
+  close: "ਬੰਦ ਕਰੋ",
+  openEditor: "ਡੈੱਕ ਸੋਧੋ",
+  openEditorTitle: "ਬ੍ਰਾਊਜ਼ਰ ਵਿੱਚ ਹੀ ਸਲਾਈਡ ਡੈੱਕ ਬਣਾਓ ਅਤੇ ਸੋਧੋ",
+  editorTitle: "ਡੈੱਕ ਸੰਪਾਦਕ",
+  editorSaved: "ਇਸ ਬ੍ਰਾਊਜ਼ਰ ਵਿੱਚ ਸੰਭਾਲਿਆ ਗਿਆ",
+  addPictures: "ਤਸਵੀਰਾਂ ਜੋੜੋ",
+  importDeck: "ਆਯਾਤ ਕਰੋ",
+  importDeckTitle: "ਡੈੱਕ ਦੀ JSON ਫ਼ਾਈਲ ਖੋਲ੍ਹੋ",
+  importFailed: "{name} ਡੈੱਕ ਫ਼ਾਈਲ ਨਹੀਂ ਹੈ: {error}",
+  exportDeck: "ਨਿਰਯਾਤ ਕਰੋ",
+  exportDeckTitle: "ਇਸ ਡੈੱਕ ਨੂੰ JSON ਫ਼ਾਈਲ ਵਜੋਂ ਡਾਊਨਲੋਡ ਕਰੋ ਜਿਸਨੂੰ ਸ਼ੋਅ ਚਲਾ ਸਕੇ",
+  playDeck: "ਚਲਾਓ",
+  playDeckTitle: "ਇਹ ਡੈੱਕ ਦਿਖਾਓ",
+  backToShow: "ਸ਼ੋਅ 'ਤੇ ਵਾਪਸ ਜਾਓ",
+  editorEmpty: "ਡੈੱਕ ਸ਼ੁਰੂ ਕਰਨ ਲਈ ਤਸਵੀਰਾਂ ਜੋੜੋ।",
+  deckSlides: "ਸਲਾਈਡਾਂ",
+  secondsPerSlide: "ਹਰ ਸਲਾਈਡ ਲਈ ਸਕਿੰਟ",
+  theme: "ਥੀਮ",
+  moveUp: "ਉੱਪਰ ਲਿਜਾਓ",
+  moveDown: "ਹੇਠਾਂ ਲਿਜਾਓ",
+  removeSlide: "ਸਲਾਈਡ ਹਟਾਓ",
+  caption: "ਕੈਪਸ਼ਨ",
+  altText: "ਵਿਕਲਪਿਕ ਲਿਖਤ",
+  transition: "ਬਦਲਾਅ",
+  kenBurns: "ਹੌਲੀ ਪੈਨ ਅਤੇ ਜ਼ੂਮ",
+  effects: "ਪ੍ਰਭਾਵ",
+  resetOption: "{name} ਨੂੰ ਡਿਫ਼ਾਲਟ 'ਤੇ ਮੋੜੋ",
+  fireworkPoints: "ਆਤਿਸ਼ਬਾਜ਼ੀ ਦੀਆਂ ਥਾਵਾਂ",
+  fireworkPoint: "ਆਤਿਸ਼ਬਾਜ਼ੀ {n}; ਹਿਲਾਉਣ ਲਈ ਖਿੱਚੋ ਜਾਂ ਤੀਰ ਕੁੰਜੀਆਂ ਵਰਤੋ",
+  addFirework: "ਆਤਿਸ਼ਬਾਜ਼ੀ ਜੋੜੋ",
+  removeFirework: "ਆਤਿਸ਼ਬਾਜ਼ੀ {n} ਹਟਾਓ",
+  fireworkDelay: "ਦੇਰੀ (ਸ.)",
+  particleLayers: "ਕਣਾਂ ਦੀਆਂ ਪਰਤਾਂ",
+  particlesReplace: "ਕਣਾਂ ਦੀਆਂ ਪਰਤਾਂ ਚੰਗਿਆੜੀਆਂ ਅਤੇ ਆਤਿਸ਼ਬਾਜ਼ੀ ਦੀਆਂ ਥਾਵਾਂ ਦੀ ਥਾਂ ਲੈਂਦੀਆਂ ਹਨ।",
+  addLayer: "ਪਰਤ ਜੋੜੋ",
+  removeLayer: "ਪਰਤ {n} ਹਟਾਓ",
+  countdownTo: "{name} ਦੀ ਉਲਟੀ ਗਿਣਤੀ",
+  countdownAt: "{time}, ਤੁਹਾਡੇ ਸਮੇਂ ਅਨੁਸਾਰ",
+  countdownStarted: "{name} ਦਾ ਸ਼ੁਭ ਮਹੂਰਤ ਆ ਗਿਆ!",
+  countdownCustom: "ਤਿਉਹਾਰ",
+  unitDays: "ਦਿਨ",
+  unitHours: "ਘੰਟੇ",
+  unitMinutes: "ਮਿੰਟ",
+  unitSeconds: "ਸਕਿੰਟ",
+  dhanteras: "ਧਨਤੇਰਸ",
+  narakaChaturdashi: "ਨਰਕ ਚਤੁਰਦਸ਼ੀ",
+  lakshmiPuja: "ਲਕਸ਼ਮੀ ਪੂਜਾ",
+  govardhanPuja: "ਗੋਵਰਧਨ ਪੂਜਾ",
+  bhaiDooj: "ਭਾਈ ਦੂਜ",
+  share: "ਸਾਂਝਾ ਕਰੋ",
+  shareTitle: "ਇਸ ਸਲਾਈਡ ਦਾ ਲਿੰਕ ਸਾਂਝਾ ਕਰੋ",
+  linkCopied: "ਲਿੰਕ ਕਾਪੀ ਹੋ ਗਿਆ ✓",
+  shareCopyFailed: "ਲਿੰਕ ਕਾਪੀ ਨਹੀਂ ਹੋ ਸਕਿਆ",
+};
+
+const OR: Messages = {
+  play: "ଚଲାନ୍ତୁ",
+  pause: "ବିରତି",
+  playAudio: "ସଙ୍ଗୀତ ଚଲାନ୍ତୁ",
+  pauseAudio: "ସଙ୍ଗୀତ ବନ୍ଦ କରନ୍ତୁ",
+  back10: "10 ସେକେଣ୍ଡ ପଛକୁ",
+  back10Short: "10 ସେ. ପଛକୁ",
+  forward10: "10 ସେକେଣ୍ଡ ଆଗକୁ",
+  forward10Short: "10 ସେ. ଆଗକୁ",
+  prevTrack: "ପୂର୍ବ ଗୀତ",
+  nextTrack: "ପରବର୍ତ୍ତୀ ଗୀତ",
+  mute: "ଶବ୍ଦ ବନ୍ଦ",
+  unmute: "ଶବ୍ଦ ଚାଲୁ",
+  vol: "ଶବ୍ଦ",
+  volume: "ଶବ୍ଦ ସ୍ତର",
+  shuffle: "କ୍ରମ ବଦଳାନ୍ତୁ",
+  repeatMode: "ପୁନରାବୃତ୍ତି",
+  repeatAll: "ସବୁ",
+  repeatOne: "ଗୋଟିଏ",
+  repeatOff: "ବନ୍ଦ",
+  repeatLabel: "ପୁନରାବୃତ୍ତି: {mode}",
+  beat: "ତାଳ",
+  beatLabel: "ପ୍ରଭାବଗୁଡ଼ିକୁ ସଙ୍ଗୀତର ତାଳ ସହ ମିଳାନ୍ତୁ",
+  beatTitle: "ତାଳ ମୋଡ୍: ପ୍ରଭାବ ସଙ୍ଗୀତ ସହିତ ଚାଲେ",
+  waveform: "ତରଙ୍ଗ",
+  showWaveform: "ତରଙ୍ଗ ଦେଖାନ୍ତୁ",
+  backgroundAudio: "ଟ୍ୟାବ୍ ଲୁଚିଥିବା ବେଳେ ସଙ୍ଗୀତ",
+  backgroundPlay: "ଲୁଚିଥିବା ଟ୍ୟାବ୍: ବାଜୁଥାଉ",
+  backgroundPause: "ଲୁଚିଥିବା ଟ୍ୟାବ୍: ବିରତି",
+  backgroundDuck: "ଲୁଚିଥିବା ଟ୍ୟାବ୍: ଧୀରେ",
+  sleepTimer: "ସ୍ଲିପ୍ ଟାଇମର୍",
+  sleepOff: "ସ୍ଲିପ୍: ବନ୍ଦ",
+  sleepMinutes: "ସ୍ଲିପ୍: {n} ମିନିଟ୍",
+  sleepTrack: "ସ୍ଲିପ୍: ଗୀତ ଶେଷ ହେଲେ",
+  sleepLeft: "ସଙ୍ଗୀତ {time} ପରେ ବନ୍ଦ ହେବ",
+  seek: "ସମୟ ବାଛନ୍ତୁ",
+  timeOf: "{dur} ମଧ୍ୟରୁ {curr}",
+  goToSlide: "ସ୍ଲାଇଡ୍ {n} କୁ ଯାଆନ୍ତୁ",
+  goToMessage: "ସନ୍ଦେଶକୁ ଯାଆନ୍ତୁ",
+  slideshow: "ଦୀପାବଳି ସ୍ଲାଇଡଶୋ",
+  slideOf: "ସ୍ଲାଇଡ୍ {n} / {total}",
+  chooseSlide: "ଏକ ସ୍ଲାଇଡ୍ ବାଛନ୍ତୁ",
+  personalMessage: "ଆପଣଙ୍କ ବ୍ୟକ୍ତିଗତ ସନ୍ଦେଶ",
+  previous: "ପୂର୍ବ",
+  next: "ପରବର୍ତ୍ତୀ",
+  dear: "ପ୍ରିୟ {name},",
+  withLove: "— ସ୍ନେହର ସହ, {name}",
+  endMessage: "ଦୀପର ଆଲୋକ ଆପଣଙ୍କ ଘରକୁ ଆନନ୍ଦ, ସୁସ୍ୱାସ୍ଥ୍ୟ ଓ ସମୃଦ୍ଧିରେ ଭରିଦେଉ। ଦୀପାବଳିର ଶୁଭେଚ୍ଛା!",
+  builtWith: "React + TypeScript ରେ ନିର୍ମିତ (ଇମେଜ୍ FX)",
+  language: "ଭାଷା",
+  pinGreeting: "ଶୁଭେଚ୍ଛା ବଦଳିବା ବନ୍ଦ କରନ୍ତୁ (ମୋ ଭାଷାରେ ରଖନ୍ତୁ)",
+  createCard: "ଆପଣଙ୍କ କାର୍ଡ ତିଆରି କରନ୍ତୁ",
+  createCardTitle: "ବ୍ୟକ୍ତିଗତ କାର୍ଡର ଲିଙ୍କ୍ ତିଆରି କରନ୍ତୁ",
+  to: "କାହାକୁ",
+  from: "କାହା ତରଫରୁ",
+  message: "ସନ୍ଦେଶ",
+  toPlaceholder: "ମା",
+  fromPlaceholder: "ଆପଣଙ୍କ ନାମ",
+  messagePlaceholder: "ଆପଣଙ୍କୁ ଆଲୋକ, ଆନନ୍ଦ ଓ ସମୃଦ୍ଧିର ଶୁଭେଚ୍ଛା…",
+  cardLink: "କାର୍ଡର ଲିଙ୍କ୍",
+  copyLink: "ଲିଙ୍କ୍ କପି କରନ୍ତୁ",
+  copied: "କପି ହୋଇଗଲା ✓",
+  copyFailed: "କପି ହୋଇପାରିଲା ନାହିଁ; ଉପରର ଲିଙ୍କ୍ ବାଛି ନିଜେ କପି କରନ୍ତୁ।",
+  export: "ରପ୍ତାନି",
+  exportTitle: "ଭିଡିଓ କିମ୍ବା ଛବି ରପ୍ତାନି କରନ୍ତୁ",
+  format: "ଫର୍ମାଟ୍",
+  size: "ଆକାର",
+  frameRate: "ଫ୍ରେମ୍ ହାର",
+  includeMusic: "ସଙ୍ଗୀତ ଯୋଡ଼ନ୍ତୁ",
+  exportVideo: "ଭିଡିଓ – ସମ୍ପୂର୍ଣ୍ଣ ଡେକ୍ (WebM)",
+  exportPng: "ଛବି – ଏହି ସ୍ଲାଇଡ୍ (PNG)",
+  exportGif: "ଛବି – ଏହି ସ୍ଲାଇଡ୍ (GIF)",
+  exportDuration: "ପ୍ରାୟ {s} ସେକେଣ୍ଡ ଲାଗିବ; ଏହି ଟ୍ୟାବ୍ ଖୋଲା ରଖନ୍ତୁ।",
+  cancel: "ବାତିଲ୍",
+  deckProblems: "ସ୍ଲାଇଡ୍ ଡେକ୍ {url}: {count}ଟି ସମସ୍ୟା",
+  dismissDeckProblems: "ଡେକ୍ ସମସ୍ୟା ଲୁଚାନ୍ତୁ",
+  openPresenter: "ଉପସ୍ଥାପକ",
+  openPresenterTitle: "ଉପସ୍ଥାପକ ଦୃଶ୍ୟ ନୂଆ ୱିଣ୍ଡୋରେ ଖୋଲନ୍ତୁ",
+  presenterTitle: "ଉପସ୍ଥାପକ ଦୃଶ୍ୟ",
+  waitingForDisplay: "ଶୋ ପାଇଁ ଅପେକ୍ଷା… ଏହାକୁ ଏହି ବ୍ରାଉଜରର ଅନ୍ୟ ଟ୍ୟାବ୍ କିମ୍ବା ୱିଣ୍ଡୋରେ ଖୋଲନ୍ତୁ।",
+  currentSlide: "ବର୍ତ୍ତମାନ: ସ୍ଲାଇଡ୍ {n} / {total}",
+  nextSlide: "ପରବର୍ତ୍ତୀ",
+  notes: "ଟିପ୍ପଣୀ",
+  noNotes: "ଏହି ସ୍ଲାଇଡ୍ ପାଇଁ କୌଣସି ଟିପ୍ପଣୀ ନାହିଁ।",
+  elapsed: "ବିତିଥିବା ସମୟ",
+  onSlide: "ଏହି ସ୍ଲାଇଡରେ",
+  pauseAutoplay: "ସ୍ୱୟଂଚାଳନ ବନ୍ଦ କରନ୍ତୁ",
+  resumeAutoplay: "ସ୍ୱୟଂଚାଳନ ପୁଣି ଆରମ୍ଭ କରନ୍ତୁ",
+  music: "ସଙ୍ଗୀତ",
+  nothingPlaying: "କିଛି ବାଜୁନାହିଁ",
+  offlineSaving: "ଅଫଲାଇନ୍ ପାଇଁ ସଞ୍ଚୟ ହେଉଛି {done}/{total}",
+  offlineReady: "ଅଫଲାଇନରେ ଉପଲବ୍ଧ",
+  offlineMissing: "{failed}ଟି ଫାଇଲ୍ ଅଫଲାଇନ୍ ପାଇଁ ସଞ୍ଚୟ ହୋଇନାହିଁ",
+  offlineNow: "ଅଫଲାଇନ୍",
+  updateReady: "ଅପଡେଟ୍",
+  updateReadyTitle: "ଶୋର ନୂଆ ସଂସ୍କରଣ ପ୍ରସ୍ତୁତ; ବ୍ୟବହାର କରିବାକୁ ପୁଣି ଲୋଡ୍ କରନ୍ତୁ",
+  install: "ଇନଷ୍ଟଲ୍ କରନ୍ତୁ",
+  installTitle: "ଶୋକୁ ହୋମ୍ ସ୍କ୍ରିନରେ ଯୋଡ଼ନ୍ତୁ",
+  focalTool: "କେନ୍ଦ୍ର ବିନ୍ଦୁ",
+  focalToolTitle: "ପ୍ରତ୍ୟେକ ଛବି କିପରି କଟାଯିବ ବାଛନ୍ତୁ ଓ ତାହାର ସ୍ଲାଇଡ୍ ସେଟିଂ କପି କରନ୍ତୁ",
+  focalHelp: "ଛବିର ଯେଉଁ ଅଂଶ ସବୁବେଳେ ଦେଖାଯିବା ଉଚିତ ସେଠାରେ କ୍ଲିକ୍ କରନ୍ତୁ।",
+  focalPickImage: "ସ୍ଲାଇଡର ଛବି; କେନ୍ଦ୍ର ବିନ୍ଦୁ ସ୍ଥିର କରିବାକୁ କ୍ଲିକ୍ କରନ୍ତୁ",
+  fit: "ଫିଟ୍",
+  fitCover: "ଭରନ୍ତୁ (କାଟନ୍ତୁ)",
+  fitContain: "ସମ୍ପୂର୍ଣ୍ଣ ଛବି",
+  fitBlur: "ସମ୍ପୂର୍ଣ୍ଣ ଛବି, ଅସ୍ପଷ୍ଟ ଧାର",
+  slideConfig: "ସ୍ଲାଇଡ୍ ସେଟିଂ",
+  copyConfig: "ସ୍ଲାଇଡ୍ ସେଟିଂ କପି କରନ୍ତୁ",
+  copyConfigFailed: "କପି ହୋଇପାରିଲା ନାହିଁ; ଉପରର ସେଟିଂ ବାଛି ନିଜେ କପି କରନ୍ତୁ।",
+  close: "ବନ୍ଦ କରନ୍ତୁ",
+  openEditor: "ଡେକ୍ ସମ୍ପାଦନ",
+  openEditorTitle: "ବ୍ରାଉଜରରେ ହିଁ ସ୍ଲାଇଡ୍ ଡେକ୍ ତିଆରି ଓ ସମ୍ପାଦନ କରନ୍ତୁ",
+  editorTitle: "ଡେକ୍ ସମ୍ପାଦକ",
+  editorSaved: "ଏହି ବ୍ରାଉଜରରେ ସଞ୍ଚିତ",
+  addPictures: "ଛବି ଯୋଡ଼ନ୍ତୁ",
+  importDeck: "ଆମଦାନି",
+  importDeckTitle: "ଡେକର JSON ଫାଇଲ୍ ଖୋଲନ୍ତୁ",
+  importFailed: "{name} ଡେକ୍ ଫାଇଲ୍ ନୁହେଁ: {error}",
+  exportDeck: "ରପ୍ତାନି",
+  exportDeckTitle: "ଶୋ ଚଲାଇପାରୁଥିବା JSON ଫାଇଲ୍ ଭାବେ ଏହି ଡେକ୍ ଡାଉନଲୋଡ୍ କରନ୍ତୁ",
+  playDeck: "ଚଲାନ୍ତୁ",
+  playDeckTitle: "ଏହି ଡେକ୍ ଦେଖାନ୍ତୁ",
+  backToShow: "ଶୋକୁ ଫେରନ୍ତୁ",
+  editorEmpty: "ଡେକ୍ ଆରମ୍ଭ କରିବାକୁ ଛବି ଯୋଡ଼ନ୍ତୁ।",
+  deckSlides: "ସ୍ଲାଇଡ୍",
+  secondsPerSlide: "ପ୍ରତି ସ୍ଲାଇଡରେ ସେକେଣ୍ଡ",
+  theme: "ଥିମ୍",
+  moveUp: "ଉପରକୁ ନିଅନ୍ତୁ",
+  moveDown: "ତଳକୁ ନିଅନ୍ତୁ",
+  removeSlide: "ସ୍ଲାଇଡ୍ ହଟାନ୍ତୁ",
+  caption: "କ୍ୟାପସନ୍",
+  altText: "ବିକଳ୍ପ ଲେଖା",
+  transition: "ପରିବର୍ତ୍ତନ",
+  kenBurns: "ଧୀର ପ୍ୟାନ୍ ଓ ଜୁମ୍",
+  effects: "ପ୍ରଭାବ",
+  resetOption: "{name} କୁ ଡିଫଲ୍ଟକୁ ଫେରାନ୍ତୁ",
+  fireworkPoints: "ବାଣ ଫୁଟିବା ସ୍ଥାନ",
+  fireworkPoint: "ବାଣ {n}; ଘୁଞ୍ଚାଇବାକୁ ଟାଣନ୍ତୁ କିମ୍ବା ତୀର ଚାବି ବ୍ୟବହାର କରନ୍ତୁ",
+  addFirework: "ବାଣ ଯୋଡ଼ନ୍ତୁ",
+  removeFirework: "ବାଣ {n} ହଟାନ୍ତୁ",
+  fireworkDelay: "ବିଳମ୍ବ (ସେ.)",
+  particleLayers: "କଣିକା ସ୍ତର",
+  particlesReplace: "କଣିକା ସ୍ତର ଫୁଲିଙ୍ଗ ଓ ବାଣ ସ୍ଥାନର ବଦଳରେ ଆସେ।",
+  addLayer: "ସ୍ତର ଯୋଡ଼ନ୍ତୁ",
+  removeLayer: "ସ୍ତର {n} ହଟାନ୍ତୁ",
+  countdownTo: "{name} ପର୍ଯ୍ୟନ୍ତ ଗଣନା",
+  countdownAt: "{time}, ଆପଣଙ୍କ ସମୟ ଅନୁସାରେ",
+  countdownStarted: "{name}ର ଶୁଭ ମୁହୂର୍ତ୍ତ ଆସିଗଲା!",
+  countdownCustom: "ଉତ୍ସବ",
+  unitDays: "ଦିନ",
+  unitHours: "ଘଣ୍ଟା",
+  unitMinutes: "ମିନିଟ୍",
+  unitSeconds: "ସେକେଣ୍ଡ",
+  dhanteras: "ଧନତ୍ରୟୋଦଶୀ",
+  narakaChaturdashi: "ନରକ ଚତୁର୍ଦ୍ଦଶୀ",
+  lakshmiPuja: "ଲକ୍ଷ୍ମୀ ପୂଜା",
+  govardhanPuja: "ଗୋବର୍ଦ୍ଧନ ପୂଜା",
+  bhaiDooj: "ଭାଇ ଦ୍ୱିତୀୟା",
+  share: "ସେୟାର୍",
+  shareTitle: "ଏହି ସ୍ଲାଇଡର ଲିଙ୍କ୍ ସେୟାର୍ କରନ୍ତୁ",
+  linkCopied: "ଲିଙ୍କ୍ କପି ହୋଇଗଲା ✓",
+  shareCopyFailed: "ଲିଙ୍କ୍ କପି ହୋଇପାରିଲା ନାହିଁ",
+};
+
+export const MESSAGES = { en: EN, hi: HI, bn: BN, gu: GU, kn: KN, ml: ML, te: TE, ta: TA, pa: PA, or: OR };
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { imageUrls } from "./images";
+import { loadDeck, type LoadedDeck } from "./slideDeck";
+
+/**
+ * Offline support
+ * Registers the service worker (public/sw.js) in production builds and has it save the
+ * active deck: manifest, slide images (with their responsive variants), music and the
+ * page's own scripts and styles.
+ * It also notices a new app version (a waiting worker) or a redeployed deck, and holds
+ * on to the browser's install prompt for an Install button.
+ */
+
+export type CacheStatus =
+  | { state: "unsupported" }
+  | { state: "saving"; done: number; failed: number; total: number }
+  | { state: "ready"; failed: number; total: number };
+
+export type OfflineState = {
+  cache: CacheStatus;
+  online: boolean;
+  /** A new app version or deck is out; `applyUpdate` reloads into it. */
+  updateReady: boolean;
+  applyUpdate: () => void;
+  /** Set while the browser offers installation. */
+  install: (() => void) | null;
+};
+
+const SW_URL = "/sw.js";
+const UPDATE_CHECK_MS = 10 * 60 * 1000;
+// Dev servers rebuild modules constantly; a worker there would only serve stale code.
+const SUPPORTED = import.meta.env.PROD && typeof navigator !== "undefined" && "serviceWorker" in navigator;
+
+type BeforeInstallPromptEvent = Event & { prompt: () => Promise<void> };
+type CacheProgress = { type: "cache-progress"; done: number; failed: number; total: number };
+
+/** Everything the show needs offline: the manifest, images and tracks, plus the built page. */
+export function offlineUrls(deck: LoadedDeck): string[] {
+  const page = Array.from(
+    document.querySelectorAll<HTMLScriptElement | HTMLLinkElement>("script[src], link[rel=stylesheet], link[rel=modulepreload]"),
+    (el) => (el instanceof HTMLScriptElement ? el.src : el.href),
+  );
+  // Chunks imported on demand (the exporter) are only known once loaded: they come along
+  // when the deck is saved after first use, else exporting needs the network.
+  const chunks = performance
+    .getEntriesByType("resource")
+    .map((e) => e.name)
+    .filter((u) => u.startsWith(location.origin) && /\.(js|css)(\?|$)/.test(u));
+  // An editor deck (`?deck=local`) is in IndexedDB already, and its blob: URLs can't be fetched.
+  const fetchable = (u: string) => /^(https?:|\/)/.test(u);
+  return [
+    ...new Set([
+      ...(deck.source === "manifest" && deck.url ? [deck.url] : []),
+      ...deck.slides.flatMap((s) => imageUrls(s.src)),
+      ...deck.playlist.map((t) => t.src),
+      ...page,
+      ...chunks,
+    ]),
+  ].filter(fetchable);
+}
+
+const deckSignature = (d: LoadedDeck) => JSON.stringify([d.slides, d.playlist, d.intervalMs]);
+
+export function useOffline(deck: LoadedDeck | null): OfflineState {
+  const [cache, setCache] = useState<CacheStatus>(() =>
+    SUPPORTED ? { state: "saving", done: 0, failed: 0, total: 0 } : { state: "unsupported" });
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [deckChanged, setDeckChanged] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  // ---------- registration and new versions ----------
+  useEffect(() => {
+    if (!SUPPORTED) return;
+    let alive = true;
+    const sw = navigator.serviceWorker;
+    // Only an update waits behind a controller; the very first install takes over at once.
+    const watch = (w: ServiceWorker) => w.addEventListener("statechange", () => {
+      if (alive && w.state === "installed" && sw.controller) setWaiting(w);
+    });
+    sw.register(SW_URL).then((r) => {
+      if (!alive) return;
+      setRegistration(r);
+      if (r.waiting && sw.controller) setWaiting(r.waiting);
+      if (r.installing) watch(r.installing);
+      r.addEventListener("updatefound", () => { if (r.installing) watch(r.installing); });
+    }).catch(() => { if (alive) setCache({ state: "unsupported" }); });
+
+    const onMessage = (e: MessageEvent<CacheProgress>) => {
+      if (e.data?.type !== "cache-progress") return;
+      const { done, failed, total } = e.data;
+      setCache(done + failed >= total ? { state: "ready", failed, total } : { state: "saving", done, failed, total });
+    };
+    sw.addEventListener("message", onMessage);
+    return () => { alive = false; sw.removeEventListener("message", onMessage); };
+  }, []);
+
+  // ---------- save the deck ----------
+  useEffect(() => {
+    if (!SUPPORTED || !deck) return;
+    let alive = true;
+    navigator.serviceWorker.ready.then((r) => {
+      if (alive) r.active?.postMessage({ type: "precache", urls: offlineUrls(deck) });
+    });
+    return () => { alive = false; };
+  }, [deck]);
+
+  // ---------- periodic update checks ----------
+  useEffect(() => {
+    if (!SUPPORTED || !deck) return;
+    const signature = deckSignature(deck);
+    const check = () => {
+      if (!navigator.onLine) return;
+      registration?.update().catch(() => {});
+      loadDeck().then((d) => { if (d.source === deck.source && deckSignature(d) !== signature) setDeckChanged(true); });
+    };
+    const id = window.setInterval(check, UPDATE_CHECK_MS);
+    window.addEventListener("online", check);
+    return () => { window.clearInterval(id); window.removeEventListener("online", check); };
+  }, [deck, registration]);
+
+  // ---------- connectivity and install ----------
+  useEffect(() => {
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    const onInstallable = (e: Event) => { e.preventDefault(); setInstallEvent(e as BeforeInstallPromptEvent); };
+    const onInstalled = () => setInstallEvent(null);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    window.addEventListener("beforeinstallprompt", onInstallable);
+    window.addEventListener("appinstalled", onInstalled);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.removeEventListener("beforeinstallprompt", onInstallable);
+      window.removeEventListener("appinstalled", onInstalled);
+    };
+  }, []);
+
+  const applyUpdate = () => {
+    if (!waiting) { location.reload(); return; }
+    navigator.serviceWorker.addEventListener("controllerchange", () => location.reload(), { once: true });
+    waiting.postMessage({ type: "skip-waiting" });
+  };
+
+  const install = installEvent
+    ? () => { installEvent.prompt().finally(() => setInstallEvent(null)); }
+    : null;
+
+  return { cache, online, updateReady: Boolean(waiting) || deckChanged, applyUpdate, install };
+}
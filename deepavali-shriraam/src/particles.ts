@@ -0,0 +1,506 @@
+/**
+ * Particle presets
+ * Canvas particle system behind RamImageFX's embers and firework pops. A slide lists
+ * layers in `options.particles`, e.g. `[{ preset: "petals", count: 60 }, { preset: "peony", x: "30%" }]`;
+ * layers combine freely and each runs its own emitter. "Ambient" presets fill the frame
+ * continuously; "burst" presets fire on a timer, or on detected beats in beat mode.
+ * Sizes are in design pixels times `env.scale`, times in seconds.
+ */
+
+export type ParticlePreset = "embers" | "petals" | "sparkler" | "pops" | "peony" | "chrysanthemum" | "rangoli";
+
+export type ParticleLayer = {
+  preset: ParticlePreset;
+  /** Particles on screen (ambient presets) or sparks per burst. */
+  count?: number;
+  /** Colour range; defaults to the slide's hueMin/hueMax (petals and rangoli bring their own). */
+  hueMin?: number;
+  hueMax?: number;
+  /** Pace multiplier, 1 = the preset's natural speed. */
+  speed?: number;
+  /** Emitter position for positioned presets, as percentages like "50%". */
+  x?: string;
+  y?: string;
+  /** Seconds before a burst first fires. */
+  delay?: number;
+};
+
+export type ParticleKind = "ambient" | "burst";
+
+/** Canvas size in pixels, pixels per design pixel, and the random source (seeded for exports). */
+export type ParticleEnv = { width: number; height: number; scale: number; random: () => number };
+
+/** `reactive` is true in beat mode; `drive` is the current loudness × reactivity, 0..2. */
+export type ParticleDrive = { reactive: boolean; drive: number };
+
+type Layer = { count: number; hueMin: number; hueMax: number; speed: number; x: number; y: number; delay: number };
+
+/**
+ * Receives glowing dots for a GPU renderer: position, glow and core radius in canvas
+ * pixels, hue and alpha. See ParticleSystem.sprites.
+ */
+export type SpriteSink = (x: number, y: number, glow: number, core: number, hue: number, alpha: number) => void;
+
+type Emitter = {
+  step: (dt: number, audio: ParticleDrive) => void;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+  /** Burst presets: start a new burst. */
+  fire?: () => void;
+  /** Presets that are plain glowing dots can hand them to a GPU renderer instead of `draw`. */
+  sprites?: (emit: SpriteSink) => void;
+};
+
+type PresetDef = {
+  kind: ParticleKind;
+  /** Default count. */
+  count: number;
+  /** Default emitter position (fractions of the frame). */
+  at?: [number, number];
+  /** Default hue range, overriding the slide's. */
+  hues?: [number, number];
+  /** Seconds between timed bursts. */
+  period?: number;
+  create: (layer: Layer, env: ParticleEnv) => Emitter;
+};
+
+const TAU = Math.PI * 2;
+const QUIET: ParticleDrive = { reactive: false, drive: 0 };
+
+// ---------- shared spark pool (peony, chrysanthemum, rangoli, sparkler) ----------
+type Spark = {
+  x: number; y: number; vx: number; vy: number; life: number; ttl: number; hue: number;
+  trail?: Array<[number, number]>;
+};
+
+type SparkStyle = { gravity: number; drag: number; size: number; trail: number; light: number };
+
+function sparkPool(env: ParticleEnv, style: SparkStyle) {
+  let sparks: Spark[] = [];
+  return {
+    add(s: Spark) { if (style.trail) s.trail = []; sparks.push(s); },
+    step(dt: number) {
+      const drag = Math.exp(-style.drag * dt);
+      for (const s of sparks) {
+        if (s.trail) { s.trail.push([s.x, s.y]); if (s.trail.length > style.trail) s.trail.shift(); }
+        s.vx *= drag;
+        s.vy = s.vy * drag + style.gravity * env.scale * dt;
+        s.x += s.vx * dt;
+        s.y += s.vy * dt;
+        s.life -= dt;
+      }
+      sparks = sparks.filter((s) => s.life > 0);
+    },
+    draw(ctx: CanvasRenderingContext2D) {
+      for (const s of sparks) {
+        const a = Math.max(0, s.life / s.ttl);
+        const color = `hsla(${s.hue}, 100%, ${style.light + 25 * a}%, ${a})`;
+        if (s.trail && s.trail.length > 1) {
+          ctx.strokeStyle = color;
+          ctx.lineWidth = style.size * env.scale * 0.8;
+          ctx.beginPath();
+          ctx.moveTo(s.trail[0][0], s.trail[0][1]);
+          for (const [x, y] of s.trail) ctx.lineTo(x, y);
+          ctx.lineTo(s.x, s.y);
+          ctx.stroke();
+        }
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(s.x, s.y, style.size * env.scale, 0, TAU);
+        ctx.fill();
+      }
+    },
+  };
+}
+
+const pick = (env: ParticleEnv, l: Layer) => l.hueMin + env.random() * (l.hueMax - l.hueMin);
+
+// ---------- presets ----------
+export const PARTICLE_PRESETS: Record<ParticlePreset, PresetDef> = {
+  // Warm embers drifting upward; in beat mode loudness speeds them up and decides how
+  // quickly spent ones come back.
+  embers: {
+    kind: "ambient",
+    count: 80,
+    create(l, env) {
+      type P = { x: number; y: number; vx: number; vy: number; r: number; a: number; hue: number };
+      const { random } = env;
+      const spawn = (p: Partial<P>, anywhere: boolean) => {
+        const s = env.scale;
+        p.x = random() * env.width;
+        p.y = anywhere ? random() * env.height : env.height + 10 * s;
+        p.vx = (random() - 0.5) * 4.8 * s;
+        p.vy = (-7.2 - random() * 12) * s;
+        p.r = (1 + random() * 1.8) * s;
+        p.a = anywhere ? 0.3 + random() * 0.6 : 0.4 + random() * 0.6;
+        p.hue = pick(env, l);
+        return p as P;
+      };
+      const ps = Array.from({ length: l.count }, () => spawn({}, true));
+      return {
+        step(dt, { reactive, drive }) {
+          const speed = (1 + drive) * l.speed;
+          const spawnChance = Math.min(1, (0.03 + drive * 0.5) * dt * 60);
+          for (const p of ps) {
+            p.x += p.vx * speed * dt; p.y += p.vy * speed * dt; p.a -= 0.048 * dt;
+            if (p.y < -10 * env.scale || p.a <= 0.02) {
+              if (reactive && random() > spawnChance) { p.a = 0; continue; }
+              spawn(p, false);
+            }
+          }
+        },
+        draw(ctx) {
+          const s = env.scale;
+          ctx.globalCompositeOperation = "lighter";
+          for (const p of ps) {
+            if (p.a <= 0) continue;
+            const grad = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, 8 * s);
+            grad.addColorStop(0, `hsla(${p.hue}, 100%, 70%, ${0.8 * p.a})`);
+            grad.addColorStop(1, `hsla(${p.hue}, 100%, 40%, 0)`);
+            ctx.fillStyle = grad;
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, 6 * s, 0, TAU);
+            ctx.fill();
+            ctx.fillStyle = `hsla(${p.hue},100%,85%,${0.8 * p.a})`;
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, p.r, 0, TAU);
+            ctx.fill();
+          }
+          ctx.globalCompositeOperation = "source-over";
+        },
+        sprites(emit) {
+          const s = env.scale;
+          for (const p of ps) if (p.a > 0) emit(p.x, p.y, 8 * s, p.r, p.hue, p.a);
+        },
+      };
+    },
+  },
+
+  // Marigold and rose petals swaying down from the top edge.
+  petals: {
+    kind: "ambient",
+    count: 40,
+    hues: [8, 45],
+    create(l, env) {
+      type P = { x0: number; y: number; vy: number; amp: number; freq: number; phase: number; rot: number; vrot: number; size: number; hue: number; a: number };
+      const { random } = env;
+      const spawn = (anywhere: boolean): P => {
+        const s = env.scale;
+        return {
+          x0: random() * env.width,
+          y: anywhere ? random() * env.height : -20 * s,
+          vy: (20 + random() * 30) * s,
+          amp: (10 + random() * 20) * s,
+          freq: 0.6 + random() * 0.9,
+          phase: random() * TAU,
+          rot: random() * TAU,
+          vrot: (random() - 0.5) * 3,
+          size: (5 + random() * 5) * s,
+          hue: pick(env, l),
+          a: 0.7 + random() * 0.25,
+        };
+      };
+      const ps = Array.from({ length: l.count }, () => spawn(true));
+      return {
+        step(dt, { drive }) {
+          const k = dt * l.speed * (1 + drive * 0.5);
+          ps.forEach((p, i) => {
+            p.y += p.vy * k;
+            p.phase += p.freq * k;
+            p.rot += p.vrot * k;
+            if (p.y > env.height + 20 * env.scale) ps[i] = spawn(false);
+          });
+        },
+        draw(ctx) {
+          for (const p of ps) {
+            ctx.save();
+            ctx.translate(p.x0 + Math.sin(p.phase) * p.amp, p.y);
+            ctx.rotate(p.rot);
+            ctx.scale(1, 0.55 + 0.45 * Math.abs(Math.cos(p.phase))); // flutter
+            ctx.fillStyle = `hsla(${p.hue}, 90%, 58%, ${p.a})`;
+            ctx.beginPath();
+            ctx.ellipse(0, 0, p.size, p.size * 0.5, 0, 0, TAU);
+            ctx.fill();
+            ctx.fillStyle = `hsla(${p.hue}, 100%, 75%, ${p.a * 0.6})`;
+            ctx.beginPath();
+            ctx.ellipse(-p.size * 0.2, 0, p.size * 0.45, p.size * 0.18, 0, 0, TAU);
+            ctx.fill();
+            ctx.restore();
+          }
+        },
+      };
+    },
+  },
+
+  // A handheld sparkler: a bright core spraying short-lived sparks.
+  sparkler: {
+    kind: "ambient",
+    count: 120,
+    at: [0.5, 0.62],
+    create(l, env) {
+      const pool = sparkPool(env, { gravity: 120, drag: 2.5, size: 1, trail: 3, light: 65 });
+      const life = 0.45;
+      let acc = 0;
+      return {
+        step(dt, { drive }) {
+          // `count` is the number of sparks alive at once, so emit count / life per second.
+          acc += (l.count / life) * dt * l.speed * (1 + drive);
+          const x = l.x * env.width, y = l.y * env.height;
+          for (; acc >= 1; acc--) {
+            const a = env.random() * TAU;
+            const v = (60 + env.random() * 160) * env.scale;
+            const ttl = 0.2 + env.random() * life;
+            pool.add({ x, y, vx: Math.cos(a) * v, vy: Math.sin(a) * v, life: ttl, ttl, hue: pick(env, l) });
+          }
+          pool.step(dt);
+        },
+        draw(ctx) {
+          const x = l.x * env.width, y = l.y * env.height, s = env.scale;
+          ctx.globalCompositeOperation = "lighter";
+          const core = ctx.createRadialGradient(x, y, 0, x, y, 14 * s);
+          core.addColorStop(0, "rgba(255,250,230,0.95)");
+          core.addColorStop(1, "rgba(255,200,120,0)");
+          ctx.fillStyle = core;
+          ctx.beginPath();
+          ctx.arc(x, y, 14 * s, 0, TAU);
+          ctx.fill();
+          pool.draw(ctx);
+          ctx.globalCompositeOperation = "source-over";
+        },
+      };
+    },
+  },
+
+  // The original 14-spoke pop: grows, holds, then fades.
+  pops: {
+    kind: "burst",
+    count: 14,
+    at: [0.5, 0.22],
+    period: 2.8,
+    create(l, env) {
+      let t = Infinity;
+      const hue = (l.hueMin + l.hueMax) / 2;
+      return {
+        fire() { t = 0; },
+        step(dt) { t += dt * l.speed; },
+        draw(ctx) {
+          const s = t < 0.3 ? t / 0.3 : t < 1.2 ? 1 : Math.max(0, 1.8 - t);
+          if (s <= 0) return;
+          const cx = l.x * env.width, cy = l.y * env.height, len = 40 * s * env.scale;
+          ctx.strokeStyle = `hsla(${hue}, 100%, 79%, ${0.95 * s})`;
+          ctx.lineCap = "round";
+          ctx.lineWidth = 2 * env.scale;
+          ctx.beginPath();
+          for (let k = 0; k < l.count; k++) {
+            const a = (k / l.count) * TAU;
+            ctx.moveTo(cx, cy);
+            ctx.lineTo(cx + Math.cos(a) * len, cy + Math.sin(a) * len);
+          }
+          ctx.stroke();
+        },
+      };
+    },
+  },
+
+  // Round shell of glowing stars that droop and fade.
+  peony: {
+    kind: "burst",
+    count: 80,
+    at: [0.5, 0.25],
+    period: 3.2,
+    create(l, env) {
+      const pool = sparkPool(env, { gravity: 60, drag: 1.4, size: 1.8, trail: 0, light: 55 });
+      return {
+        fire() {
+          const hue = pick(env, l);
+          const x = l.x * env.width, y = l.y * env.height;
+          for (let i = 0; i < l.count; i++) {
+            const a = (i / l.count) * TAU + env.random() * 0.1;
+            const v = (90 + env.random() * 30) * env.scale;
+            const ttl = 1.1 + env.random() * 0.6;
+            pool.add({ x, y, vx: Math.cos(a) * v, vy: Math.sin(a) * v, life: ttl, ttl, hue });
+          }
+        },
+        step(dt) { pool.step(dt * l.speed); },
+        draw(ctx) {
+          ctx.globalCompositeOperation = "lighter";
+          pool.draw(ctx);
+          ctx.globalCompositeOperation = "source-over";
+        },
+      };
+    },
+  },
+
+  // Like a peony, but every star leaves a long golden trail.
+  chrysanthemum: {
+    kind: "burst",
+    count: 70,
+    at: [0.5, 0.25],
+    period: 3.6,
+    create(l, env) {
+      const pool = sparkPool(env, { gravity: 45, drag: 1.1, size: 1.2, trail: 12, light: 50 });
+      return {
+        fire() {
+          const x = l.x * env.width, y = l.y * env.height;
+          for (let i = 0; i < l.count; i++) {
+            const a = env.random() * TAU;
+            const v = (70 + env.random() * 70) * env.scale;
+            const ttl = 1.6 + env.random() * 0.8;
+            pool.add({ x, y, vx: Math.cos(a) * v, vy: Math.sin(a) * v, life: ttl, ttl, hue: pick(env, l) });
+          }
+        },
+        step(dt) { pool.step(dt * l.speed); },
+        draw(ctx) {
+          ctx.globalCompositeOperation = "lighter";
+          pool.draw(ctx);
+          ctx.globalCompositeOperation = "source-over";
+        },
+      };
+    },
+  },
+
+  // Symmetric rings that spiral outwards in opposite directions, tracing a rangoli.
+  rangoli: {
+    kind: "burst",
+    count: 48,
+    at: [0.5, 0.45],
+    hues: [0, 320],
+    period: 4.2,
+    create(l, env) {
+      type P = { r: number; v: number; theta: number; omega: number; hue: number; life: number; trail: Array<[number, number]> };
+      const RINGS = 3;
+      let ps: P[] = [];
+      const ttl = 2.2;
+      const cx = () => l.x * env.width, cy = () => l.y * env.height;
+      return {
+        fire() {
+          ps = [];
+          for (let i = 0; i < l.count; i++) {
+            const ring = i % RINGS;
+            ps.push({
+              r: 0,
+              v: (50 + ring * 35) * env.scale,
+              theta: (i / l.count) * TAU,
+              omega: (ring % 2 ? 1 : -1) * 0.9,
+              hue: l.hueMin + (ring / (RINGS - 1)) * (l.hueMax - l.hueMin),
+              life: ttl,
+              trail: [],
+            });
+          }
+        },
+        step(dt) {
+          const k = dt * l.speed;
+          for (const p of ps) {
+            p.trail.push([cx() + Math.cos(p.theta) * p.r, cy() + Math.sin(p.theta) * p.r]);
+            if (p.trail.length > 10) p.trail.shift();
+            p.r += p.v * k * (p.life / ttl);
+            p.theta += p.omega * k;
+            p.life -= k;
+          }
+          ps = ps.filter((p) => p.life > 0);
+        },
+        draw(ctx) {
+          ctx.globalCompositeOperation = "lighter";
+          ctx.lineCap = "round";
+          ctx.lineWidth = 1.6 * env.scale;
+          for (const p of ps) {
+            const a = p.life / ttl;
+            if (p.trail.length < 2) continue;
+            ctx.strokeStyle = `hsla(${p.hue}, 95%, 62%, ${a})`;
+            ctx.beginPath();
+            ctx.moveTo(p.trail[0][0], p.trail[0][1]);
+            for (const [x, y] of p.trail) ctx.lineTo(x, y);
+            ctx.stroke();
+          }
+          ctx.globalCompositeOperation = "source-over";
+        },
+      };
+    },
+  },
+};
+
+export const PARTICLE_PRESET_NAMES = Object.keys(PARTICLE_PRESETS) as ParticlePreset[];
+
+export const isParticlePreset = (v: unknown): v is ParticlePreset => typeof v === "string" && v in PARTICLE_PRESETS;
+
+// ---------- system ----------
+export type ParticleSystemOptions = {
+  /** The slide's hue range, used by layers that don't set their own. */
+  hueMin: number;
+  hueMax: number;
+  /** Run ambient / burst layers at all (RamImageFX's `sparkles` / `fireworks`). */
+  ambient?: boolean;
+  bursts?: boolean;
+  /** Multiplier on ambient counts (quality tier). */
+  density?: number;
+  /** Bursts wait for `beat()` instead of their timers. */
+  beatDriven?: boolean;
+};
+
+export type ParticleSystem = {
+  step: (dt: number, audio?: ParticleDrive) => void;
+  /** `skipSprites` leaves out the layers a GPU renderer draws from `sprites`. */
+  draw: (ctx: CanvasRenderingContext2D, skipSprites?: boolean) => void;
+  /** Sprite layers (embers) as glowing dots, in fractions of the canvas width/height. */
+  sprites: (emit: SpriteSink) => void;
+  /** Fires the burst layers in turn, one per call. */
+  beat: () => void;
+};
+
+const percent = (v: string | undefined, fallback: number) => {
+  const n = v === undefined ? NaN : parseFloat(v);
+  return isFinite(n) ? n / 100 : fallback;
+};
+
+export function createParticleSystem(layers: ParticleLayer[], env: ParticleEnv, opts: ParticleSystemOptions): ParticleSystem {
+  const { ambient = true, bursts = true, density = 1, beatDriven = false } = opts;
+  const running: Array<{ emitter: Emitter; period?: number; countdown: number }> = [];
+
+  for (const layer of layers) {
+    const def = PARTICLE_PRESETS[layer.preset];
+    if (!def || (def.kind === "ambient" ? !ambient : !bursts)) continue;
+    const base = layer.count ?? def.count;
+    const count = def.kind === "ambient" ? Math.round(base * density) : base;
+    if (count <= 0) continue;
+    const [hueMin, hueMax] = layer.hueMin !== undefined || layer.hueMax !== undefined || !def.hues
+      ? [layer.hueMin ?? opts.hueMin, layer.hueMax ?? opts.hueMax]
+      : def.hues;
+    const [ax, ay] = def.at ?? [0.5, 0.5];
+    const resolved: Layer = {
+      count,
+      hueMin: Math.min(hueMin, hueMax),
+      hueMax: Math.max(hueMin, hueMax),
+      speed: layer.speed ?? 1,
+      x: percent(layer.x, ax),
+      y: percent(layer.y, ay),
+      delay: layer.delay ?? 0,
+    };
+    running.push({ emitter: def.create(resolved, env), period: def.period && def.period / resolved.speed, countdown: resolved.delay });
+  }
+
+  const burstLayers = running.filter((r) => r.emitter.fire);
+  let nextBurst = 0;
+
+  return {
+    step(dt, audio = QUIET) {
+      for (const r of running) {
+        if (r.period && !beatDriven) {
+          r.countdown -= dt;
+          if (r.countdown <= 0) { r.emitter.fire?.(); r.countdown += r.period; }
+        }
+        r.emitter.step(dt, audio);
+      }
+    },
+    draw(ctx, skipSprites = false) {
+      for (const r of running) if (!(skipSprites && r.emitter.sprites)) r.emitter.draw(ctx);
+    },
+    sprites(emit) {
+      const { width: w, height: h } = env;
+      if (!w || !h) return;
+      for (const r of running) r.emitter.sprites?.((x, y, glow, core, hue, a) => emit(x / w, y / h, glow / w, core / w, hue, a));
+    },
+    beat() {
+      if (!burstLayers.length) return;
+      burstLayers[nextBurst++ % burstLayers.length].emitter.fire?.();
+    },
+  };
+}
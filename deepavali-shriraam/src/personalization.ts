@@ -0,0 +1,67 @@
+/**
+ * Personalised cards
+ * `?to=Amma&from=Nishanth&msg=...` turns the showcase into a card for one person.
+ * Values are user-controlled, so they are cleaned and length-limited here before they
+ * reach the UI (React escapes them; this guards against layout and spoofing abuse).
+ */
+
+export type Personalization = { to?: string; from?: string; msg?: string };
+
+export const NAME_MAX = 40;
+export const MESSAGE_MAX = 200;
+
+// Control characters and bidi overrides/isolates (which can visually reorder text).
+// eslint-disable-next-line no-control-regex
+const UNSAFE = /[\u0000-\u001f\u007f-\u009f\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+/** Normalises, strips unsafe characters, collapses whitespace and truncates to `max` characters. */
+export function cleanText(raw: string | null | undefined, max: number): string | undefined {
+  if (!raw) return undefined;
+  const text = raw.normalize("NFC").replace(UNSAFE, " ").replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  // Truncate by code point so surrogate pairs (emoji) aren't cut in half.
+  const chars = Array.from(text);
+  return chars.length > max ? chars.slice(0, max - 1).join("").trimEnd() + "…" : text;
+}
+
+export function readPersonalization(search = window.location.search): Personalization | null {
+  const q = new URLSearchParams(search);
+  const p: Personalization = {
+    to: cleanText(q.get("to"), NAME_MAX),
+    from: cleanText(q.get("from"), NAME_MAX),
+    msg: cleanText(q.get("msg"), MESSAGE_MAX),
+  };
+  return p.to || p.from || p.msg ? p : null;
+}
+
+/** Link to this page with the card parameters set (other query params, e.g. `deck`, are kept). */
+export function buildCardLink(p: Personalization, base = window.location.href): string {
+  const url = new URL(base);
+  url.hash = "";
+  const fields: Array<[keyof Personalization, number]> = [["to", NAME_MAX], ["from", NAME_MAX], ["msg", MESSAGE_MAX]];
+  for (const [key, max] of fields) {
+    const v = cleanText(p[key], max);
+    if (v) url.searchParams.set(key, v);
+    else url.searchParams.delete(key);
+  }
+  return url.toString();
+}
+
+/** Copies text, falling back to a hidden textarea where the async Clipboard API is unavailable. */
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    ta.setAttribute("readonly", "");
+    ta.style.position = "fixed";
+    ta.style.opacity = "0";
+    document.body.appendChild(ta);
+    ta.select();
+    const ok = document.execCommand("copy");
+    ta.remove();
+    return ok;
+  }
+}
@@ -0,0 +1,90 @@
+import type { ValidationIssue } from "./fxOptions";
+
+/**
+ * Playlist
+ * Track list and play-order rules for AudioControls. Decks can ship their own
+ * `playlist` in the manifest; slides refer to tracks by `id` through `soundtrack`.
+ */
+
+export type Track = { id: string; title: string; src: string; artist?: string };
+
+/** Asks the player to switch to `track` (a Track id) and optionally jump to `at` seconds. */
+export type SlideSoundtrack = { track: string; at?: number };
+
+export type RepeatMode = "off" | "all" | "one";
+
+export const REPEAT_MODES: RepeatMode[] = ["all", "one", "off"];
+
+export const DEFAULT_PLAYLIST: Track[] = [
+  { id: "ramlofi", title: "Ram Lofi", src: "/audio/ramlofi.mp3" },
+];
+
+/** Play order `0..n-1`; when shuffled, `first` stays at the front so the current track keeps playing. */
+export function playOrder(n: number, shuffle: boolean, first = 0): number[] {
+  const order = Array.from({ length: n }, (_, i) => i);
+  if (!shuffle) return order;
+  const rest = order.filter((i) => i !== first);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return n ? [first, ...rest] : order;
+}
+
+/**
+ * Track index to play after (dir = 1) or before (dir = -1) `current`, or null when the
+ * playlist has run out. `auto` is true when called because a track ended, which is the
+ * only case where repeat-one replays the same track.
+ */
+export function stepTrack(order: number[], current: number, dir: 1 | -1, repeat: RepeatMode, auto = false): number | null {
+  if (!order.length) return null;
+  if (auto && repeat === "one") return current;
+  const pos = Math.max(0, order.indexOf(current));
+  const nextPos = pos + dir;
+  if (nextPos >= 0 && nextPos < order.length) return order[nextPos];
+  if (repeat === "off" && auto) return null;
+  return order[(nextPos + order.length) % order.length];
+}
+
+// ---------- manifest validation ----------
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Validates a manifest `playlist`; tracks without a usable `src` are dropped and reported. */
+export function parsePlaylist(raw: unknown, path: string, issues: ValidationIssue[]): Track[] {
+  if (!Array.isArray(raw)) { issues.push({ path, message: "must be a list of tracks" }); return []; }
+  const seen = new Set<string>();
+  const tracks: Track[] = [];
+  raw.forEach((t, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(t) || typeof t.src !== "string" || !t.src.trim()) {
+      issues.push({ path: at, message: "each track needs an audio `src`" });
+      return;
+    }
+    const id = typeof t.id === "string" && t.id.trim() ? t.id : `track${i + 1}`;
+    if (seen.has(id)) { issues.push({ path: `${at}.id`, message: `duplicate id "${id}"` }); return; }
+    seen.add(id);
+    const title = typeof t.title === "string" && t.title.trim() ? t.title : id;
+    tracks.push(typeof t.artist === "string" ? { id, title, src: t.src, artist: t.artist } : { id, title, src: t.src });
+  });
+  return tracks;
+}
+
+/** Validates a slide's `soundtrack`, which may also be written as just a track id. */
+export function parseSoundtrack(raw: unknown, path: string, tracks: Track[], issues: ValidationIssue[]): SlideSoundtrack | undefined {
+  const cue = typeof raw === "string" ? { track: raw } : raw;
+  if (!isObject(cue) || typeof cue.track !== "string") {
+    issues.push({ path, message: "expected a track id or { track, at }" });
+    return undefined;
+  }
+  if (!tracks.some((t) => t.id === cue.track)) {
+    issues.push({ path: `${path}.track`, message: `no track with id "${cue.track}" in the playlist` });
+    return undefined;
+  }
+  if (cue.at === undefined) return { track: cue.track };
+  if (typeof cue.at !== "number" || !isFinite(cue.at) || cue.at < 0) {
+    issues.push({ path: `${path}.at`, message: "must be a non-negative number of seconds" });
+    return { track: cue.track };
+  }
+  return { track: cue.track, at: cue.at };
+}
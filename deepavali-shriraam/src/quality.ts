@@ -0,0 +1,138 @@
+import { createContext, useContext, useEffect, useRef, useState, type RefObject } from "react";
+import { onFrame } from "./animationClock";
+
+/**
+ * Render quality
+ * Picks an FX tier from `prefers-reduced-motion`, the CPU core count and dropped frames,
+ * and shares it via QualityContext. Also exposes `useFXActive`, which tells
+ * animation loops to pause while their frame is off-screen or the tab is hidden.
+ */
+
+export type QualityTier = "off" | "low" | "medium" | "high";
+
+export const QUALITY_TIERS: readonly QualityTier[] = ["off", "low", "medium", "high"];
+
+export type QualitySettings = {
+  tier: QualityTier;
+  /** Multiplier applied to each slide's emberCount. */
+  emberScale: number;
+  /** Heat-shimmer displacement filter (and its SMIL animation). */
+  shimmer: boolean;
+  sweep: boolean;
+  /** Blurred bloom duplicate of the image. */
+  bloom: boolean;
+  /** Firework pops, parallax tilt and other continuous motion. */
+  motion: boolean;
+};
+
+export const QUALITY: Record<QualityTier, QualitySettings> = {
+  off: { tier: "off", emberScale: 0, shimmer: false, sweep: false, bloom: true, motion: false },
+  low: { tier: "low", emberScale: 0.25, shimmer: false, sweep: false, bloom: false, motion: true },
+  medium: { tier: "medium", emberScale: 0.5, shimmer: false, sweep: true, bloom: true, motion: true },
+  high: { tier: "high", emberScale: 1, shimmer: true, sweep: true, bloom: true, motion: true },
+};
+
+export const QualityContext = createContext<QualitySettings>(QUALITY.high);
+
+export const useQuality = () => useContext(QualityContext);
+
+const REDUCED_MOTION = "(prefers-reduced-motion: reduce)";
+
+/** Starting tier before any frames are measured. */
+export function initialTier(): QualityTier {
+  if (window.matchMedia?.(REDUCED_MOTION).matches) return "off";
+  const cores = navigator.hardwareConcurrency || 4;
+  return cores <= 2 ? "low" : cores <= 4 ? "medium" : "high";
+}
+
+// ---------- frame-time monitor ----------
+const SAMPLE_FRAMES = 90;
+/** A frame this many refresh intervals long missed at least one vsync. */
+const DROP_FACTOR = 1.5;
+/** Share of dropped frames in a window above which a tier steps down. */
+const DROP_LIMIT = 0.1;
+/** Windows in a row without a change after which the tier counts as settled. */
+const SETTLE_WINDOWS = 3;
+/** Gaps this long are tab switches or jank spikes, not steady load (the clock caps deltas here). */
+const MAX_SAMPLE_MS = 100;
+
+const stepTier = (tier: QualityTier, by: number) =>
+  QUALITY_TIERS[Math.max(1, Math.min(QUALITY_TIERS.length - 1, QUALITY_TIERS.indexOf(tier) + by))];
+
+/**
+ * Refresh interval and dropped-frame count for one window. The interval is taken from the
+ * fast end of the window rather than assumed, so a 30 Hz TV's steady 33 ms frames count
+ * as on time.
+ */
+function measureWindow(samples: number[]): { interval: number; dropped: number } {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const interval = sorted[Math.floor(sorted.length / 10)];
+  return { interval, dropped: samples.filter((dt) => dt > interval * DROP_FACTOR).length };
+}
+
+/**
+ * State for the QualityContext provider. Follows the reduced-motion preference live and
+ * steps down one tier whenever a window of frames drops more than DROP_LIMIT of them
+ * against the display's own refresh rate. After SETTLE_WINDOWS quiet windows it tries
+ * one step back up, in case the drop came from a passing load; the next time the tier
+ * holds, the monitor stops so no frame loop runs just to measure.
+ */
+export function useQualityTier(): QualitySettings {
+  const [tier, setTier] = useState<QualityTier>(initialTier);
+  const [settled, setSettled] = useState(false);
+  const retried = useRef(false);
+
+  useEffect(() => {
+    const mq = window.matchMedia?.(REDUCED_MOTION);
+    if (!mq) return;
+    const onChange = () => { setTier(initialTier()); setSettled(false); retried.current = false; };
+    mq.addEventListener("change", onChange);
+    return () => mq.removeEventListener("change", onChange);
+  }, []);
+
+  useEffect(() => {
+    if (tier === "off" || settled) return;
+    const samples: number[] = [];
+    let quiet = 0;
+    let smooth = true;
+    return onFrame(({ realDt }) => {
+      const dt = realDt * 1000;
+      if (!dt || dt >= MAX_SAMPLE_MS) return;
+      if (samples.push(dt) < SAMPLE_FRAMES) return;
+      const { dropped } = measureWindow(samples);
+      samples.length = 0;
+      const dropRate = dropped / SAMPLE_FRAMES;
+      if (dropRate > DROP_LIMIT && tier !== "low") { setTier(stepTier(tier, -1)); return; }
+      if (dropRate > DROP_LIMIT / 2) smooth = false;
+      if (++quiet < SETTLE_WINDOWS) return;
+      const below = QUALITY_TIERS.indexOf(tier) < QUALITY_TIERS.indexOf(initialTier());
+      if (smooth && below && !retried.current) { retried.current = true; setTier(stepTier(tier, 1)); }
+      else setSettled(true);
+    }, { realtime: true });
+  }, [tier, settled]);
+
+  return QUALITY[tier];
+}
+
+// ---------- visibility ----------
+/** False while `ref`'s element is scrolled out of view or the document is hidden. */
+export function useFXActive(ref: RefObject<Element | null>): boolean {
+  const [onScreen, setOnScreen] = useState(true);
+  const [pageVisible, setPageVisible] = useState(() => !document.hidden);
+
+  useEffect(() => {
+    const onVisibility = () => setPageVisible(!document.hidden);
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || typeof IntersectionObserver === "undefined") return;
+    const io = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting));
+    io.observe(el);
+    return () => io.disconnect();
+  }, [ref]);
+
+  return onScreen && pageVisible;
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Remote control
+ * Presenter ↔ display messaging over a BroadcastChannel, so a second tab or window of
+ * the same browser (`?presenter`) can drive the show. The display answers every
+ * command, and `sync`, with its full state; the presenter never assumes a command worked.
+ */
+
+export const REMOTE_CHANNEL = "deepavali-remote";
+
+/** Moves the showcase: a step or an absolute slide index. */
+export type SlideCommand = { go: "next" | "prev" | number };
+
+export type AudioCommand = { action: "toggle" | "next" | "prev" | "back" | "forward" };
+
+/** `track` is the playing track's id in the playlist. */
+export type AudioStatus = { playing: boolean; track: string; title: string; time: number; duration: number };
+
+export type DisplayState = {
+  index: number;
+  total: number;
+  autoPlay: boolean;
+  audio: AudioStatus | null;
+  /** Epoch ms when the current slide appeared. */
+  slideSince: number;
+};
+
+export type RemoteMessage =
+  | ({ type: "slide" } & SlideCommand)
+  | { type: "autoplay"; on: boolean }
+  | ({ type: "audio" } & AudioCommand)
+  | { type: "sync" }
+  | ({ type: "state" } & DisplayState);
+
+/**
+ * Subscribes to the remote channel while mounted (and `enabled`) and returns a stable
+ * `post`. A channel never receives its own messages. Without BroadcastChannel support,
+ * or while disabled, `post` is a no-op.
+ */
+export function useRemoteChannel(onMessage: (msg: RemoteMessage) => void, enabled = true): (msg: RemoteMessage) => void {
+  const channel = useRef<BroadcastChannel | null>(null);
+  const handler = useRef(onMessage);
+  useEffect(() => { handler.current = onMessage; });
+
+  useEffect(() => {
+    if (!enabled || typeof BroadcastChannel === "undefined") return;
+    const ch = new BroadcastChannel(REMOTE_CHANNEL);
+    ch.onmessage = (e: MessageEvent<RemoteMessage>) => {
+      if (e.data && typeof e.data.type === "string") handler.current(e.data);
+    };
+    channel.current = ch;
+    return () => { ch.close(); channel.current = null; };
+  }, [enabled]);
+
+  return useCallback((msg: RemoteMessage) => channel.current?.postMessage(msg), []);
+}
+
+// ---------- view modes ----------
+export type ViewMode = { presenter: boolean; kiosk: boolean; editor: boolean };
+
+/** `?presenter` opens the presenter view; `?kiosk` the chrome-less display; `?edit` the deck editor. */
+export function readViewMode(search = window.location.search): ViewMode {
+  const params = new URLSearchParams(search);
+  return { presenter: params.has("presenter"), kiosk: params.has("kiosk"), editor: params.has("edit") };
+}
+
+/** Presenter URL for the current page, keeping the deck and language. */
+export function presenterUrl(href = window.location.href): string {
+  const url = new URL(href);
+  url.searchParams.delete("kiosk");
+  url.searchParams.set("presenter", "");
+  return url.toString();
+}
+
+/** Deck editor URL for the current page, keeping the deck and language. */
+export function editorUrl(href = window.location.href): string {
+  const url = new URL(href);
+  url.searchParams.delete("kiosk");
+  url.searchParams.delete("presenter");
+  url.searchParams.set("edit", "");
+  return url.toString();
+}
+
+/** Back from the editor to the show, optionally switching to another deck. */
+export function showUrl(deck?: string, href = window.location.href): string {
+  const url = new URL(href);
+  url.searchParams.delete("edit");
+  if (deck) url.searchParams.set("deck", deck);
+  return url.toString();
+}
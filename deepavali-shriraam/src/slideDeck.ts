@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { FESTIVAL_DAY_IDS, parseCountdown } from "./countdown";
+import { LOCAL_DECK, localDeckData } from "./deckStore";
+import { validateFXOptions, type ValidationIssue } from "./fxOptions";
+import { isLocale, type Locale } from "./i18n";
+import { checkFocalPoint, IMAGE_FITS, isImageFit, type FocalPoint, type ImageFit } from "./imageFit";
+import { DEFAULT_PLAYLIST, parsePlaylist, parseSoundtrack, type SlideSoundtrack, type Track } from "./playlist";
+import type { FXOptions } from "./RamImageFX";
+import { isThemeName, THEME_NAMES, type ThemeName } from "./themes";
+import { isTransitionName, TRANSITION_NAMES, type TransitionName } from "./transitions";
+
+/**
+ * Slide deck
+ * The built-in deck plus the manifest loader. A manifest is either a bare array of
+ * slides or `{ slides: [...], playlist?: [...], intervalMs?: number, theme?: string, countdown?: string }`,
+ * written as JSON or YAML:
+ *
+ *   { "theme": "deepavali",
+ *     "playlist": [{ "id": "aarti", "title": "Aarti", "src": "/audio/aarti.mp3" }],
+ *     "slides": [{ "src": "/assets/ram1.jpg", "caption": "जय श्री राम", "options": { "bloom": 10 },
+ *                  "soundtrack": { "track": "aarti", "at": 12 }, "transition": "diya", "kenBurns": true }] }
+ *
+ * It is fetched from `?deck=<url>` when given, else from `/slides.json`; `?deck=local`
+ * plays the deck saved by the editor in this browser (deckStore.ts).
+ */
+
+/**
+ * `caption` is the default text; `captions` holds per-locale versions, e.g. `{ ta: "ஜெய் ஸ்ரீ ராம்" }`.
+ * `transition` is how this slide comes in (default crossfade); `kenBurns` slowly pans and zooms it.
+ * `notes` are speaker notes, shown only in the presenter view.
+ * `alt` is the image's text alternative (the caption stands in when absent); `description`
+ * is a longer account of the picture for screen readers.
+ * `fit` is how the picture fills the frame (default cover) and `focalPoint` what a crop
+ * must keep in view, e.g. `{ x: "50%", y: "20%" }` for a face near the top.
+ * `id` names the slide in shared links (`#slide=ram-setu`); by default the picture's file name does.
+ */
+export type Slide = {
+  id?: string;
+  src: string;
+  caption: string;
+  captions?: Partial<Record<Locale, string>>;
+  options?: FXOptions;
+  soundtrack?: SlideSoundtrack;
+  transition?: TransitionName;
+  kenBurns?: boolean;
+  notes?: string;
+  alt?: string;
+  description?: string;
+  fit?: ImageFit;
+  focalPoint?: FocalPoint;
+};
+
+export type SlideManifest =
+  | Slide[]
+  | { slides: Slide[]; playlist?: Track[]; intervalMs?: number; theme?: ThemeName; countdown?: string };
+
+/** One problem found while loading a manifest; `path` points into the manifest, e.g. `slides[2].options.bloom`. */
+export type DeckIssue = ValidationIssue;
+
+export type DeckSource = "builtin" | "manifest";
+
+/**
+ * `intervalMs` is how long each slide stays up during autoplay (and in exports).
+ * `theme` is the festival look (themes.ts); `?theme=` overrides it.
+ * `countdown` is what the show counts down to (countdown.ts); `?countdown=` overrides it.
+ */
+export type ParsedDeck = {
+  slides: Slide[];
+  playlist: Track[];
+  intervalMs: number;
+  theme?: ThemeName;
+  countdown?: string;
+  issues: DeckIssue[];
+};
+
+export type LoadedDeck = ParsedDeck & { source: DeckSource; url?: string };
+
+export const DEFAULT_MANIFEST_URL = "/slides.json";
+
+export const DEFAULT_INTERVAL_MS = 5200;
+
+export const DEFAULT_SLIDES: Slide[] = [
+  { id: "jai-shri-ram", src: "/assets/ram1.jpg", caption: "जय श्री राम", alt: "Lord Ram", options: { bloom: 10, shimmerScale: 10, showSweep: true, emberCount: 110 } },
+  { id: "shri-ram", src: "/assets/ram2.jpg", caption: "श्री राम", alt: "Lord Ram", kenBurns: true, options: { bloom: 12, shimmerScale: 6,  emberCount: 130, hueMin: 25, hueMax: 45 } },
+  { id: "ram", src: "/assets/ram3.jpg", caption: "राम", alt: "Lord Ram", transition: "zoom", options: { bloom: 8,  shimmerScale: 12, emberCount: 90,  fireworks: [{ x: "65%", y: "20%", delay: 0.4 }] } },
+  { id: "hanuman", src: "/assets/hanuman.jpg", caption: "जय बजरंगबली", alt: "Lord Hanuman", fit: "blur", focalPoint: { x: "50%", y: "30%" }, options: { bloom: 9, shimmerScale: 8, emberCount: 80, vignetteStrength: 0.8 } },
+  { id: "ram-lakshman-hanuman", src: "/assets/ram4.jpg", caption: "श्री राम • लक्ष्मण • हनुमान", alt: "Lord Ram with Lakshman and Hanuman", options: { bloom: 7, shimmerScale: 6, emberCount: 70, fireworks: [{ x: "20%", y: "18%", delay: 0.2 }, { x: "80%", y: "22%", delay: 0.8 }], vignetteStrength: 0.7 } },
+  { id: "ram-setu", src: "/assets/ramsetu.jpg", caption: "जय श्री राम • सेतु निर्माण", alt: "Building the Ram Setu bridge to Lanka", transition: "diya", kenBurns: true, options: { bloom: 11, shimmerScale: 5, emberCount: 140, hueMin: 30, hueMax: 55, showSweep: true } },
+  { id: "sita-ram-vivah", src: "/assets/ramsitawedding.jpg", caption: "सीता-राम विवाह", alt: "The wedding of Sita and Ram", options: { bloom: 10, shimmerScale: 4, hueMin: 28, hueMax: 50, particles: [{ preset: "petals", count: 60 }, { preset: "embers", count: 60 }, { preset: "rangoli", y: "30%", delay: 1.5 }] } },
+  { id: "ram-darbar", src: "/assets/srljh.jpg", caption: "श्री राम • लक्ष्मण • जानकी • हनुमान", alt: "Ram, Lakshman and Sita with Hanuman", options: { bloom: 9, shimmerScale: 7, particles: [{ preset: "embers", count: 100 }, { preset: "peony", x: "22%", y: "20%", delay: 0.4 }, { preset: "chrysanthemum", x: "76%", y: "24%", delay: 1.8 }] } },
+];
+
+// ---------- schema ----------
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const SLIDE_ID = /^[A-Za-z0-9][\w-]*$/;
+
+const checkSlide = (raw: unknown, path: string, tracks: Track[], issues: DeckIssue[]): Slide | null => {
+  if (!isObject(raw)) { issues.push({ path, message: "expected a slide object" }); return null; }
+  if (typeof raw.src !== "string" || !raw.src.trim()) {
+    issues.push({ path: `${path}.src`, message: "is required and must be an image URL" });
+    return null;
+  }
+  let caption = "";
+  if (typeof raw.caption === "string") caption = raw.caption;
+  else if (raw.caption !== undefined) issues.push({ path: `${path}.caption`, message: "must be text" });
+
+  const slide: Slide = { src: raw.src, caption };
+  if (raw.id !== undefined) {
+    if (typeof raw.id === "string" && SLIDE_ID.test(raw.id)) slide.id = raw.id;
+    else issues.push({ path: `${path}.id`, message: "must be letters, digits and dashes, e.g. ram-setu" });
+  }
+  if (raw.captions !== undefined) {
+    if (!isObject(raw.captions)) issues.push({ path: `${path}.captions`, message: "expected an object of locale → text" });
+    else {
+      const captions: Partial<Record<Locale, string>> = {};
+      for (const [lang, text] of Object.entries(raw.captions)) {
+        if (!isLocale(lang)) issues.push({ path: `${path}.captions.${lang}`, message: "unknown locale" });
+        else if (typeof text !== "string") issues.push({ path: `${path}.captions.${lang}`, message: "must be text" });
+        else captions[lang] = text;
+      }
+      slide.captions = captions;
+    }
+  }
+  if (raw.options !== undefined) slide.options = validateFXOptions(raw.options, `${path}.options`, issues);
+  if (raw.soundtrack !== undefined) {
+    const cue = parseSoundtrack(raw.soundtrack, `${path}.soundtrack`, tracks, issues);
+    if (cue) slide.soundtrack = cue;
+  }
+  if (raw.transition !== undefined) {
+    if (isTransitionName(raw.transition)) slide.transition = raw.transition;
+    else issues.push({ path: `${path}.transition`, message: `must be one of ${TRANSITION_NAMES.join(", ")}` });
+  }
+  if (raw.kenBurns !== undefined) {
+    if (typeof raw.kenBurns === "boolean") slide.kenBurns = raw.kenBurns;
+    else issues.push({ path: `${path}.kenBurns`, message: "must be true or false" });
+  }
+  if (raw.fit !== undefined) {
+    if (isImageFit(raw.fit)) slide.fit = raw.fit;
+    else issues.push({ path: `${path}.fit`, message: `must be one of ${IMAGE_FITS.join(", ")}` });
+  }
+  if (raw.focalPoint !== undefined) {
+    const point = checkFocalPoint(raw.focalPoint, `${path}.focalPoint`, issues);
+    if (point) slide.focalPoint = point;
+  }
+  for (const key of ["notes", "alt", "description"] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] === "string") slide[key] = raw[key];
+    else issues.push({ path: `${path}.${key}`, message: "must be text" });
+  }
+  return slide;
+};
+
+/**
+ * Validates parsed manifest data. Invalid slides are dropped and bad options are
+ * clamped or removed (all reported), so a bad entry can never reach RamImageFX.
+ */
+export function parseManifest(data: unknown): ParsedDeck {
+  const issues: DeckIssue[] = [];
+  const list = Array.isArray(data) ? data : isObject(data) ? data.slides : undefined;
+  if (!Array.isArray(list)) {
+    issues.push({ path: "", message: "manifest must be a list of slides or an object with a \"slides\" list" });
+    return { slides: [], playlist: DEFAULT_PLAYLIST, intervalMs: DEFAULT_INTERVAL_MS, issues };
+  }
+  let intervalMs = DEFAULT_INTERVAL_MS;
+  if (isObject(data) && data.intervalMs !== undefined) {
+    if (typeof data.intervalMs === "number" && data.intervalMs >= 1000) intervalMs = data.intervalMs;
+    else issues.push({ path: "intervalMs", message: "must be a number of milliseconds ≥ 1000" });
+  }
+  let theme: ThemeName | undefined;
+  if (isObject(data) && data.theme !== undefined) {
+    if (isThemeName(data.theme)) theme = data.theme;
+    else issues.push({ path: "theme", message: `must be one of ${THEME_NAMES.join(", ")}` });
+  }
+  let countdown: string | undefined;
+  if (isObject(data) && data.countdown !== undefined) {
+    if (typeof data.countdown === "string" && parseCountdown(data.countdown)) countdown = data.countdown;
+    else issues.push({ path: "countdown", message: `must be one of ${FESTIVAL_DAY_IDS.join(", ")} or a date and time like 2026-11-08T17:52` });
+  }
+  let playlist = DEFAULT_PLAYLIST;
+  if (isObject(data) && data.playlist !== undefined) {
+    const tracks = parsePlaylist(data.playlist, "playlist", issues);
+    if (tracks.length) playlist = tracks;
+  }
+  const slides = list
+    .map((s, i) => checkSlide(s, `slides[${i}]`, playlist, issues))
+    .filter((s): s is Slide => s !== null);
+  return { slides, playlist, intervalMs, theme, countdown, issues };
+}
+
+/** Caption in `locale` when the slide has one, else its default caption. */
+export const slideCaption = (slide: Slide, locale: Locale) => slide.captions?.[locale] ?? slide.caption;
+
+/** Text alternative for the slide's image: its `alt`, else the caption. */
+export const slideAlt = (slide: Slide, locale: Locale) => slide.alt || slideCaption(slide, locale);
+
+// Uploaded and inlined pictures have no file name worth using.
+const fileSlug = (src: string) => {
+  if (/^(data|blob|local):/.test(src)) return "";
+  const name = src.split(/[?#]/)[0].split("/").pop() ?? "";
+  return name.replace(/\.[^.]*$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+};
+
+/** Stable names for deep links: each slide's `id`, else its file name, else `slide-<n>`; repeats get `-2`, `-3`, … */
+export function slideIds(slides: Slide[]): string[] {
+  const seen = new Map<string, number>();
+  return slides.map((slide, i) => {
+    const base = slide.id ?? (fileSlug(slide.src) || `slide-${i + 1}`);
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return n === 1 ? base : `${base}-${n}`;
+  });
+}
+
+// ---------- loading ----------
+const isYaml = (url: string, contentType: string | null) =>
+  /\.ya?ml(\?|#|$)/i.test(url) || /yaml/i.test(contentType ?? "");
+
+/** Reads `?deck=` from the current URL (null when absent). */
+export const manifestUrlFromLocation = (search = window.location.search) =>
+  new URLSearchParams(search).get("deck") || null;
+
+/**
+ * Fetches and validates a manifest. A missing default manifest silently yields the
+ * built-in deck; an explicitly requested one (`?deck=`) that fails is reported.
+ */
+export async function loadDeck(requestedUrl = manifestUrlFromLocation()): Promise<LoadedDeck> {
+  const url = requestedUrl ?? DEFAULT_MANIFEST_URL;
+  const builtin = (issues: DeckIssue[] = []) => builtinDeck(url, issues);
+
+  if (requestedUrl === LOCAL_DECK) {
+    const issues: DeckIssue[] = [];
+    const data = await localDeckData(issues);
+    if (!data) return builtin([{ path: url, message: "no deck has been saved in the editor on this browser" }]);
+    return checked(data, url, issues, builtin);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, { cache: "no-cache" });
+  } catch (err) {
+    return builtin(requestedUrl ? [{ path: url, message: `could not be fetched (${String(err)})` }] : []);
+  }
+  if (!res.ok) {
+    return builtin(requestedUrl ? [{ path: url, message: `request failed with HTTP ${res.status}` }] : []);
+  }
+
+  let text: string;
+  try {
+    text = await res.text();
+  } catch (err) {
+    return builtin([{ path: url, message: `could not be read (${String(err)})` }]);
+  }
+  const contentType = res.headers.get("content-type");
+  // Dev servers answer unknown paths with index.html; treat that as "no manifest".
+  if (!requestedUrl && /text\/html/i.test(contentType ?? "")) return builtin();
+
+  const yaml = isYaml(url, contentType);
+  // The YAML parser is a big chunk, fetched only for YAML manifests. Failing to fetch it
+  // (offline, say) says nothing about the manifest, so it's reported apart from parse errors.
+  let parse: (text: string) => unknown = JSON.parse;
+  if (yaml) {
+    try {
+      parse = (await import("yaml")).parse;
+    } catch (err) {
+      return builtin([{ path: url, message: `could not be loaded: the YAML parser is unavailable (${String(err)})` }]);
+    }
+  }
+
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (err) {
+    return builtin([{ path: url, message: `is not valid ${yaml ? "YAML" : "JSON"}: ${(err as Error).message}` }]);
+  }
+
+  return checked(data, url, [], builtin);
+}
+
+function builtinDeck(url: string, issues: DeckIssue[] = []): LoadedDeck {
+  return { slides: DEFAULT_SLIDES, playlist: DEFAULT_PLAYLIST, intervalMs: DEFAULT_INTERVAL_MS, issues, source: "builtin", url };
+}
+
+function checked(data: unknown, url: string, issues: DeckIssue[], builtin: (issues: DeckIssue[]) => LoadedDeck): LoadedDeck {
+  const parsed = parseManifest(data);
+  parsed.issues.unshift(...issues);
+  if (!parsed.slides.length) {
+    return builtin([...parsed.issues, { path: url, message: "has no usable slides; showing the built-in deck" }]);
+  }
+  return { ...parsed, source: "manifest", url };
+}
+
+/**
+ * Loads the deck once on mount; `deck` is null until the manifest (or the fallback) is
+ * ready. Anything loadDeck didn't foresee still ends on the built-in deck, never a blank app.
+ */
+export function useSlideDeck() {
+  const [deck, setDeck] = useState<LoadedDeck | null>(null);
+  useEffect(() => {
+    let alive = true;
+    const url = manifestUrlFromLocation() ?? DEFAULT_MANIFEST_URL;
+    loadDeck()
+      .catch((err) => builtinDeck(url, [{ path: url, message: `could not be loaded (${String(err)})` }]))
+      .then((d) => { if (alive) setDeck(d); });
+    return () => { alive = false; };
+  }, []);
+  return deck;
+}
+
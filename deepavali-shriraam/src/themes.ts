@@ -0,0 +1,202 @@
+import { createContext, useContext, useEffect, useState, type CSSProperties } from "react";
+import { loadGoogleFont } from "./i18n";
+import type { FXOptions } from "./RamImageFX";
+
+/**
+ * Themes
+ * Everything festival-specific about the look: accent colours, the glow gradients behind
+ * and over the picture, default particle layers and ember hues, the rotating greetings
+ * and a display font. The accent reaches Tailwind through CSS variables (the `brand-*`
+ * colours in index.css); the rest is read from ThemeContext. A deck picks its theme with
+ * a top-level `theme` field; `?theme=` overrides it.
+ */
+
+export type ThemeName = "deepavali" | "holi" | "navaratri" | "ganesh" | "wedding";
+
+export type RGB = readonly [number, number, number];
+
+/** `lang` is a BCP 47 tag; it picks the starting greeting and is set on the element. */
+export type Greeting = { lang: string; text: string };
+
+export type Theme = {
+  name: ThemeName;
+  /** Tailwind `brand-*` shades: text (200), highlights (300) and controls (400). */
+  brand: { 200: string; 300: string; 400: string };
+  glow: {
+    /** God-ray background behind the picture, inner and outer colour. */
+    ray: readonly [RGB, RGB];
+    /** Soft halo over the picture, inner and outer colour. */
+    halo: readonly [RGB, RGB];
+    /** Frame and panel shadows. */
+    shine: RGB;
+    /** Glow around captions and greetings. */
+    text: RGB;
+  };
+  /** Defaults under every slide's own options; `particles` only for slides without their own layers. */
+  fx: FXOptions;
+  greetings: Greeting[];
+  /** Google Fonts family for the rotating greeting, ahead of the locale's script font. */
+  displayFont?: string;
+};
+
+export const rgba = ([r, g, b]: RGB, a: number) => `rgba(${r},${g},${b},${a})`;
+
+/** A `brand` shade (`#rrggbb`) with alpha, for canvas drawing where the CSS variables don't reach. */
+export const brandAlpha = (hex: string, a: number) => hex + Math.round(a * 255).toString(16).padStart(2, "0");
+
+// ---------- built-in themes ----------
+const DEEPAVALI: Theme = {
+  name: "deepavali",
+  brand: { 200: "#fde68a", 300: "#fcd34d", 400: "#fbbf24" },
+  glow: { ray: [[255, 174, 0], [255, 136, 0]], halo: [[255, 220, 160], [255, 160, 50]], shine: [255, 170, 0], text: [255, 190, 80] },
+  fx: {},
+  greetings: [
+    { lang: "en", text: "Happy Deepavali" },
+    { lang: "hi", text: "शुभ दीपावली" }, { lang: "sa", text: "दीपोत्सव मंगलमयः" },
+    { lang: "bn", text: "শুভ দীপাবলি" },
+    { lang: "gu", text: "શુભ દિવાળી" },
+    { lang: "kn", text: "ಶುಭ ದೀಪಾವಳಿ" },
+    { lang: "ml", text: "ശുഭ ദീപാവലി" },
+    { lang: "te", text: "శుభ దీపావళి" },
+    { lang: "ta", text: "தீபாவளி நல்வாழ்த்துக்கள்" },
+    { lang: "pa", text: "ਦਿਵਾਲੀ ਦੀਆਂ ਮੁਬਾਰਕਾਂ" },
+    { lang: "or", text: "ଶୁଭ ଦୀପାବଳୀ" },
+    { lang: "hi", text: "दीपावली की शुभकामनाएँ" },
+  ],
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  deepavali: DEEPAVALI,
+  holi: {
+    name: "holi",
+    brand: { 200: "#fbcfe8", 300: "#f9a8d4", 400: "#f472b6" },
+    glow: { ray: [[255, 64, 160], [120, 80, 255]], halo: [[255, 200, 230], [255, 120, 200]], shine: [255, 80, 180], text: [255, 150, 210] },
+    fx: {
+      hueMin: 0,
+      hueMax: 360,
+      particles: [
+        { preset: "petals", count: 50 },
+        { preset: "peony", x: "25%", y: "22%", delay: 0.4 },
+        { preset: "chrysanthemum", x: "72%", y: "26%", delay: 1.6 },
+      ],
+    },
+    greetings: [
+      { lang: "en", text: "Happy Holi" },
+      { lang: "hi", text: "होली की शुभकामनाएँ" },
+      { lang: "bn", text: "শুভ হোলি" },
+      { lang: "gu", text: "હોળીની શુભકામનાઓ" },
+      { lang: "te", text: "హోలీ శుభాకాంక్షలు" },
+      { lang: "ta", text: "ஹோலி நல்வாழ்த்துக்கள்" },
+      { lang: "pa", text: "ਹੋਲੀ ਦੀਆਂ ਮੁਬਾਰਕਾਂ" },
+    ],
+    displayFont: "Baloo 2",
+  },
+  navaratri: {
+    name: "navaratri",
+    brand: { 200: "#fecdd3", 300: "#fda4af", 400: "#fb7185" },
+    glow: { ray: [[255, 60, 60], [255, 140, 0]], halo: [[255, 210, 170], [255, 90, 60]], shine: [255, 70, 40], text: [255, 160, 120] },
+    fx: {
+      hueMin: 0,
+      hueMax: 40,
+      particles: [{ preset: "embers", count: 90 }, { preset: "rangoli", y: "30%", delay: 1.2 }],
+    },
+    greetings: [
+      { lang: "en", text: "Happy Navaratri" },
+      { lang: "hi", text: "शुभ नवरात्रि" },
+      { lang: "gu", text: "શુભ નવરાત્રી" },
+      { lang: "bn", text: "শুভ নবরাত্রি" },
+      { lang: "kn", text: "ನವರಾತ್ರಿ ಶುಭಾಶಯಗಳು" },
+      { lang: "te", text: "నవరాత్రి శుభాకాంక్షలు" },
+      { lang: "ta", text: "நவராத்திரி நல்வாழ்த்துக்கள்" },
+    ],
+    displayFont: "Yatra One",
+  },
+  ganesh: {
+    name: "ganesh",
+    brand: { 200: "#fed7aa", 300: "#fdba74", 400: "#fb923c" },
+    glow: { ray: [[255, 120, 0], [255, 80, 0]], halo: [[255, 210, 150], [255, 130, 40]], shine: [255, 110, 0], text: [255, 170, 90] },
+    fx: {
+      hueMin: 15,
+      hueMax: 40,
+      particles: [{ preset: "petals", count: 40 }, { preset: "embers", count: 70 }],
+    },
+    greetings: [
+      { lang: "en", text: "Happy Ganesh Chaturthi" },
+      { lang: "hi", text: "गणेश चतुर्थी की शुभकामनाएँ" },
+      { lang: "mr", text: "गणपती बाप्पा मोरया" },
+      { lang: "kn", text: "ಗಣೇಶ ಚತುರ್ಥಿಯ ಶುಭಾಶಯಗಳು" },
+      { lang: "te", text: "వినాయక చవితి శుభాకాంక్షలు" },
+      { lang: "ta", text: "விநாயகர் சதுர்த்தி நல்வாழ்த்துக்கள்" },
+    ],
+    displayFont: "Kalam",
+  },
+  wedding: {
+    name: "wedding",
+    brand: { 200: "#fef3c7", 300: "#fde68a", 400: "#eab308" },
+    glow: { ray: [[255, 190, 120], [200, 60, 90]], halo: [[255, 235, 200], [255, 170, 150]], shine: [255, 190, 120], text: [255, 215, 160] },
+    fx: {
+      hueMin: 35,
+      hueMax: 50,
+      particles: [{ preset: "petals", count: 70 }, { preset: "embers", count: 40 }],
+    },
+    greetings: [
+      { lang: "en", text: "Blessings to the couple" },
+      { lang: "hi", text: "शुभ विवाह" },
+      { lang: "bn", text: "শুভ বিবাহ" },
+      { lang: "gu", text: "શુભ લગ્ન" },
+      { lang: "te", text: "వివాహ శుభాకాంక్షలు" },
+      { lang: "ta", text: "திருமண நல்வாழ்த்துக்கள்" },
+    ],
+    displayFont: "Tiro Devanagari Hindi",
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const DEFAULT_THEME: ThemeName = "deepavali";
+
+export const isThemeName = (v: unknown): v is ThemeName => typeof v === "string" && v in THEMES;
+
+/** Reads `?theme=` from the current URL (null when absent or unknown). */
+export function themeFromLocation(search = window.location.search): ThemeName | null {
+  const name = new URLSearchParams(search).get("theme");
+  return isThemeName(name) ? name : null;
+}
+
+// ---------- applying ----------
+export const ThemeContext = createContext<Theme>(DEEPAVALI);
+
+export const useTheme = () => useContext(ThemeContext);
+
+/** CSS variables behind the `brand-*` Tailwind colours; set on any element to re-skin its subtree. */
+export const themeVars = (theme: Theme) => ({
+  "--color-brand-200": theme.brand[200],
+  "--color-brand-300": theme.brand[300],
+  "--color-brand-400": theme.brand[400],
+}) as CSSProperties;
+
+/** Slide options over the theme's defaults. The theme's particle layers stand in only when the slide sets none of its own. */
+export function themedOptions(theme: Theme, options: FXOptions = {}): FXOptions {
+  const { particles, ...defaults } = theme.fx;
+  const ownLayers = options.particles ?? options.emberCount ?? options.fireworks;
+  return { ...defaults, ...(particles && ownLayers === undefined ? { particles } : {}), ...options };
+}
+
+/** Font stack for the greeting: the theme's display face, then `fallback`. */
+export const displayFont = (theme: Theme, fallback: string) =>
+  theme.displayFont ? `"${theme.displayFont}", ${fallback}` : fallback;
+
+/**
+ * State for the ThemeContext provider: `?theme=` over the deck's choice. Applies the
+ * brand colours to the whole document and loads the display font.
+ */
+export function useThemeState(deckTheme?: ThemeName): Theme {
+  const [fromUrl] = useState(() => themeFromLocation());
+  const theme = THEMES[fromUrl ?? deckTheme ?? DEFAULT_THEME];
+  useEffect(() => {
+    const root = document.documentElement.style;
+    for (const [k, v] of Object.entries(themeVars(theme))) root.setProperty(k, String(v));
+    if (theme.displayFont) loadGoogleFont(theme.displayFont);
+  }, [theme]);
+  return theme;
+}
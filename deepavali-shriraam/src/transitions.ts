@@ -0,0 +1,95 @@
+import type { TargetAndTransition, Transition, Variants } from "framer-motion";
+
+/**
+ * Slide transitions
+ * Named framer-motion variants for moving between slides, chosen per slide with
+ * `transition` in the deck, plus the Ken Burns pan/zoom path. The incoming slide's
+ * transition drives both layers: `slideVariants` reads it, and the navigation
+ * direction (1 forward, -1 back), from `custom`, so going back plays the move in reverse.
+ */
+
+export type TransitionName = "cut" | "crossfade" | "zoom" | "diya";
+
+export const TRANSITION_NAMES: readonly TransitionName[] = ["cut", "crossfade", "zoom", "diya"];
+
+export const DEFAULT_TRANSITION: TransitionName = "crossfade";
+
+export const isTransitionName = (v: unknown): v is TransitionName =>
+  typeof v === "string" && (TRANSITION_NAMES as readonly string[]).includes(v);
+
+const EASE = [0.4, 0, 0.2, 1] as const;
+const timing = (duration: number): Transition => ({ duration, ease: EASE });
+
+type Phase = "enter" | "center" | "exit";
+type Target = TargetAndTransition | ((dir: number) => TargetAndTransition);
+
+// Every target sets `zIndex` so the incoming slide always paints over the outgoing one.
+export const TRANSITIONS: Record<TransitionName, Record<Phase, Target>> = {
+  cut: {
+    enter: { opacity: 1, zIndex: 1 },
+    center: { opacity: 1, zIndex: 1, transition: { duration: 0 } },
+    exit: { opacity: 0, zIndex: 0, transition: { duration: 0 } },
+  },
+  crossfade: {
+    enter: { opacity: 0, zIndex: 1 },
+    center: { opacity: 1, zIndex: 1, transition: timing(0.9) },
+    // The outgoing slide stays lit underneath until the new one has faded in.
+    exit: { opacity: 0, zIndex: 0, transition: { duration: 0.3, delay: 0.6 } },
+  },
+  // The camera flies through the outgoing slide into the next one.
+  zoom: {
+    enter: (dir: number) => ({ opacity: 0, scale: dir > 0 ? 0.82 : 1.3, zIndex: 1 }),
+    center: { opacity: 1, scale: 1, zIndex: 1, transition: timing(0.8) },
+    exit: (dir: number) => ({ opacity: 0, scale: dir > 0 ? 1.3 : 0.82, zIndex: 0, transition: timing(0.8) }),
+  },
+  // Warm light spreads from a diya at the bottom edge (top edge going back) and
+  // reveals the next slide.
+  diya: {
+    enter: (dir: number) => ({
+      clipPath: `circle(0% at 50% ${dir > 0 ? 100 : 0}%)`,
+      filter: "brightness(1.8) sepia(0.35)",
+      zIndex: 1,
+    }),
+    center: (dir: number) => ({
+      clipPath: `circle(150% at 50% ${dir > 0 ? 100 : 0}%)`,
+      filter: "brightness(1) sepia(0)",
+      zIndex: 1,
+      transition: { clipPath: timing(1.2), filter: { duration: 1.6, ease: "easeOut" } },
+    }),
+    exit: { opacity: 0, zIndex: 0, transition: { duration: 0.4, delay: 0.8 } },
+  },
+};
+
+export type SlideMotion = { dir: number; name: TransitionName };
+
+const resolve = (phase: Phase) => ({ dir, name }: SlideMotion) => {
+  const target = TRANSITIONS[name][phase];
+  return typeof target === "function" ? target(dir) : target;
+};
+
+/** Pass `custom={{ dir, name }}` to both AnimatePresence and the slide layer. */
+export const slideVariants: Variants = { enter: resolve("enter"), center: resolve("center"), exit: resolve("exit") };
+
+// ---------- Ken Burns ----------
+const hash = (s: string) => {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = (h * 31 + s.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+/** Largest scale the Ken Burns drift reaches; images are picked sharp enough for it. */
+export const KEN_BURNS_ZOOM = 1.12;
+
+/**
+ * Slow pan/zoom across `durationMs`. The direction is derived from `src`, so each image
+ * always drifts the same way but neighbouring slides differ.
+ */
+export function kenBurns(src: string, durationMs: number): { initial: TargetAndTransition; animate: TargetAndTransition } {
+  const h = hash(src);
+  const zoomIn = h % 2 === 0;
+  const dx = ((h >> 1) % 3) - 1; // -1, 0 or 1
+  const dy = ((h >> 3) % 3) - 1;
+  const from = { scale: zoomIn ? 1 : KEN_BURNS_ZOOM, x: "0%", y: "0%" };
+  const to = { scale: zoomIn ? KEN_BURNS_ZOOM : 1, x: `${dx * 3}%`, y: `${dy * 2}%` };
+  return { initial: from, animate: { ...to, transition: { duration: durationMs / 1000, ease: "linear" } } };
+}
@@ -0,0 +1,58 @@
+/**
+ * Waveform peaks
+ * Decodes an audio file with the Web Audio API and reduces it to `bins` peak values
+ * (0..1) for drawing a scrubber. Results are cached per URL; decoding a long track is
+ * expensive, so callers should only ask when the waveform is actually shown.
+ */
+
+const cache = new Map<string, Promise<Float32Array>>();
+
+type AudioContextCtor = typeof AudioContext;
+
+const getAudioContextCtor = (): AudioContextCtor | undefined =>
+  window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextCtor }).webkitAudioContext;
+
+async function decodePeaks(src: string, bins: number): Promise<Float32Array> {
+  const Ctor = getAudioContextCtor();
+  if (!Ctor) throw new Error("Web Audio API is not available");
+
+  const res = await fetch(src);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${src}`);
+  const data = await res.arrayBuffer();
+
+  const ctx = new Ctor();
+  try {
+    const buffer = await ctx.decodeAudioData(data);
+    const peaks = new Float32Array(bins);
+    const size = Math.max(1, Math.floor(buffer.length / bins));
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const ch = buffer.getChannelData(c);
+      for (let b = 0; b < bins; b++) {
+        let max = 0;
+        const end = Math.min(ch.length, (b + 1) * size);
+        // Stride through the bin; every sample would be needlessly slow for minutes of audio.
+        for (let i = b * size; i < end; i += 16) {
+          const v = Math.abs(ch[i]);
+          if (v > max) max = v;
+        }
+        if (max > peaks[b]) peaks[b] = max;
+      }
+    }
+    const top = peaks.reduce((m, v) => Math.max(m, v), 0) || 1;
+    return peaks.map((v) => v / top);
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
+
+export function loadPeaks(src: string, bins = 240): Promise<Float32Array> {
+  const key = `${bins}:${src}`;
+  let p = cache.get(key);
+  if (!p) {
+    p = decodePeaks(src, bins);
+    // Don't cache failures; a later attempt may succeed (e.g. once back online).
+    p.catch(() => cache.delete(key));
+    cache.set(key, p);
+  }
+  return p;
+}
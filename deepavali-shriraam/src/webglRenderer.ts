@@ -0,0 +1,431 @@
+import type { Rect } from "./imageFit";
+import type { SpriteSink } from "./particles";
+import type { RGB, Theme } from "./themes";
+
+/**
+ * WebGL renderer
+ * Draws RamImageFX's image layers on the GPU: heat shimmer, bloom, the god-ray vignette,
+ * the light sweep, the themed halo and the ember sprites, matching the SVG/CSS look. On a
+ * big TV the SVG filters and CSS blend modes cost a full-screen repaint each frame; here
+ * it is one fragment pass plus a half-resolution blur.
+ * RamImageFX falls back to the SVG path when WebGL2 is missing, the context is lost, the
+ * image can't be uploaded (no CORS) or `?renderer=svg` is set.
+ */
+
+export type FXRendererKind = "webgl" | "svg";
+
+/** Everything one frame needs. Rects are in design units, like RamImageFX's viewBox. */
+export type GLFrame = {
+  /** Design size of the frame: 1280 wide, as tall as the frame's shape. */
+  width: number;
+  height: number;
+  main: Rect;
+  backdrop?: Rect;
+  /** Clock time, seconds. */
+  time: number;
+  /** Displacement in design px; 0 turns the shimmer off. */
+  shimmer: number;
+  /** Blur radius (stdDeviation) in design px; 0 turns the bloom off. */
+  bloom: number;
+  vignette: number;
+  sweep: boolean;
+  /** Theme colours for the god-rays and the halo. */
+  glow: Pick<Theme["glow"], "ray" | "halo">;
+  /** Sprite layers to draw on top, e.g. ParticleSystem.sprites. */
+  sprites?: (emit: SpriteSink) => void;
+};
+
+export type GLRenderer = {
+  setImage: (image: TexImageSource) => void;
+  /** Canvas size in device pixels. */
+  resize: (width: number, height: number) => void;
+  render: (frame: GLFrame) => void;
+  dispose: () => void;
+};
+
+// ---------- choosing ----------
+let available: boolean | undefined;
+
+/** Whether this browser gives out WebGL2 contexts; probed once. */
+export function webglAvailable(): boolean {
+  if (available === undefined) {
+    const gl = typeof document === "undefined" ? null : document.createElement("canvas").getContext("webgl2");
+    available = Boolean(gl);
+    gl?.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+  return available;
+}
+
+/** `?renderer=svg` forces the SVG path; otherwise WebGL wherever it is available. */
+export function rendererFromLocation(search = window.location.search): FXRendererKind {
+  return new URLSearchParams(search).get("renderer") !== "svg" && webglAvailable() ? "webgl" : "svg";
+}
+
+// ---------- shaders ----------
+// One triangle covering the viewport; no vertex buffer needed.
+const FULLSCREEN_VS = `#version 300 es
+out vec2 vUv;
+void main() {
+  vec2 p = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2);
+  vUv = p;
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// Image only, premultiplied, at half resolution: the input to the bloom blur.
+const LAYER_FS = `#version 300 es
+precision highp float;
+in vec2 vUv;
+out vec4 outColor;
+uniform sampler2D uImage;
+uniform vec4 uMain;
+void main() {
+  vec2 uv = (vec2(vUv.x, 1.0 - vUv.y) - uMain.xy) / uMain.zw;
+  bool inside = all(greaterThanEqual(uv, vec2(0.0))) && all(lessThanEqual(uv, vec2(1.0)));
+  outColor = inside ? vec4(textureLod(uImage, uv, 1.0).rgb, 1.0) : vec4(0.0);
+}`;
+
+// Separable 9-tap Gaussian (linear-sampled); uDir is one step of about sigma / 2 texels.
+const BLUR_FS = `#version 300 es
+precision highp float;
+in vec2 vUv;
+out vec4 outColor;
+uniform sampler2D uSrc;
+uniform vec2 uDir;
+void main() {
+  vec4 s = texture(uSrc, vUv) * 0.2270270270;
+  s += (texture(uSrc, vUv + uDir * 1.3846153846) + texture(uSrc, vUv - uDir * 1.3846153846)) * 0.3162162162;
+  s += (texture(uSrc, vUv + uDir * 3.2307692308) + texture(uSrc, vUv - uDir * 3.2307692308)) * 0.0702702703;
+  outColor = s;
+}`;
+
+// Everything else in one pass, in the order the SVG/CSS layers stack.
+const COMPOSITE_FS = `#version 300 es
+precision highp float;
+in vec2 vUv;
+out vec4 outColor;
+uniform sampler2D uImage;
+uniform sampler2D uBlur;
+uniform vec2 uSize;
+uniform vec4 uMain;
+uniform vec4 uBackdrop;
+uniform float uTime;
+uniform float uShimmer;
+uniform float uBloom;
+uniform float uVignette;
+uniform float uSweep;
+uniform vec3 uRay0;
+uniform vec3 uRay1;
+uniform vec3 uHalo0;
+uniform vec3 uHalo1;
+
+float hash(vec2 p) { return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453); }
+float noise(vec2 p) {
+  vec2 i = floor(p), f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(mix(hash(i), hash(i + vec2(1, 0)), u.x), mix(hash(i + vec2(0, 1)), hash(i + vec2(1, 1)), u.x), u.y);
+}
+// Two octaves, like the SVG's feTurbulence numOctaves="2".
+float fbm(vec2 p) { return noise(p) * 0.667 + noise(p * 2.0 + 17.0) * 0.333; }
+
+vec3 screen(vec3 a, vec3 b) { return 1.0 - (1.0 - a) * (1.0 - b); }
+vec3 blendScreen(vec3 base, vec4 layer) { return mix(base, screen(base, layer.rgb), layer.a); }
+bool inside(vec2 uv) { return all(greaterThanEqual(uv, vec2(0.0))) && all(lessThanEqual(uv, vec2(1.0))); }
+
+// Three-stop radial gradient as CSS draws it; radius in fractions of the frame.
+vec4 radial(vec2 f, vec2 at, float radius, vec4 c0, vec4 c1, float s1, float s2) {
+  float r = length((f - at) / radius);
+  return r < s1 ? mix(c0, c1, r / s1) : mix(c1, vec4(c1.rgb, 0.0), clamp((r - s1) / (s2 - s1), 0.0, 1.0));
+}
+
+void main() {
+  vec2 f = vec2(vUv.x, 1.0 - vUv.y);   // frame fractions, y down
+  vec2 d = f * uSize;                   // design px
+
+  // God-ray / vignette background (screen over black).
+  vec4 g = radial(f, vec2(0.45, 0.35), 0.6, vec4(uRay0, 0.22 * uVignette), vec4(uRay1, 0.10 * uVignette), 0.45, 0.65);
+  vec3 col = g.rgb * g.a;
+
+  // Blurred letterbox backdrop: a small mip level is blur enough, dimmed like the SVG's.
+  if (uBackdrop.z > 0.0) {
+    vec2 uv = (f - uBackdrop.xy) / uBackdrop.zw;
+    if (inside(uv)) col = textureLod(uImage, uv, 5.0).rgb * 0.55;
+  }
+
+  // Base image with heat shimmer: fractal noise whose frequency breathes over 8s.
+  vec2 uv = (f - uMain.xy) / uMain.zw;
+  bool onImage = inside(uv);
+  if (onImage) {
+    vec2 src = uv;
+    if (uShimmer > 0.0) {
+      float breathe = 1.0 + (1.0 - abs(fract(uTime / 8.0) * 2.0 - 1.0)) / 3.0;
+      vec2 p = d * vec2(0.006, 0.012) * breathe;
+      vec2 n = vec2(fbm(p), fbm(p + vec2(41.0, 7.0))) - 0.5;
+      src += uShimmer * n / (uMain.zw * uSize);
+    }
+    col = texture(uImage, clamp(src, 0.0, 1.0)).rgb;
+  }
+
+  // Bloom duplicate: the sharp image over its blur, screened at 0.85.
+  if (uBloom > 0.0) {
+    vec4 glow = onImage ? vec4(texture(uImage, uv).rgb, 1.0) : texture(uBlur, vUv);
+    if (glow.a > 0.001) col = blendScreen(col, vec4(glow.rgb / glow.a, 0.85 * glow.a));
+  }
+
+  // Light sweep: a 360-wide band bouncing across every ~3.3s.
+  if (uSweep > 0.0) {
+    float t = fract(uTime * 0.15) * 2.0;
+    float x = 200.0 + (t < 1.0 ? t : 2.0 - t) * (uSize.x - 400.0) - 180.0;
+    float s = (d.x - x) / 360.0;
+    if (s > 0.0 && s < 1.0) {
+      vec4 band = s < 0.45 ? mix(vec4(1.0, 1.0, 1.0, 0.0), vec4(1.0, 0.863, 0.627, 0.10), s / 0.45)
+        : s < 0.5 ? mix(vec4(1.0, 0.863, 0.627, 0.10), vec4(1.0, 0.941, 0.824, 0.28), (s - 0.45) / 0.05)
+        : s < 0.55 ? mix(vec4(1.0, 0.941, 0.824, 0.28), vec4(1.0, 0.784, 0.471, 0.10), (s - 0.5) / 0.05)
+        : mix(vec4(1.0, 0.784, 0.471, 0.10), vec4(1.0, 1.0, 1.0, 0.0), (s - 0.55) / 0.45);
+      col = blendScreen(col, vec4(band.rgb, band.a * 0.6));
+    }
+  }
+
+  // Warm halo over everything (already soft, so no extra blur).
+  col = blendScreen(col, radial(f, vec2(0.48, 0.40), 0.35, vec4(uHalo0, 0.25), vec4(uHalo1, 0.18), 0.35, 0.7));
+
+  outColor = vec4(col, 1.0);
+}`;
+
+// Embers: a glow fading from 70% to 40% lightness, clipped at 3/4 of its radius, plus a bright core.
+const SPRITE_VS = `#version 300 es
+layout(location = 0) in vec2 aPos;
+layout(location = 1) in vec2 aSize;
+layout(location = 2) in vec2 aHueAlpha;
+out float vCore;
+out vec2 vHueAlpha;
+void main() {
+  gl_Position = vec4(aPos.x * 2.0 - 1.0, 1.0 - aPos.y * 2.0, 0.0, 1.0);
+  gl_PointSize = aSize.x * 2.0;
+  vCore = aSize.y / aSize.x;
+  vHueAlpha = aHueAlpha;
+}`;
+
+const SPRITE_FS = `#version 300 es
+precision highp float;
+in float vCore;
+in vec2 vHueAlpha;
+out vec4 outColor;
+vec3 hsl(float h, float l) {
+  vec3 k = mod(vec3(0.0, 8.0, 4.0) + h / 30.0, 12.0);
+  float a = min(l, 1.0 - l);
+  return l - a * clamp(min(k - 3.0, 9.0 - k), -1.0, 1.0);
+}
+void main() {
+  float r = length(gl_PointCoord * 2.0 - 1.0);
+  if (r > 0.75) discard;
+  float a = vHueAlpha.y;
+  vec3 glow = mix(hsl(vHueAlpha.x, 0.7), hsl(vHueAlpha.x, 0.4), r) * mix(0.8 * a, 0.0, r);
+  vec3 core = r < vCore ? hsl(vHueAlpha.x, 0.85) * 0.8 * a : vec3(0.0);
+  outColor = vec4(glow + core, 1.0);
+}`;
+
+// ---------- setup ----------
+function program(gl: WebGL2RenderingContext, vs: string, fs: string): WebGLProgram {
+  const p = gl.createProgram()!;
+  for (const [type, source] of [[gl.VERTEX_SHADER, vs], [gl.FRAGMENT_SHADER, fs]] as const) {
+    const s = gl.createShader(type)!;
+    gl.shaderSource(s, source);
+    gl.compileShader(s);
+    if (!gl.getShaderParameter(s, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(s) ?? "shader compile failed");
+    gl.attachShader(p, s);
+    gl.deleteShader(s);
+  }
+  gl.linkProgram(p);
+  if (!gl.getProgramParameter(p, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(p) ?? "program link failed");
+  return p;
+}
+
+function texture(gl: WebGL2RenderingContext, mipmaps = false): WebGLTexture {
+  const t = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, t);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, mipmaps ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return t;
+}
+
+type Target = { tex: WebGLTexture; fbo: WebGLFramebuffer };
+
+const SPRITE_FLOATS = 6;
+
+/**
+ * Sets up the renderer on `canvas`, or returns null when WebGL2 is unavailable or the
+ * shaders don't build. `onLost` fires if the GPU context is lost later on.
+ */
+export function createGLRenderer(canvas: HTMLCanvasElement, onLost: () => void): GLRenderer | null {
+  const gl = canvas.getContext("webgl2", { alpha: false, antialias: false, premultipliedAlpha: false });
+  if (!gl) return null;
+
+  let layer: WebGLProgram, blur: WebGLProgram, composite: WebGLProgram, sprite: WebGLProgram;
+  try {
+    layer = program(gl, FULLSCREEN_VS, LAYER_FS);
+    blur = program(gl, FULLSCREEN_VS, BLUR_FS);
+    composite = program(gl, FULLSCREEN_VS, COMPOSITE_FS);
+    sprite = program(gl, SPRITE_VS, SPRITE_FS);
+  } catch (err) {
+    if (import.meta.env.DEV) console.warn("WebGL renderer unavailable:", err);
+    return null;
+  }
+
+  const uniforms = new Map<WebGLProgram, Map<string, WebGLUniformLocation | null>>();
+  const u = (p: WebGLProgram, name: string) => {
+    let m = uniforms.get(p);
+    if (!m) uniforms.set(p, (m = new Map()));
+    if (!m.has(name)) m.set(name, gl.getUniformLocation(p, name));
+    return m.get(name)!;
+  };
+
+  const empty = gl.createVertexArray();
+  const image = texture(gl, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+  gl.generateMipmap(gl.TEXTURE_2D);
+  let hasImage = false;
+
+  // Two half-resolution targets the bloom blur ping-pongs between.
+  const targets: Target[] = [0, 1].map(() => ({ tex: texture(gl), fbo: gl.createFramebuffer()! }));
+  let half = { width: 1, height: 1 };
+
+  // Sprites are streamed in each frame: x, y, glow, core (px), hue, alpha.
+  const spriteVao = gl.createVertexArray();
+  const spriteBuf = gl.createBuffer();
+  let spriteData = new Float32Array(SPRITE_FLOATS * 256);
+  gl.bindVertexArray(spriteVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, spriteBuf);
+  const stride = SPRITE_FLOATS * 4;
+  [2, 2, 2].forEach((size, i) => {
+    gl.enableVertexAttribArray(i);
+    gl.vertexAttribPointer(i, size, gl.FLOAT, false, stride, i * 8);
+  });
+  gl.bindVertexArray(null);
+
+  const onContextLost = (e: Event) => { e.preventDefault(); onLost(); };
+  canvas.addEventListener("webglcontextlost", onContextLost);
+
+  const fullscreen = (p: WebGLProgram, target: Target | null, width: number, height: number) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target?.fbo ?? null);
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(p);
+    gl.bindVertexArray(empty);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  const drawSprites = (sprites: GLFrame["sprites"]) => {
+    if (!sprites) return;
+    const px = canvas.width;
+    let n = 0;
+    sprites((x, y, glow, core, hue, alpha) => {
+      if (n * SPRITE_FLOATS >= spriteData.length) {
+        const grown = new Float32Array(spriteData.length * 2);
+        grown.set(spriteData);
+        spriteData = grown;
+      }
+      spriteData.set([x, y, glow * px, core * px, hue, alpha], n++ * SPRITE_FLOATS);
+    });
+    if (!n) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, spriteBuf);
+    gl.bufferData(gl.ARRAY_BUFFER, spriteData.subarray(0, n * SPRITE_FLOATS), gl.STREAM_DRAW);
+    gl.useProgram(sprite);
+    gl.bindVertexArray(spriteVao);
+    // Additive, like the 2D canvas's "lighter".
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    gl.drawArrays(gl.POINTS, 0, n);
+    gl.disable(gl.BLEND);
+  };
+
+  return {
+    setImage(source) {
+      gl.bindTexture(gl.TEXTURE_2D, image);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+      gl.generateMipmap(gl.TEXTURE_2D);
+      hasImage = true;
+    },
+
+    resize(width, height) {
+      if (canvas.width === width && canvas.height === height) return;
+      canvas.width = width;
+      canvas.height = height;
+      half = { width: Math.max(1, width >> 1), height: Math.max(1, height >> 1) };
+      for (const t of targets) {
+        gl.bindTexture(gl.TEXTURE_2D, t.tex);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, half.width, half.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, t.fbo);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, t.tex, 0);
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    },
+
+    render(frame) {
+      if (gl.isContextLost()) return;
+      const { width, height } = frame;
+      const rect = (r: Rect) => [r.x / width, r.y / height, r.width / width, r.height / height] as const;
+      const main = rect(frame.main);
+      const bloom = hasImage ? frame.bloom : 0;
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, image);
+
+      // Bloom: image layer at half size, blurred across then down.
+      if (bloom > 0) {
+        gl.useProgram(layer);
+        gl.uniform1i(u(layer, "uImage"), 0);
+        gl.uniform4f(u(layer, "uMain"), ...main);
+        fullscreen(layer, targets[0], half.width, half.height);
+
+        // stdDeviation in half-resolution texels; the kernel spans about two steps per sigma.
+        const step = (bloom * canvas.width) / width / 2 / 2;
+        gl.useProgram(blur);
+        gl.uniform1i(u(blur, "uSrc"), 0);
+        for (const [from, to, dir] of [[0, 1, [step / half.width, 0]], [1, 0, [0, step / half.height]]] as const) {
+          gl.bindTexture(gl.TEXTURE_2D, targets[from].tex);
+          gl.uniform2f(u(blur, "uDir"), dir[0], dir[1]);
+          fullscreen(blur, targets[to], half.width, half.height);
+        }
+        gl.bindTexture(gl.TEXTURE_2D, image);
+      }
+
+      gl.useProgram(composite);
+      gl.uniform1i(u(composite, "uImage"), 0);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, targets[0].tex);
+      gl.uniform1i(u(composite, "uBlur"), 1);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.uniform2f(u(composite, "uSize"), width, height);
+      gl.uniform4f(u(composite, "uMain"), ...(hasImage ? main : [0, 0, 0, 0] as const));
+      gl.uniform4f(u(composite, "uBackdrop"), ...(hasImage && frame.backdrop ? rect(frame.backdrop) : [0, 0, 0, 0] as const));
+      gl.uniform1f(u(composite, "uTime"), frame.time);
+      gl.uniform1f(u(composite, "uShimmer"), frame.shimmer);
+      gl.uniform1f(u(composite, "uBloom"), bloom > 0 ? 1 : 0);
+      gl.uniform1f(u(composite, "uVignette"), frame.vignette);
+      gl.uniform1f(u(composite, "uSweep"), frame.sweep ? 1 : 0);
+      const colour = (name: string, [r, g, b]: RGB) => gl.uniform3f(u(composite, name), r / 255, g / 255, b / 255);
+      colour("uRay0", frame.glow.ray[0]);
+      colour("uRay1", frame.glow.ray[1]);
+      colour("uHalo0", frame.glow.halo[0]);
+      colour("uHalo1", frame.glow.halo[1]);
+      fullscreen(composite, null, canvas.width, canvas.height);
+
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      gl.activeTexture(gl.TEXTURE0);
+
+      drawSprites(frame.sprites);
+    },
+
+    dispose() {
+      canvas.removeEventListener("webglcontextlost", onContextLost);
+      for (const p of [layer, blur, composite, sprite]) gl.deleteProgram(p);
+      for (const t of targets) { gl.deleteTexture(t.tex); gl.deleteFramebuffer(t.fbo); }
+      gl.deleteTexture(image);
+      gl.deleteBuffer(spriteBuf);
+      gl.deleteVertexArray(spriteVao);
+      gl.deleteVertexArray(empty);
+    },
+  };
+}